@@ -0,0 +1,135 @@
+/**
+ * Generates many schemas at once for `--all`: a limited number at a time,
+ * carrying on past failures, and summarizes the outcome per schema.
+ */
+
+import c from 'ansi-colors';
+import { generate, type GenerateOptions, type GenerateResult, type Reporter } from './generate.js';
+import { matchesFilters } from './filters.js';
+
+/**
+ * Outcome of one schema of {@link generateAll}: its result, or the error it failed with.
+ */
+export interface SchemaOutcome {
+  schema: string;
+  result?: GenerateResult;
+  error?: Error;
+  /** Milliseconds the schema took */
+  duration: number;
+}
+
+/**
+ * Options of {@link generateAll}.
+ */
+export interface GenerateAllOptions {
+  /** How many schemas are generated at the same time (default: 4) */
+  concurrency?: number;
+  /** Returns the reporter of a schema. Nothing is reported by default */
+  reporter?: (schema: string) => Reporter;
+  /** Called as soon as a schema finished or failed */
+  onOutcome?: (outcome: SchemaOutcome) => void;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Leaves out the schemas matching any of the given glob patterns.
+ *
+ * @param {string[]} schemas - Names of the schemas
+ * @param {string[]} patterns - Glob patterns of the schemas to leave out
+ * @returns {string[]} - The remaining schemas
+ */
+export function excludeSchemas(schemas: string[], patterns: string[]): string[] {
+  return schemas.filter((schema) => matchesFilters(schema, { include: [], exclude: patterns }));
+}
+
+/**
+ * Generates every schema, at most `concurrency` at the same time. A failing
+ * schema does not stop the others; its error is recorded in its outcome.
+ *
+ * @param {Omit<GenerateOptions, 'schema' | 'reporter'>} generateOptions - Options shared by the schemas
+ * @param {string[]} schemas - Names of the schemas to generate
+ * @param {GenerateAllOptions} options - Concurrency and progress callbacks
+ * @returns {Promise<SchemaOutcome[]>} - The outcome of every schema, in the order of `schemas`
+ */
+export async function generateAll(
+  generateOptions: Omit<GenerateOptions, 'schema' | 'reporter'>,
+  schemas: string[],
+  options: GenerateAllOptions = {}
+): Promise<SchemaOutcome[]> {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency ${concurrency}. Use a whole number of at least 1.`);
+  }
+
+  const outcomes: SchemaOutcome[] = new Array(schemas.length);
+  let next = 0;
+
+  // Every worker takes the next schema until none are left
+  const worker = async () => {
+    while (next < schemas.length) {
+      const index = next++;
+      const schema = schemas[index]!;
+      const started = Date.now();
+      let outcome: SchemaOutcome;
+      try {
+        const result = await generate({ ...generateOptions, schema, reporter: options.reporter?.(schema) });
+        outcome = { schema, result, duration: Date.now() - started };
+      } catch (error) {
+        outcome = { schema, error: error instanceof Error ? error : new Error(String(error)), duration: Date.now() - started };
+      }
+      outcomes[index] = outcome;
+      options.onOutcome?.(outcome);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, schemas.length) }, worker));
+  return outcomes;
+}
+
+/**
+ * Formats the outcomes of {@link generateAll} as a table with the tables,
+ * views, enums, warnings and status of every schema.
+ *
+ * @param {SchemaOutcome[]} outcomes - Outcomes of the schemas
+ * @returns {string} - The summary
+ */
+export function formatSummary(outcomes: SchemaOutcome[]): string {
+  const header = ['Schema', 'Tables', 'Views', 'Enums', 'Warnings', 'Time', 'Status'];
+  const rows = outcomes.map(({ schema, result, error, duration }) => {
+    const counts = result
+      ? [result.tables.length, result.views.length, result.enums.length, result.warnings.length].map(String)
+      : ['-', '-', '-', '-'];
+    let status: string;
+    if (error) status = `failed: ${error.message.split('\n')[0]}`;
+    else if (result!.drift.length > 0) status = `stale (${result!.drift.length} files)`;
+    else if (result!.planned) status = `${result!.planned.length} changes`;
+    else status = 'ok';
+    return [schema, ...counts, `${(duration / 1000).toFixed(1)}s`, status];
+  });
+
+  // Pad the plain text first, since colors would count towards the width
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column]!.length)));
+  const line = (cells: string[]) => cells
+    .map((cell, column) => (column > 0 && column < cells.length - 1 ? cell.padStart(widths[column]!) : cell.padEnd(widths[column]!)))
+    .join('  ')
+    .trimEnd();
+  const colorStatus = (row: string[], index: number) => {
+    const text = line(row);
+    const status = row[row.length - 1]!;
+    const { error, result } = outcomes[index]!;
+    const prefix = text.slice(0, text.length - status.length);
+    if (error) return prefix + c.red(status);
+    return prefix + (result!.drift.length > 0 ? c.yellow(status) : c.green(status));
+  };
+
+  const failed = outcomes.filter((outcome) => outcome.error).length;
+  return [
+    c.bold(line(header)),
+    ...rows.map(colorStatus),
+    '',
+    failed > 0
+      ? c.red.bold(`${failed} of ${outcomes.length} schemas failed`)
+      : c.green.bold(`All ${outcomes.length} schemas processed successfully`),
+  ].join('\n');
+}
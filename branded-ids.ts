@@ -0,0 +1,69 @@
+/**
+ * Resolves the nominal ID types of primary keys and the foreign keys that
+ * reference them.
+ */
+
+import { tsScalarType } from './column-types.js';
+import type { SchemaModel, TableModel } from './model.js';
+
+/**
+ * Branded ID types of a schema and the columns that use them.
+ */
+export interface BrandedIds {
+  /** `export type ...Id` declarations, one per table with a single-column primary key */
+  declarations: string;
+  /** ID type of every branded column, by table name and column property name */
+  columns: Map<string, Map<string, string>>;
+}
+
+/**
+ * Builds a branded type for every single-column primary key, e.g.
+ * `UsersId = string & { readonly __brand: "users.id" }`, and assigns it to the
+ * primary key and to every single-column foreign key that references it.
+ * Composite keys and foreign keys into other schemas are left unbranded.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {(table: TableModel) => string} typeName - Returns the type name of a table, which the ID type name is based on
+ * @returns {BrandedIds} - The declarations and the branded columns
+ */
+export function resolveBrandedIds(schemaModel: SchemaModel, typeName: (table: TableModel) => string): BrandedIds {
+  const idTypes = new Map<string, string>();
+  const columns = new Map<string, Map<string, string>>();
+  let declarations = '';
+
+  const brand = (table: TableModel, propertyName: string, idType: string) => {
+    if (!columns.has(table.name)) columns.set(table.name, new Map());
+    columns.get(table.name)!.set(propertyName, idType);
+  };
+
+  for (const table of schemaModel.tables) {
+    const primaryKey = table.primaryKey.length === 1
+      ? table.columns.find((column) => column.name === table.primaryKey[0])
+      : undefined;
+    if (!primaryKey) continue;
+
+    const idType = `${typeName(table)}Id`;
+    idTypes.set(table.name, idType);
+    brand(table, primaryKey.propertyName, idType);
+    declarations += `
+/**
+ * Identifies a row of the \`${table.name}\` table by its \`${primaryKey.name}\` primary key.
+ */
+export type ${idType} = ${tsScalarType(primaryKey)} & { readonly __brand: ${JSON.stringify(`${table.name}.${primaryKey.name}`)} };
+`;
+  }
+
+  for (const table of schemaModel.tables) {
+    for (const foreignKey of table.foreignKeys) {
+      if (foreignKey.foreignSchema || foreignKey.columns.length !== 1) continue;
+      const foreignTable = schemaModel.tables.find((candidate) => candidate.name === foreignKey.foreignTable);
+      const idType = idTypes.get(foreignKey.foreignTable);
+      if (!foreignTable || !idType || foreignTable.primaryKey[0] !== foreignKey.foreignColumns[0]) continue;
+
+      const column = table.columns.find((candidate) => candidate.name === foreignKey.columns[0]);
+      if (column) brand(table, column.propertyName, idType);
+    }
+  }
+
+  return { declarations, columns };
+}
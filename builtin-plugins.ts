@@ -0,0 +1,570 @@
+/**
+ * The built-in generators, as plugins: enums.ts, custom-types.ts, types.ts,
+ * relations.ts, zod.ts, kysely.ts, pg-rows.ts, schema.json, openapi.json and
+ * the index.ts that re-exports them.
+ */
+
+import { posix } from 'path';
+import type { ResolvedSchemaOptions } from './config.js';
+import type { ColumnModel, SchemaModel } from './model.js';
+import type { GeneratedFile, GeneratorPlugin, PluginContext } from './plugins.js';
+import { moduleName } from './plugins.js';
+import { jsDoc } from './doc-comments.js';
+import { propertyName, renderRowTypes } from './row-types.js';
+import { renderZodSchemas } from './zod-schemas.js';
+import { renderKyselyTypes } from './kysely-types.js';
+import { pgColumnType } from './column-types.js';
+import { buildJsonSchema, buildOpenApiComponents } from './json-schema.js';
+import { enumAliasTarget, renderEnumDeclarations } from './enum-styles.js';
+import { renderCustomTypes } from './custom-types.js';
+import { renderRelations } from './relations.js';
+import { resolveBrandedIds } from './branded-ids.js';
+import { createTypeOverrider, unmatchedColumnOverrides } from './type-overrides.js';
+
+/**
+ * Returns whether an earlier plugin generated a file in this run.
+ */
+function isGenerated(context: PluginContext, path: string): boolean {
+  return context.files.some((file) => file.path === path && file.content !== null);
+}
+
+/**
+ * Returns the committed path of a file of the schema directory, for progress messages.
+ */
+function schemaPath(context: PluginContext, path: string): string {
+  return posix.join(context.options.schemaDir, path);
+}
+
+/**
+ * Returns the mode line of the generated file headers.
+ */
+function generationMode(options: ResolvedSchemaOptions): string {
+  if (options.introspect === 'native') return 'Native catalog introspection + type generation';
+  if (options.introspect === 'sql') return 'SQL schema file + type generation';
+  return options.typesOnly ? 'Types only (manual regeneration)' : 'Full schema pull + type generation';
+}
+
+/**
+ * Generates an enums.ts file based on the schema model
+ */
+export const enumsPlugin: GeneratorPlugin = {
+  name: 'enums',
+  generate(context) {
+    const { schemaModel, options } = context;
+    if (!options.emit.enums) return [];
+    const spinner = context.report('Generating TypeScript enums file...');
+
+    try {
+      const enumDefinitions = schemaModel.enums.filter((enumDef) => enumDef.values.length > 0);
+
+      if (enumDefinitions.length === 0) {
+        spinner.info('No enums found in the schema');
+        return [];
+      }
+
+      // Generate the enums.ts file content
+      let enumsContent = `/**
+ * Auto-generated TypeScript enums for the ${options.schema} schema.
+ * Generated at: ${new Date().toISOString()}
+ * Mode: ${generationMode(options)}
+ */
+
+${options.enumStyle === 'union' ? '' : `import { getArrayFromEnum } from '${options.utilsImport}';\n\n`}`;
+
+      // Add the declarations of every enum in the configured style
+      enumsContent += renderEnumDeclarations(schemaModel, options.schemaSuffix, options.enumStyle, options.enumKeyCase);
+
+      spinner.succeed(
+        `TypeScript enums generated at ${schemaPath(context, 'enums.ts')} (${enumDefinitions.length} enums)`
+      );
+      return [{ path: 'enums.ts', content: enumsContent, export: true }];
+    } catch (error) {
+      spinner.fail('Failed to generate enums file');
+      throw error;
+    }
+  },
+};
+
+/**
+ * Generates a custom-types.ts file for the composite types and domains of the
+ * schema model, and removes a stale one when the schema has none left.
+ * Types-only runs cannot read the catalog, so they keep the file from the last full run.
+ */
+export const customTypesPlugin: GeneratorPlugin = {
+  name: 'custom-types',
+  async generate(context) {
+    const { schemaModel, options } = context;
+    if (!options.emit.customTypes) return [];
+
+    if (options.typesOnly) {
+      const existing = await context.readFile('custom-types.ts');
+      return existing === undefined ? [] : [{ path: 'custom-types.ts', content: existing, export: true }];
+    }
+
+    const spinner = context.report('Generating composite type and domain types...');
+
+    try {
+      const typeCount = schemaModel.compositeTypes.length + schemaModel.domains.length;
+      if (typeCount === 0) {
+        spinner.info('No composite types or domains found in the schema');
+        return [{ path: 'custom-types.ts', content: null }];
+      }
+
+      const { declarations, enumTypes } = renderCustomTypes(schemaModel, options.schemaSuffix, options.domainStyle);
+      const customTypesContent = `/**
+ * Auto-generated TypeScript types for the composite types and domains of the ${options.schema} schema.
+ * Generated at: ${new Date().toISOString()}
+ */
+${enumTypes.length > 0 ? `\nimport type { ${enumTypes.join(', ')} } from './enums';\n` : ''}${declarations}`;
+
+      spinner.succeed(`Custom types generated at ${schemaPath(context, 'custom-types.ts')} (${typeCount} types)`);
+      return [{ path: 'custom-types.ts', content: customTypesContent, export: true }];
+    } catch (error) {
+      spinner.fail('Failed to generate custom types file');
+      throw error;
+    }
+  },
+};
+
+/**
+ * Builds the types.ts content for a schema read from the database catalog.
+ * Tables get plain row interfaces instead of Drizzle-inferred aliases.
+ *
+ * @param {PluginContext} context - Context of the run
+ * @param {boolean} enumsGenerated - Whether an enums.ts file was generated
+ * @param {boolean} customTypesGenerated - Whether a custom-types.ts file was generated
+ * @returns {string} - Content of the types file
+ */
+function buildNativeTypesContent(context: PluginContext, enumsGenerated: boolean, customTypesGenerated: boolean): string {
+  const { schemaModel, options, typeName, rowTypeNames } = context;
+  const { schemaSuffix: suffix, enumStyle } = options;
+  const brandedIds = options.brandedIds ? resolveBrandedIds(schemaModel, typeName) : undefined;
+  const overrider = createTypeOverrider(options.typeOverrides, options.schemaDir);
+
+  // Without custom-types.ts, domain columns fall back to their base type
+  const { declarations, enumTypes, customTypes } = renderRowTypes(
+    customTypesGenerated ? schemaModel : { ...schemaModel, compositeTypes: [], domains: [] },
+    suffix,
+    rowTypeNames,
+    brandedIds,
+    undefined,
+    overrider
+  );
+  const overrideImports = overrider.renderImports();
+
+  const enumAliases = schemaModel.enums
+    .filter((enumDef) => enumDef.values.length > 0)
+    .map((enumDef) => ({
+      pascalName: typeName(enumDef),
+      enumType: enumAliasTarget(enumDef.name, suffix, enumStyle),
+      comment: enumDef.comment,
+    }));
+  const imports = [...new Set([...enumTypes, ...enumAliases.map((alias) => alias.enumType)])].sort();
+
+  let typesContent = `/**
+ * This file is auto-generated from the database schema using gen-types-enums-psql-schema.
+ * Do not modify this file directly - instead, run the script again.
+ * 
+ * Generated at: ${new Date().toISOString()}
+ * Schema: ${schemaModel.name}
+ * Mode: ${generationMode(options)}
+ */
+${imports.length > 0 ? `\nimport type { ${imports.join(', ')} } from './enums';\n` : ''}${customTypes.length > 0 ? `\nimport type { ${customTypes.join(', ')} } from './custom-types';\n` : ''}${overrideImports ? `\n${overrideImports}` : ''}${enumsGenerated ? '\nexport * from \'./enums\';\n' : ''}${customTypesGenerated ? '\nexport * from \'./custom-types\';\n' : ''}${brandedIds?.declarations ? `\n// Generate branded ID types for all primary keys\n${brandedIds.declarations}` : ''}
+// Generate TypeScript types for all tables
+${declarations}
+// Generate TypeScript types for all enums
+`;
+
+  for (const alias of enumAliases) {
+    typesContent += `
+${jsDoc(alias.comment ?? `Defines the \`${alias.pascalName}\` enum type for entities in the \`${schemaModel.name}\`.`)}export type ${alias.pascalName}Type = ${alias.enumType};
+`;
+  }
+
+  return typesContent;
+}
+
+/**
+ * Builds the types.ts content for a schema pulled by drizzle-kit, which infers
+ * the row types of tables and views from the Drizzle schema.
+ *
+ * @param {PluginContext} context - Context of the run
+ * @param {boolean} enumsGenerated - Whether an enums.ts file was generated
+ * @param {boolean} customTypesGenerated - Whether a custom-types.ts file was generated
+ * @returns {string} - Content of the types file
+ */
+function buildDrizzleTypesContent(context: PluginContext, enumsGenerated: boolean, customTypesGenerated: boolean): string {
+  const { schemaModel, options, typeName, rowTypeNames } = context;
+  const schemaName = options.schema;
+
+  // The default enum style keeps inferring enum types from the Drizzle schema;
+  // the other styles point them at the declarations in enums.ts instead
+  const enumAliasTargets = new Map(
+    enumsGenerated && options.enumStyle !== 'enum'
+      ? schemaModel.enums
+        .filter((enumDef) => enumDef.values.length > 0)
+        .map((enumDef) => [enumDef.variableName, enumAliasTarget(enumDef.name, options.schemaSuffix, options.enumStyle)])
+      : []
+  );
+  const enumImports = [...new Set(enumAliasTargets.values())].sort();
+  const brandedIds = options.brandedIds ? resolveBrandedIds(schemaModel, typeName) : undefined;
+
+  // Columns with a type set in the config replace the Drizzle-inferred types. They are
+  // resolved up front so that the imports they need can go into the header.
+  const overrider = createTypeOverrider(options.typeOverrides, options.schemaDir);
+  const overriddenColumns = new Map(
+    [...schemaModel.tables, ...schemaModel.views].map((relation) => [
+      relation.name,
+      relation.columns.flatMap((column) => {
+        const type = overrider.columnType(relation, column);
+        return type === undefined ? [] : [{ column, type }];
+      }),
+    ])
+  );
+  const overrideImports = overrider.renderImports();
+  const withOverrides = (relationName: string, rowType: string, insert: boolean) => {
+    const overridden = overriddenColumns.get(relationName) ?? [];
+    if (overridden.length === 0) return rowType;
+    const keys = overridden.map(({ column }) => `'${column.propertyName}'`).join(' | ');
+    const fields = overridden.map(({ column, type }) => {
+      const optional = insert && (!column.notNull || column.hasDefault) ? '?' : '';
+      return `${propertyName(column.propertyName)}${optional}: ${type}`;
+    });
+    return `Omit<${rowType}, ${keys}> & { ${fields.join('; ')} }`;
+  };
+
+  // Create the TypeScript types content
+  let typesContent = `/**
+ * This file is auto-generated from the database schema using gen-types-enums-psql-schema.
+ * Do not modify this file directly - instead, run the script again.
+ * 
+ * Generated at: ${new Date().toISOString()}
+ * Schema: ${schemaName}
+ * Mode: ${options.typesOnly ? 'Types only (manual regeneration)' : 'Full schema pull + type generation'}
+ */
+
+import { type TableInsert, type TableSelect${brandedIds?.declarations ? ', type WithBrandedIds' : ''} } from '${options.utilsImport}';
+import type * as schema from './schema';${enumImports.length > 0 ? `\nimport type { ${enumImports.join(', ')} } from './enums';` : ''}
+${overrideImports}
+// Export generated schema
+export * from './schema';
+${enumsGenerated ? '\nexport * from \'./enums\';' : ''}${customTypesGenerated ? '\nexport * from \'./custom-types\';' : ''}
+${brandedIds?.declarations ? `\n// Generate branded ID types for all primary keys\n${brandedIds.declarations}` : ''}
+// Generate TypeScript types for all tables
+`;
+
+  // Add table types
+  for (const table of schemaModel.tables) {
+    const names = rowTypeNames(table);
+    const tableReference = table.variableName;
+
+    // Key columns with branded ID types override the Drizzle-inferred types,
+    // unless the config sets another type for them
+    const overridden = new Set(overriddenColumns.get(table.name)?.map(({ column }) => column.propertyName));
+    const idColumns = [...(brandedIds?.columns.get(table.name) ?? [])].filter(([property]) => !overridden.has(property));
+    const withIds = (rowType: string) => idColumns.length > 0
+      ? `WithBrandedIds<${rowType}, { ${idColumns.map(([property, idType]) => `${propertyName(property)}: ${idType}`).join('; ')} }>`
+      : rowType;
+
+    typesContent += `
+${jsDoc(table.comment ?? `Defines the \`${names.select}\` type for entities in the \`${schemaName}\`.`)}export type ${names.select} = ${withOverrides(table.name, withIds(`TableSelect<typeof schema.${tableReference}>`), false)};
+export type ${names.insert} = ${withOverrides(table.name, withIds(`TableInsert<typeof schema.${tableReference}>`), true)};
+${names.update ? `export type ${names.update} = Partial<${names.insert}>;\n` : ''}`;
+  }
+
+  // Add view types. Views cannot be inserted into, so they only get a row type.
+  if (schemaModel.views.length > 0) {
+    typesContent += `
+// Generate TypeScript types for all views
+`;
+  }
+
+  for (const view of schemaModel.views) {
+    const pascalName = rowTypeNames(view).select;
+
+    typesContent += `
+${jsDoc(view.comment ?? `Defines the \`${pascalName}\` row type of the \`${view.name}\` ${view.materialized ? 'materialized view' : 'view'} in the \`${schemaName}\`.`)}export type ${pascalName} = ${withOverrides(view.name, `TableSelect<typeof schema.${view.variableName}>`, false)};
+`;
+  }
+
+  // Add enum types
+  typesContent += `
+// Generate TypeScript types for all enums
+`;
+
+  for (const enumDef of schemaModel.enums) {
+    const pascalName = typeName(enumDef);
+    const enumReference = enumDef.variableName;
+    const aliasTarget = enumAliasTargets.get(enumReference);
+
+    typesContent += `
+${jsDoc(enumDef.comment ?? `Defines the \`${pascalName}\` enum type for entities in the \`${schemaName}\`.`)}export type ${pascalName}Type = ${aliasTarget ?? `typeof schema.${enumReference}.enumValues[number]`};
+`;
+  }
+
+  return typesContent;
+}
+
+/**
+ * Generates the types.ts file with the row, insert and enum types of the schema
+ */
+export const typesPlugin: GeneratorPlugin = {
+  name: 'types',
+  generate(context) {
+    const spinner = context.report('Generating TypeScript types from schema...');
+    if (!context.options.emit.types) {
+      spinner.info('Skipping types.ts as configured');
+      return [];
+    }
+
+    try {
+      const enumsGenerated = isGenerated(context, 'enums.ts');
+      const customTypesGenerated = isGenerated(context, 'custom-types.ts');
+      for (const key of unmatchedColumnOverrides(context.schemaModel, context.options.typeOverrides)) {
+        context.warn(`Type override ${key} matches no column of the ${context.schemaModel.name} schema`);
+      }
+      // Plain row interfaces when there is no Drizzle schema to infer from
+      const typesContent = context.options.introspect !== 'drizzle'
+        ? buildNativeTypesContent(context, enumsGenerated, customTypesGenerated)
+        : buildDrizzleTypesContent(context, enumsGenerated, customTypesGenerated);
+
+      spinner.succeed(`TypeScript types generated at ${schemaPath(context, 'types.ts')}`);
+      return [{ path: 'types.ts', content: typesContent, export: true }];
+    } catch (error) {
+      spinner.fail('Failed to generate types file');
+      throw error;
+    }
+  },
+};
+
+/**
+ * Generates a relations.ts file with a Drizzle `relations()` definition for
+ * every table that has or is referenced by a foreign key. A stale file is
+ * removed when the schema has no foreign keys between its tables. The file
+ * imports the tables from schema.ts, so it needs a kept schema.ts.
+ */
+export const relationsPlugin: GeneratorPlugin = {
+  name: 'relations',
+  generate(context) {
+    const { schemaModel, options } = context;
+    if (options.introspect !== 'drizzle' || !options.emit.relations || !options.emit.schema) return [];
+    const spinner = context.report('Generating Drizzle relations file...');
+
+    try {
+      const { declarations, tables } = renderRelations(schemaModel);
+      if (!declarations) {
+        spinner.info('No foreign keys between the tables of the schema, skipping relations.ts');
+        return [{ path: 'relations.ts', content: null }];
+      }
+
+      const relationsContent = `/**
+ * Auto-generated Drizzle relations for the foreign keys of the ${options.schema} schema.
+ * Generated at: ${new Date().toISOString()}
+ */
+
+import { relations } from 'drizzle-orm';
+import { ${tables.join(', ')} } from './schema';
+${declarations}`;
+
+      spinner.succeed(`Relations generated at ${schemaPath(context, 'relations.ts')} (${declarations.split('relations(').length - 1} tables)`);
+      return [{ path: 'relations.ts', content: relationsContent, export: true }];
+    } catch (error) {
+      spinner.fail('Failed to generate relations file');
+      throw error;
+    }
+  },
+};
+
+/**
+ * Generates a zod.ts file with select and insert schemas for every table
+ */
+export const zodPlugin: GeneratorPlugin = {
+  name: 'zod',
+  generate(context) {
+    const { schemaModel, options } = context;
+    // Remove the file of an earlier run that had it turned on
+    if (!options.emit.zod) return [{ path: 'zod.ts', content: null }];
+    const spinner = context.report('Generating Zod schemas file...');
+
+    try {
+      const zodContent = `/**
+ * Auto-generated Zod schemas for the ${schemaModel.name} schema.
+ * Do not modify this file directly - instead, run the script again.
+ *
+ * Generated at: ${new Date().toISOString()}
+ */
+
+${renderZodSchemas(schemaModel, options.schemaSuffix, context.typeName, options.enumStyle)}`;
+
+      spinner.succeed(`Zod schemas generated at ${schemaPath(context, 'zod.ts')}`);
+      return [{ path: 'zod.ts', content: zodContent, export: true }];
+    } catch (error) {
+      spinner.fail('Failed to generate Zod schemas file');
+      throw error;
+    }
+  },
+};
+
+/**
+ * Generates a kysely.ts file with a Kysely `Database` interface and/or a
+ * pg-rows.ts file with plain row interfaces, both typed the way the `pg`
+ * driver returns rows and independent of Drizzle. Neither is re-exported from
+ * index.ts, since their names overlap with types.ts.
+ */
+export const driverTypesPlugin: GeneratorPlugin = {
+  name: 'driver-types',
+  generate(context) {
+    const { schemaModel, options, typeName, rowTypeNames } = context;
+    // Remove the files of an earlier run that had them turned on
+    const removed: GeneratedFile[] = [
+      ...(options.emit.kysely ? [] : [{ path: 'kysely.ts', content: null }]),
+      ...(options.emit.pgRows ? [] : [{ path: 'pg-rows.ts', content: null }]),
+    ];
+    if (!options.emit.kysely && !options.emit.pgRows) return removed;
+    const spinner = context.report('Generating Kysely and pg row types...');
+
+    // Only point at the enums and custom types that were generated
+    const model: SchemaModel = {
+      ...schemaModel,
+      enums: isGenerated(context, 'enums.ts') ? schemaModel.enums : [],
+      ...(isGenerated(context, 'custom-types.ts') ? {} : { compositeTypes: [], domains: [] }),
+    };
+    const namedImports = (enumTypes: string[], customTypes: string[], overrideImports: string) =>
+      `${enumTypes.length > 0 ? `import type { ${enumTypes.join(', ')} } from './enums';\n` : ''}${customTypes.length > 0 ? `import type { ${customTypes.join(', ')} } from './custom-types';\n` : ''}${overrideImports}`;
+    const files: GeneratedFile[] = [];
+
+    try {
+      if (options.emit.kysely) {
+        const overrider = createTypeOverrider(options.typeOverrides, options.schemaDir);
+        const { declarations, kyselyTypes, enumTypes, customTypes } = renderKyselyTypes(model, options.schemaSuffix, typeName, overrider);
+        files.push({
+          path: 'kysely.ts',
+          content: `/**
+ * Auto-generated Kysely database interface for the ${schemaModel.name} schema.
+ * Do not modify this file directly - instead, run the script again.
+ *
+ * Generated at: ${new Date().toISOString()}
+ */
+
+${kyselyTypes.length > 0 ? `import type { ${kyselyTypes.join(', ')} } from 'kysely';\n` : ''}${namedImports(enumTypes, customTypes, overrider.renderImports())}${declarations}`,
+        });
+      }
+
+      if (options.emit.pgRows) {
+        // pg returns rows keyed by column name, not by Drizzle property name
+        const byColumnName = <T extends { columns: ColumnModel[] }>(relation: T): T => ({
+          ...relation,
+          columns: relation.columns.map((column) => ({ ...column, propertyName: column.name })),
+        });
+        const overrider = createTypeOverrider(options.typeOverrides, options.schemaDir);
+        const { declarations, enumTypes, customTypes } = renderRowTypes(
+          { ...model, tables: model.tables.map(byColumnName), views: model.views.map(byColumnName) },
+          options.schemaSuffix,
+          rowTypeNames,
+          undefined,
+          pgColumnType,
+          overrider
+        );
+        const overrideImports = overrider.renderImports();
+        files.push({
+          path: 'pg-rows.ts',
+          content: `/**
+ * Auto-generated row interfaces for the ${schemaModel.name} schema, as the pg driver returns rows.
+ * Do not modify this file directly - instead, run the script again.
+ *
+ * Generated at: ${new Date().toISOString()}
+ */
+${enumTypes.length > 0 || customTypes.length > 0 || overrideImports ? `\n${namedImports(enumTypes, customTypes, overrideImports)}` : ''}${declarations}`,
+        });
+      }
+
+      spinner.succeed(`Driver types generated at ${files.map((file) => schemaPath(context, file.path)).join(' and ')}`);
+      return [...files, ...removed];
+    } catch (error) {
+      spinner.fail('Failed to generate Kysely and pg row types');
+      throw error;
+    }
+  },
+};
+
+/**
+ * Generates schema.json (JSON Schema draft 2020-12) and/or openapi.json
+ * (OpenAPI 3.1 `components.schemas`) for every table and enum
+ */
+export const jsonSchemaPlugin: GeneratorPlugin = {
+  name: 'json-schema',
+  generate(context) {
+    const { schemaModel, options, rowTypeNames } = context;
+    // Remove the files of an earlier run that had them turned on
+    const removed: GeneratedFile[] = [
+      ...(options.emit.jsonSchema ? [] : [{ path: 'schema.json', content: null }]),
+      ...(options.emit.openApi ? [] : [{ path: 'openapi.json', content: null }]),
+    ];
+    if (!options.emit.jsonSchema && !options.emit.openApi) return removed;
+    const spinner = context.report('Generating JSON Schema definitions...');
+    const files: GeneratedFile[] = [];
+
+    try {
+      if (options.emit.jsonSchema) {
+        const jsonSchema = buildJsonSchema(schemaModel, options.schemaSuffix, rowTypeNames);
+        files.push({ path: 'schema.json', content: JSON.stringify(jsonSchema, null, 2) + '\n' });
+      }
+      if (options.emit.openApi) {
+        const components = buildOpenApiComponents(schemaModel, options.schemaSuffix, rowTypeNames);
+        files.push({ path: 'openapi.json', content: JSON.stringify(components, null, 2) + '\n' });
+      }
+
+      spinner.succeed(`JSON Schema definitions generated at ${files.map((file) => schemaPath(context, file.path)).join(' and ')}`);
+      return [...files, ...removed];
+    } catch (error) {
+      spinner.fail('Failed to generate JSON Schema definitions');
+      throw error;
+    }
+  },
+};
+
+/**
+ * Creates an index.ts file that re-exports types.ts, schema.ts and every
+ * module a plugin asked to export. It runs after all other plugins.
+ */
+export const indexPlugin: GeneratorPlugin = {
+  name: 'index',
+  generate(context) {
+    const { options } = context;
+    if (!options.emit.index) return [];
+    const spinner = context.report('Creating index file...');
+
+    // types.ts and schema.ts come first, then the modules in the order they were generated
+    const exported = context.files.filter((file) => file.export && file.content !== null).map(moduleName);
+    const exportedModules = [
+      ...(exported.includes('types') ? ['types'] : []),
+      ...(options.introspect === 'drizzle' && options.emit.schema ? ['schema'] : []),
+      ...exported.filter((module) => module !== 'types'),
+    ];
+    const indexContent = `/**
+ * This file exports all types and schema components for the ${options.schema} schema.
+ * 
+ * Generated at: ${new Date().toISOString()}
+ */
+
+${exportedModules.map((module) => `export * from './${module}';`).join('\n')}
+`;
+
+    spinner.succeed(`Index file generated at ${schemaPath(context, 'index.ts')}`);
+    return [{ path: 'index.ts', content: indexContent }];
+  },
+};
+
+/**
+ * The built-in generators in the order they run, before the plugins of the
+ * project config. {@link indexPlugin} runs last, after those.
+ */
+export const BUILTIN_PLUGINS: readonly GeneratorPlugin[] = [
+  enumsPlugin,
+  customTypesPlugin,
+  typesPlugin,
+  relationsPlugin,
+  zodPlugin,
+  driverTypesPlugin,
+  jsonSchemaPlugin,
+];
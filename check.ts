@@ -0,0 +1,154 @@
+/**
+ * Compares freshly generated files with the committed ones for `--check` and
+ * `--dry-run`.
+ */
+
+import c from 'ansi-colors';
+import { createTwoFilesPatch } from 'diff';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+/**
+ * A generated file that differs from the committed one.
+ */
+export interface FileDrift {
+  /** Path of the committed file */
+  path: string;
+  status: 'modified' | 'added' | 'removed';
+  /** Unified diff from the committed content to the generated content */
+  diff: string;
+}
+
+/**
+ * A file or directory that a normal run would create, modify or delete, as
+ * reported by a dry run.
+ */
+export interface PlannedChange {
+  path: string;
+  action: 'create' | 'modify' | 'delete';
+}
+
+/**
+ * Transforms generated content before it is compared, e.g. to apply lint fixes.
+ */
+export type ContentTransform = (path: string, content: string) => Promise<string>;
+
+/**
+ * Removes the `Generated at: <timestamp>` header lines, which change on every run.
+ *
+ * @param {string} content - Generated file content
+ * @returns {string} - The content without timestamp lines
+ */
+export function normalizeGenerated(content: string): string {
+  return content
+    .split('\n')
+    .filter((line) => !/Generated at: \S+/u.test(line))
+    .join('\n');
+}
+
+/**
+ * Lists the files directly inside a directory, or nothing if it does not exist.
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries.filter((entry) => entry.isFile()).map((entry) => entry.name);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Reads a file, returning undefined if it does not exist.
+ */
+async function readOptional(path: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Compares the files generated into a temporary directory with the committed
+ * files of a schema. Timestamp header lines are ignored.
+ *
+ * @param {string} generatedDir - Directory the check run generated into
+ * @param {string} committedDir - Directory holding the committed files
+ * @param {ContentTransform} transform - Applied to generated content before comparing
+ * @returns {Promise<FileDrift[]>} - The files that differ
+ */
+export async function compareGeneratedFiles(
+  generatedDir: string,
+  committedDir: string,
+  transform?: ContentTransform
+): Promise<FileDrift[]> {
+  const names = [...new Set([...(await listFiles(generatedDir)), ...(await listFiles(committedDir))])].sort();
+  const drifts: FileDrift[] = [];
+
+  for (const name of names) {
+    const path = join(committedDir, name);
+    const committed = await readOptional(path);
+    let generated = await readOptional(join(generatedDir, name));
+    if (generated !== undefined && transform) generated = await transform(path, generated);
+
+    const before = committed === undefined ? '' : normalizeGenerated(committed);
+    const after = generated === undefined ? '' : normalizeGenerated(generated);
+    if (committed !== undefined && generated !== undefined && before === after) continue;
+
+    drifts.push({
+      path,
+      status: committed === undefined ? 'added' : generated === undefined ? 'removed' : 'modified',
+      diff: createTwoFilesPatch(path, path, before, after, 'committed', 'generated'),
+    });
+  }
+
+  return drifts;
+}
+
+/**
+ * Formats drifted files as a colored, human-readable report.
+ *
+ * @param {FileDrift[]} drifts - Files that differ
+ * @returns {string} - The report
+ */
+export function formatDrift(drifts: FileDrift[]): string {
+  return drifts
+    .map((drift) => {
+      const header = c.bold(`${drift.status === 'modified' ? '~' : drift.status === 'added' ? '+' : '-'} ${drift.path} (${drift.status})`);
+      const body = drift.diff
+        .split('\n')
+        .slice(2)
+        .map((line) => {
+          if (line.startsWith('+++') || line.startsWith('---')) return c.dim(line);
+          if (line.startsWith('+')) return c.green(line);
+          if (line.startsWith('-')) return c.red(line);
+          if (line.startsWith('@@')) return c.cyan(line);
+          return line;
+        })
+        .join('\n');
+      return `${header}\n${body}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Formats the changes of a dry run as a colored, human-readable list.
+ *
+ * @param {string} schemaName - Name of the schema
+ * @param {PlannedChange[]} changes - Files and directories a normal run would change
+ * @returns {string} - The report
+ */
+export function formatPlannedChanges(schemaName: string, changes: PlannedChange[]): string {
+  if (changes.length === 0) {
+    return c.green(`A run for ${schemaName} would not change any files`);
+  }
+
+  const markers = { create: c.green('+'), modify: c.yellow('~'), delete: c.red('-') };
+  return [
+    c.bold(`A run for ${schemaName} would change ${changes.length} files:`),
+    ...changes.map((change) => `  ${markers[change.action]} ${change.path} ${c.dim(`(${change.action})`)}`),
+  ].join('\n');
+}
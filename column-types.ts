@@ -0,0 +1,113 @@
+/**
+ * Maps model columns to the TypeScript types of their values.
+ */
+
+import type { ColumnModel } from './model.js';
+
+const NUMBER_TYPES: readonly string[] = [
+  'integer',
+  'smallint',
+  'real',
+  'doublePrecision',
+  'serial',
+  'smallserial',
+];
+
+const STRING_TYPES: readonly string[] = [
+  'text',
+  'varchar',
+  'char',
+  'uuid',
+  'numeric',
+  'decimal',
+  'time',
+  'interval',
+  'inet',
+  'cidr',
+  'macaddr',
+  'macaddr8',
+  'bit',
+  'varbit',
+  'tsvector',
+  'citext',
+];
+
+/**
+ * Returns the TypeScript type of a single (non-array, non-null) value of a column.
+ *
+ * @param {ColumnModel} column - Column to map
+ * @param {string} namedType - Name of the TypeScript type for the column's enum, composite type or domain, if it uses one
+ * @returns {string} - The TypeScript type
+ */
+export function tsScalarType(column: ColumnModel, namedType?: string): string {
+  if ((column.enumName || column.typeName) && namedType) return namedType;
+  if (STRING_TYPES.includes(column.dataType)) return 'string';
+  if (NUMBER_TYPES.includes(column.dataType)) return 'number';
+
+  switch (column.dataType) {
+    case 'boolean':
+      return 'boolean';
+    case 'bigint':
+    case 'bigserial':
+      if (column.mode === 'number') return 'number';
+      if (column.mode === 'bigint') return 'bigint';
+      return 'string';
+    case 'timestamp':
+      return column.mode === 'string' ? 'string' : 'Date';
+    case 'date':
+      return column.mode === 'date' ? 'Date' : 'string';
+    case 'point':
+      return column.mode === 'xy' ? '{ x: number; y: number }' : '[number, number]';
+    case 'vector':
+      return 'number[]';
+    case 'json':
+    case 'jsonb':
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Returns the TypeScript type of a column's value, including arrays and `null`.
+ *
+ * @param {ColumnModel} column - Column to map
+ * @param {string} namedType - Name of the TypeScript type for the column's enum, composite type or domain, if it uses one
+ * @returns {string} - The TypeScript type
+ */
+export function tsColumnType(column: ColumnModel, namedType?: string): string {
+  const scalar = tsScalarType(column, namedType);
+  const value = column.isArray ? `${scalar.includes(' ') ? `(${scalar})` : scalar}[]` : scalar;
+  return column.notNull ? value : `${value} | null`;
+}
+
+/**
+ * Returns the TypeScript type of a column's value as the `pg` driver returns
+ * it by default, ignoring the Drizzle `mode` of the column: `date` columns
+ * become `Date`, `point` columns `{ x, y }` objects and `bigint` columns strings.
+ *
+ * @param {ColumnModel} column - Column to map
+ * @param {string} namedType - Name of the TypeScript type for the column's enum, composite type or domain, if it uses one
+ * @returns {string} - The TypeScript type
+ */
+export function pgColumnType(column: ColumnModel, namedType?: string): string {
+  const { mode: _mode, ...driverColumn } = column;
+  if (column.dataType === 'date') return tsColumnType({ ...driverColumn, mode: 'date' }, namedType);
+  if (column.dataType === 'point') return tsColumnType({ ...driverColumn, mode: 'xy' }, namedType);
+  return tsColumnType(driverColumn, namedType);
+}
+
+/**
+ * Returns the regular expression source matching the text form of a
+ * `numeric(precision, scale)` value.
+ *
+ * @param {ColumnModel} column - A `numeric` or `decimal` column
+ * @returns {string} - The regular expression source, without delimiters
+ */
+export function numericPattern(column: ColumnModel): string {
+  if (column.precision === undefined) return '^-?\\d+(\\.\\d+)?$';
+  const scale = column.scale ?? 0;
+  const integerDigits = Math.max(column.precision - scale, 1);
+  return scale > 0
+    ? `^-?\\d{1,${integerDigits}}(\\.\\d{1,${scale}})?$`
+    : `^-?\\d{1,${integerDigits}}$`;
+}
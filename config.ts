@@ -0,0 +1,466 @@
+/**
+ * Project configuration (`gen-types.config.ts`) and its resolution into the
+ * options used to process a single schema.
+ */
+
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { basename, dirname, join, posix, relative, resolve } from 'path';
+import ts from 'typescript';
+import { pathToFileURL } from 'url';
+import type { DomainStyle } from './custom-types.js';
+import type { EnumKeyCase, EnumStyle } from './enum-styles.js';
+import type { Formatter } from './formatters.js';
+import type { GeneratorPlugin } from './plugins.js';
+import { schemaSuffix } from './naming.js';
+
+/**
+ * Where the schema model is read from. `sql` reads the SQL file set with `fromSql`.
+ */
+export type IntrospectionMode = 'drizzle' | 'native' | 'sql';
+
+/**
+ * Files that can be emitted for each schema.
+ */
+export interface EmitOptions {
+  /** enums.ts (default: true) */
+  enums?: boolean;
+  /** types.ts (default: true) */
+  types?: boolean;
+  /** index.ts (default: true) */
+  index?: boolean;
+  /** Keep the pulled Drizzle schema.ts next to the generated files (default: true) */
+  schema?: boolean;
+  /** custom-types.ts with the composite types and domains read from the database catalog (default: true) */
+  customTypes?: boolean;
+  /** relations.ts with Drizzle `relations()` for the foreign keys. Needs schema.ts, so not written with native introspection or `fromSql` (default: true) */
+  relations?: boolean;
+  /** snapshot.json, a copy of the drizzle-kit snapshot the types were generated from (default: true) */
+  snapshot?: boolean;
+  /** kysely.ts with a Kysely `Database` interface (default: false) */
+  kysely?: boolean;
+  /** pg-rows.ts with plain row interfaces keyed by column name, as the `pg` driver returns rows (default: false) */
+  pgRows?: boolean;
+  /** zod.ts (default: false) */
+  zod?: boolean;
+  /** schema.json (default: false) */
+  jsonSchema?: boolean;
+  /** openapi.json (default: false) */
+  openApi?: boolean;
+}
+
+/**
+ * Options for the names of generated identifiers.
+ */
+export interface NamingOptions {
+  /** Suffix appended to generated enum names. Defaults to the PascalCase schema name plus `S` (e.g. `PublicS`) */
+  schemaSuffix?: string;
+  /** Whether the default schema suffix ends in `S`, e.g. `PublicS` rather than `Public` (default: true) */
+  trailingS?: boolean;
+  /** Singularize the type names of tables, views and enums, e.g. `User` and `UserInsert` for `users` (default: false) */
+  singular?: boolean;
+  /** Prefix and suffix of the row types of tables and views (default: none) */
+  select?: TypeAffixes;
+  /** Prefix and suffix of the insert types of tables (default: suffix `Insert`) */
+  insert?: TypeAffixes;
+  /** Prefix and suffix of the update types of tables, which are only generated when set (default suffix: `Update`) */
+  update?: TypeAffixes;
+}
+
+/**
+ * Prefix and suffix around the type name of a table or view, e.g. `{ suffix: 'Row' }` for `UserRow`.
+ */
+export interface TypeAffixes {
+  prefix?: string;
+  suffix?: string;
+}
+
+/**
+ * Resolved type naming options of a schema.
+ */
+export interface ResolvedNamingOptions {
+  singular: boolean;
+  select: Required<TypeAffixes>;
+  insert: Required<TypeAffixes>;
+  /** Unset when no update types are generated */
+  update?: Required<TypeAffixes>;
+}
+
+/**
+ * Where the database connection string comes from.
+ */
+export interface ConnectionOptions {
+  /** Environment variable holding the connection string (default: `DATABASE_URL`) */
+  env?: string;
+  /** Connection string to use instead of the environment variable */
+  url?: string;
+}
+
+/**
+ * Options that can be set for all schemas and overridden per schema.
+ */
+export interface SchemaOptions {
+  /** Directory the `<schema>` folders are generated into (default: `./schemas`) */
+  outDir?: string;
+  emit?: EmitOptions;
+  naming?: NamingOptions;
+  introspect?: IntrospectionMode;
+  /** SQL file to read the schema from instead of the database, e.g. the output of `pg_dump --schema-only`. Implies `introspect: 'sql'` */
+  fromSql?: string;
+  /** How enums are emitted in enums.ts (default: `enum`) */
+  enumStyle?: EnumStyle;
+  /** Casing of enum member keys (default: `value`, the quoted value itself) */
+  enumKeyCase?: EnumKeyCase;
+  /** How domains are emitted in custom-types.ts (default: `alias`) */
+  domainStyle?: DomainStyle;
+  /** Give primary keys and the foreign keys referencing them branded ID types (default: false) */
+  brandedIds?: boolean;
+  /**
+   * TypeScript types of columns, keyed by `table.column` or by Postgres type name (e.g. `jsonb`, `numeric`).
+   * `import('./path').Name` references are imported into the generated files. Merged across config layers
+   */
+  typeOverrides?: Record<string, string>;
+  /** Import path of the `utils` helpers used by the generated files, relative to each schema folder */
+  utilsImport?: string;
+  /** Formats the files written by a run: `eslint`, `prettier`, `biome`, `dprint`, `none` or a `{ command }` (default: `eslint`) */
+  formatter?: Formatter;
+  /** Glob patterns of the tables, views and enums to generate, e.g. `['app_*']` (default: all) */
+  include?: string[];
+  /** Glob patterns of the tables, views and enums to leave out, e.g. `['__drizzle_*', '*_bak']` */
+  exclude?: string[];
+  /** Generators of additional files. Plugins set for a schema in `overrides` run after the shared ones */
+  plugins?: GeneratorPlugin[];
+}
+
+/**
+ * Contents of a `gen-types.config.ts` file.
+ */
+export interface GenTypesConfig extends SchemaOptions {
+  /**
+   * Schemas processed by `--all`. Defaults to the schemas found in the
+   * database, or to the folders found in `outDir` with `--types-only`
+   */
+  schemas?: string[];
+  /** Glob patterns of the schemas `--all` leaves out when it finds them, e.g. `['drizzle', 'tmp_*']` */
+  excludeSchemas?: string[];
+  /** How many schemas `--all` generates at the same time (default: 4) */
+  concurrency?: number;
+  connection?: ConnectionOptions;
+  /** Options that only apply to one schema, keyed by schema name */
+  overrides?: Record<string, SchemaOptions>;
+}
+
+/**
+ * Fully resolved options for processing one schema.
+ */
+export interface ResolvedSchemaOptions {
+  schema: string;
+  outDir: string;
+  /** Folder the schema's files are generated into */
+  schemaDir: string;
+  /** Path of the drizzle-kit config file for the schema */
+  drizzleConfigFile: string;
+  emit: Required<EmitOptions>;
+  schemaSuffix: string;
+  naming: ResolvedNamingOptions;
+  introspect: IntrospectionMode;
+  /** SQL file the schema is read from when `introspect` is `sql` */
+  fromSql?: string;
+  enumStyle: EnumStyle;
+  enumKeyCase: EnumKeyCase;
+  domainStyle: DomainStyle;
+  brandedIds: boolean;
+  typeOverrides: Record<string, string>;
+  utilsImport: string;
+  formatter: Formatter;
+  include: string[];
+  exclude: string[];
+  plugins: GeneratorPlugin[];
+  connectionEnv: string;
+  connectionString?: string;
+  /** Only regenerate from the existing schema.ts, without pulling */
+  typesOnly: boolean;
+  /** Generate into a temporary directory and compare with the committed files */
+  check: boolean;
+  /** Generate into a temporary directory and report the files a normal run would change */
+  dryRun: boolean;
+}
+
+/**
+ * Options that only exist on the command line.
+ */
+export interface RunOptions {
+  typesOnly?: boolean;
+  check?: boolean;
+  dryRun?: boolean;
+}
+
+export const CONFIG_FILE_NAMES = [
+  'gen-types.config.ts',
+  'gen-types.config.mts',
+  'gen-types.config.js',
+  'gen-types.config.mjs',
+];
+
+const DEFAULT_EMIT: Required<EmitOptions> = {
+  enums: true,
+  types: true,
+  index: true,
+  schema: true,
+  customTypes: true,
+  relations: true,
+  snapshot: true,
+  kysely: false,
+  pgRows: false,
+  zod: false,
+  jsonSchema: false,
+  openApi: false,
+};
+
+/**
+ * Defines a typed project configuration. Use it as the default export of
+ * `gen-types.config.ts`.
+ *
+ * @param {GenTypesConfig} config - The project configuration
+ * @returns {GenTypesConfig} - The same configuration
+ */
+export function defineConfig(config: GenTypesConfig): GenTypesConfig {
+  return config;
+}
+
+// Extensions tried for relative imports without one, in order
+const MODULE_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs'];
+
+/**
+ * Resolves a relative import the way TypeScript does for a project: with or
+ * without an extension, `.js` standing for the `.ts` source, or a folder's index.
+ */
+async function resolveLocalModule(importer: string, specifier: string): Promise<string | undefined> {
+  const base = resolve(dirname(importer), specifier);
+  const sources = /\.m?js$/u.test(base) ? [base.replace(/js$/u, 'ts')] : [];
+  const candidates = [
+    ...sources,
+    base,
+    ...MODULE_EXTENSIONS.map((extension) => `${base}${extension}`),
+    ...MODULE_EXTENSIONS.map((extension) => join(base, `index${extension}`)),
+  ];
+
+  for (const candidate of candidates) {
+    const stat = await fs.stat(candidate).catch(() => undefined);
+    if (stat?.isFile()) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Creates the directory a config file and its local modules are transpiled
+ * into: a new directory under `node_modules/.cache` of the project, so that
+ * package imports resolve from the project's node_modules, or under the
+ * system temporary directory when there is no node_modules. Nothing is
+ * written next to the user's sources.
+ *
+ * @param {string} configPath - Path of the config file
+ * @returns {Promise<string>} - Path of the new directory
+ */
+async function createTranspileDirectory(configPath: string): Promise<string> {
+  for (let dir = dirname(configPath); ; dir = dirname(dir)) {
+    const modulesDir = join(dir, 'node_modules');
+    if (await fs.stat(modulesDir).then((stat) => stat.isDirectory(), () => false)) {
+      await fs.mkdir(join(modulesDir, '.cache'), { recursive: true });
+      return fs.mkdtemp(join(modulesDir, '.cache', 'gen-types-config-'));
+    }
+    if (dirname(dir) === dir) return fs.mkdtemp(join(tmpdir(), 'gen-types-config-'));
+  }
+}
+
+/**
+ * Transpiles a TypeScript module into a `.mjs` file of the transpile
+ * directory. Relative imports of other TypeScript files are transpiled the
+ * same way, and those of JavaScript files point at the originals.
+ *
+ * @param {string} path - Path of the TypeScript module
+ * @param {string} outDir - Directory from {@link createTranspileDirectory}
+ * @param {Map<string, string>} transpiled - Transpiled file of every module transpiled so far, by path
+ * @returns {Promise<string>} - Path of the transpiled file
+ */
+async function transpileLocalModule(path: string, outDir: string, transpiled: Map<string, string>): Promise<string> {
+  const existing = transpiled.get(path);
+  if (existing) return existing;
+  // Numbered, since local modules in different folders can share a name
+  const tempPath = join(outDir, `${transpiled.size}.${basename(path).replace(/\.m?ts$/u, '')}.mjs`);
+  transpiled.set(path, tempPath);
+
+  let source = await fs.readFile(path, 'utf8');
+  const sourceFile = ts.createSourceFile(path, source, ts.ScriptTarget.ES2020);
+  const specifiers: ts.StringLiteral[] = [];
+  const visit = (node: ts.Node) => {
+    if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      // Type-only imports are removed by the transpiler
+      const typeOnly = ts.isImportDeclaration(node) ? node.importClause?.isTypeOnly : node.isTypeOnly;
+      if (!typeOnly) specifiers.push(node.moduleSpecifier);
+    } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword && node.arguments[0] && ts.isStringLiteral(node.arguments[0])) {
+      specifiers.push(node.arguments[0]);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // Replace from the end, so that earlier positions stay valid
+  for (const specifier of specifiers.reverse()) {
+    if (!specifier.text.startsWith('.')) continue;
+    const target = await resolveLocalModule(path, specifier.text);
+    if (!target) continue;
+    const imported = /\.m?ts$/u.test(target) ? await transpileLocalModule(target, outDir, transpiled) : target;
+    const rewritten = relative(outDir, imported).split('\\').join('/');
+    const importPath = rewritten.startsWith('../') ? rewritten : `./${rewritten}`;
+    source = `${source.slice(0, specifier.getStart(sourceFile))}${JSON.stringify(importPath)}${source.slice(specifier.getEnd())}`;
+  }
+
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+    fileName: path,
+  });
+  await fs.writeFile(tempPath, outputText, 'utf8');
+  return tempPath;
+}
+
+/**
+ * Imports a TypeScript config file by transpiling it, and the local
+ * TypeScript modules it imports, e.g. plugins, into a temporary directory.
+ */
+async function importTypeScriptConfig(configPath: string): Promise<Record<string, unknown>> {
+  const outDir = await createTranspileDirectory(configPath);
+  try {
+    const tempPath = await transpileLocalModule(configPath, outDir, new Map());
+    return (await import(pathToFileURL(tempPath).href)) as Record<string, unknown>;
+  } finally {
+    await fs.rm(outDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Loads the project configuration. Without an explicit path, the first of
+ * {@link CONFIG_FILE_NAMES} found in the working directory is used; without
+ * any config file an empty configuration is returned.
+ *
+ * @param {string} configPath - Explicit path of the config file
+ * @returns {Promise<GenTypesConfig>} - The project configuration
+ */
+export async function loadConfig(configPath?: string): Promise<GenTypesConfig> {
+  let path = configPath ? resolve(configPath) : undefined;
+
+  if (!path) {
+    for (const name of CONFIG_FILE_NAMES) {
+      try {
+        await fs.access(name);
+        path = resolve(name);
+        break;
+      } catch {
+        // Try the next file name
+      }
+    }
+  }
+
+  if (!path) return {};
+
+  try {
+    await fs.access(path);
+  } catch {
+    throw new Error(`Config file ${configPath} not found.`);
+  }
+
+  const module = /\.m?ts$/u.test(path)
+    ? await importTypeScriptConfig(path)
+    : ((await import(pathToFileURL(path).href)) as Record<string, unknown>);
+  const config = module.default ?? module.config;
+
+  if (!config || typeof config !== 'object') {
+    throw new Error(`Config file ${path} must export a configuration object as its default export.`);
+  }
+  return config as GenTypesConfig;
+}
+
+/**
+ * Turns a path into a `./`-prefixed POSIX path, as used in generated files.
+ */
+export function toPosixPath(path: string): string {
+  const normalized = path.split('\\').join('/');
+  return normalized.startsWith('.') || normalized.startsWith('/') ? normalized : `./${normalized}`;
+}
+
+/**
+ * Resolves the connection string of a project: the configured one, or the
+ * value of the configured environment variable.
+ *
+ * @param {GenTypesConfig} config - The project configuration
+ * @returns {{ connectionEnv: string; connectionString?: string }} - The environment variable and the connection string, if set
+ */
+export function resolveConnection(config: GenTypesConfig): { connectionEnv: string; connectionString?: string } {
+  const connectionEnv = config.connection?.env ?? 'DATABASE_URL';
+  return { connectionEnv, connectionString: config.connection?.url ?? process.env[connectionEnv] };
+}
+
+/**
+ * Resolves the options for one schema. Later sources win: built-in defaults,
+ * then the config file, then its per-schema override, then command line flags.
+ *
+ * @param {GenTypesConfig} config - The project configuration
+ * @param {string} schema - Name of the schema
+ * @param {SchemaOptions} flags - Options set through command line flags
+ * @param {RunOptions} run - Options that only exist on the command line
+ * @returns {ResolvedSchemaOptions} - The resolved options
+ */
+export function resolveSchemaOptions(
+  config: GenTypesConfig,
+  schema: string,
+  flags: SchemaOptions = {},
+  run: RunOptions = {}
+): ResolvedSchemaOptions {
+  const layers = [config, config.overrides?.[schema] ?? {}, flags];
+  const pick = <K extends keyof SchemaOptions>(key: K): SchemaOptions[K] =>
+    layers.reduce<SchemaOptions[K]>((value, layer) => layer[key] ?? value, undefined);
+
+  const outDir = toPosixPath(pick('outDir') ?? './schemas');
+  const schemaDir = posix.join(outDir, schema);
+  const { connectionEnv, connectionString } = resolveConnection(config);
+  const fromSql = pick('fromSql');
+  const naming: NamingOptions = Object.assign({}, ...layers.map((layer) => layer.naming ?? {}));
+  const affixes = (value: TypeAffixes | undefined, suffix = ''): Required<TypeAffixes> => ({
+    prefix: value?.prefix ?? '',
+    suffix: value?.suffix ?? suffix,
+  });
+
+  const options: ResolvedSchemaOptions = {
+    schema,
+    outDir,
+    schemaDir: toPosixPath(schemaDir),
+    drizzleConfigFile: `./db.config.${schema}.ts`,
+    emit: Object.assign({}, DEFAULT_EMIT, ...layers.map((layer) => layer.emit ?? {})),
+    schemaSuffix: naming.schemaSuffix ?? schemaSuffix(schema, naming.trailingS ?? true),
+    naming: {
+      singular: naming.singular ?? false,
+      select: affixes(naming.select),
+      insert: affixes(naming.insert, 'Insert'),
+      ...(naming.update ? { update: affixes(naming.update, 'Update') } : {}),
+    },
+    introspect: fromSql ? 'sql' : pick('introspect') ?? 'drizzle',
+    enumStyle: pick('enumStyle') ?? 'enum',
+    enumKeyCase: pick('enumKeyCase') ?? 'value',
+    domainStyle: pick('domainStyle') ?? 'alias',
+    brandedIds: pick('brandedIds') ?? false,
+    typeOverrides: Object.assign({}, ...layers.map((layer) => layer.typeOverrides ?? {})),
+    utilsImport: pick('utilsImport') ?? toPosixPath(posix.normalize(relative(schemaDir, 'utils').split('\\').join('/'))),
+    formatter: pick('formatter') ?? 'eslint',
+    include: pick('include') ?? [],
+    exclude: pick('exclude') ?? [],
+    plugins: layers.flatMap((layer) => layer.plugins ?? []),
+    connectionEnv,
+    typesOnly: run.typesOnly ?? false,
+    check: run.check ?? false,
+    dryRun: run.dryRun ?? false,
+  };
+  if (fromSql) options.fromSql = fromSql;
+  if (connectionString) options.connectionString = connectionString;
+
+  return options;
+}
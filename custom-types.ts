@@ -0,0 +1,67 @@
+/**
+ * Renders the declarations of custom-types.ts: interfaces for composite types
+ * and aliased or branded types for domains.
+ */
+
+import { jsDoc } from './doc-comments.js';
+import type { SchemaModel } from './model.js';
+import { customTypeName } from './naming.js';
+import { createColumnTyper, propertyName } from './row-types.js';
+
+/**
+ * How domains are emitted in custom-types.ts:
+ * - `alias`: a plain alias of the base type (`export type EmailPublicS = string`)
+ * - `brand`: the base type with a brand (`string & { readonly __brand: 'email' }`), so
+ *   that plain values have to be cast before they are accepted as the domain
+ */
+export type DomainStyle = 'alias' | 'brand';
+
+export const DOMAIN_STYLES: readonly DomainStyle[] = ['alias', 'brand'];
+
+/**
+ * Rendered custom type declarations and the enum types they reference.
+ */
+export interface RenderedCustomTypes {
+  declarations: string;
+  /** Names of the `...Type` unions from enums.ts used by the declarations */
+  enumTypes: string[];
+}
+
+/**
+ * Renders a type for every domain and an interface for every composite type,
+ * without a file header.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {string} suffix - Schema suffix used for the generated type names
+ * @param {DomainStyle} domainStyle - How domains are emitted
+ * @returns {RenderedCustomTypes} - The declarations and the enum types they use
+ */
+export function renderCustomTypes(schemaModel: SchemaModel, suffix: string, domainStyle: DomainStyle): RenderedCustomTypes {
+  const { columnType, enumTypes } = createColumnTyper(schemaModel, suffix);
+  let declarations = '';
+
+  for (const domain of schemaModel.domains) {
+    const name = customTypeName(domain.name, suffix);
+    // Nullability belongs to the columns using the domain
+    const baseType = columnType({ ...domain.baseType, notNull: true });
+    const brandedBase = baseType.includes(' | ') ? `(${baseType})` : baseType;
+
+    declarations += `
+${jsDoc(domain.comment ?? `Defines the \`${domain.name}\` domain in the \`${schemaModel.name}\`.`)}export type ${name} = ${domainStyle === 'brand' ? `${brandedBase} & { readonly __brand: ${JSON.stringify(domain.name)} }` : baseType};
+`;
+  }
+
+  for (const compositeType of schemaModel.compositeTypes) {
+    const name = customTypeName(compositeType.name, suffix);
+
+    declarations += `
+${jsDoc(compositeType.comment ?? `Defines the \`${compositeType.name}\` composite type in the \`${schemaModel.name}\`.`)}export interface ${name} {
+${compositeType.attributes
+  .map((attribute) => `${attribute.comment ? jsDoc(attribute.comment, '  ') : ''}  ${propertyName(attribute.propertyName)}: ${columnType(attribute)};`)
+  .join('\n')}
+}
+`;
+  }
+
+  return { declarations, enumTypes: [...enumTypes].sort() };
+}
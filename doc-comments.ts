@@ -0,0 +1,21 @@
+/**
+ * Renders JSDoc blocks for generated declarations.
+ */
+
+/**
+ * Renders a JSDoc block. Multi-line text keeps its line breaks, and `*\/`
+ * inside the text is escaped so that it cannot end the comment early.
+ *
+ * @param {string} text - Text of the comment
+ * @param {string} indent - Indentation of the commented declaration
+ * @returns {string} - The JSDoc block, ending with a line break
+ */
+export function jsDoc(text: string, indent = ''): string {
+  const lines = text
+    .trim()
+    .replace(/\*\//gu, '*\\/')
+    .split(/\r?\n/u)
+    .map((line) => line.trimEnd());
+
+  return `${indent}/**\n${lines.map((line) => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+}
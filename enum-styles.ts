@@ -0,0 +1,155 @@
+/**
+ * Renders the declarations of enums.ts in the configured enum style.
+ */
+
+import { jsDoc } from './doc-comments.js';
+import type { EnumModel, SchemaModel } from './model.js';
+import { enumTypeName } from './naming.js';
+
+/**
+ * How enums are emitted in enums.ts:
+ * - `enum`: a TypeScript `enum`, plus the `...Enums` array and `...Type` union
+ * - `const`: a `const` object with `as const` and a type of the same name, plus the `...Enums` array and `...Type` union
+ * - `union`: only the `...Type` union, without any runtime code
+ */
+export type EnumStyle = 'enum' | 'const' | 'union';
+
+/**
+ * Casing of enum member keys, e.g. for the value `in_progress`:
+ * - `value`: the value itself, quoted when needed (`"in_progress"`)
+ * - `constant`: `IN_PROGRESS`
+ * - `pascal`: `InProgress`
+ * - `camel`: `inProgress`
+ */
+export type EnumKeyCase = 'value' | 'constant' | 'pascal' | 'camel';
+
+export const ENUM_STYLES: readonly EnumStyle[] = ['enum', 'const', 'union'];
+export const ENUM_KEY_CASES: readonly EnumKeyCase[] = ['value', 'constant', 'pascal', 'camel'];
+
+/**
+ * Splits an enum value into words at separators and camelCase boundaries.
+ */
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/gu, '$1 $2')
+    .split(/[^A-Za-z0-9]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Returns the member key of an enum value in the given casing, quoted when it
+ * is not a valid identifier.
+ *
+ * @param {string} value - The enum value
+ * @param {EnumKeyCase} keyCase - Casing of the key
+ * @returns {string} - The member key, ready to be written into an enum or object literal
+ */
+export function enumMemberKey(value: string, keyCase: EnumKeyCase): string {
+  const parts = words(value);
+  let key: string;
+
+  switch (keyCase) {
+    case 'constant':
+      key = parts.map((part) => part.toUpperCase()).join('_');
+      break;
+    case 'pascal':
+      key = parts.map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()).join('');
+      break;
+    case 'camel':
+      key = parts
+        .map((part, index) => (index === 0 ? part.toLowerCase() : part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()))
+        .join('');
+      break;
+    case 'value':
+    default:
+      return JSON.stringify(value);
+  }
+
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/u.test(key) ? key : JSON.stringify(key || value);
+}
+
+/**
+ * Returns the member keys of an enum, failing when two values map to the same key.
+ */
+function memberKeys(enumDef: EnumModel, keyCase: EnumKeyCase): string[] {
+  const keys = enumDef.values.map((value) => enumMemberKey(value, keyCase));
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (duplicate) {
+    throw new Error(
+      `Enum "${enumDef.name}" has several values with the member key ${duplicate} in "${keyCase}" key casing. Use another enum key casing.`
+    );
+  }
+  return keys;
+}
+
+/**
+ * Renders the enums.ts declarations of every non-empty enum, without a file header.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {string} suffix - Schema suffix used for the generated enum names
+ * @param {EnumStyle} style - How the enums are emitted
+ * @param {EnumKeyCase} keyCase - Casing of the member keys of `enum` and `const` styles
+ * @returns {string} - The declarations
+ */
+export function renderEnumDeclarations(
+  schemaModel: SchemaModel,
+  suffix: string,
+  style: EnumStyle,
+  keyCase: EnumKeyCase
+): string {
+  let content = '';
+
+  for (const enumDef of schemaModel.enums.filter((candidate) => candidate.values.length > 0)) {
+    const typescriptEnumName = enumTypeName(enumDef.name, suffix);
+    const values = enumDef.values.map((value) => JSON.stringify(value));
+    content += `\n${jsDoc(enumDef.comment ?? `Defines the \`${enumDef.variableName}\` enum type for entities in the \`${schemaModel.name}\`.`)}`;
+
+    if (style === 'union') {
+      content += `export type ${typescriptEnumName}Type = ${values.join(' | ')};\n\n\n`;
+      continue;
+    }
+
+    const keys = memberKeys(enumDef, keyCase);
+    if (style === 'enum') {
+      content += `export enum ${typescriptEnumName} {\n`;
+      keys.forEach((key, index) => {
+        content += `  ${key} = ${values[index]},\n`;
+      });
+      content += `}\n\n`;
+    } else {
+      content += `export const ${typescriptEnumName} = {\n`;
+      keys.forEach((key, index) => {
+        content += `  ${key}: ${values[index]},\n`;
+      });
+      content += `} as const;\n\n`;
+      content += `export type ${typescriptEnumName} = (typeof ${typescriptEnumName})[keyof typeof ${typescriptEnumName}];\n\n`;
+    }
+
+    // Add the enum arrays for convenience
+    content += `export const ${typescriptEnumName}Enums = [\n`;
+    for (const value of values) {
+      content += `  ${value},\n`;
+    }
+    content += `] as const;\n\n`;
+
+    // Add the TypeScript type
+    content += `export type ${typescriptEnumName}Type = (typeof ${typescriptEnumName}Enums)[number];\n\n\n`;
+  }
+
+  return content;
+}
+
+/**
+ * Returns the name of the enums.ts type that the `...Type` aliases in types.ts
+ * point to: the type of the `const` object in `const` style, and the `...Type`
+ * union otherwise.
+ *
+ * @param {string} enumName - Enum type name in the database
+ * @param {string} suffix - Schema suffix used for the generated enum names
+ * @param {EnumStyle} style - How the enums are emitted
+ * @returns {string} - The type name exported by enums.ts
+ */
+export function enumAliasTarget(enumName: string, suffix: string, style: EnumStyle): string {
+  const typescriptEnumName = enumTypeName(enumName, suffix);
+  return style === 'const' ? typescriptEnumName : `${typescriptEnumName}Type`;
+}
@@ -0,0 +1,206 @@
+/**
+ * Include and exclude glob patterns that select the tables, views and enums
+ * of a schema to generate.
+ */
+
+import ts from 'typescript';
+import type { SchemaModel, TableModel, ViewModel } from './model.js';
+
+/**
+ * Glob patterns matched against database names of tables, views and enums.
+ */
+export interface NameFilters {
+  /** Only names matching one of these patterns are generated; all names when empty */
+  include: string[];
+  /** Names matching one of these patterns are left out, even when included */
+  exclude: string[];
+}
+
+/**
+ * Outcome of {@link filterSchemaModel}.
+ */
+export interface FilteredSchema {
+  /** The model without the filtered out tables, views and enums */
+  model: SchemaModel;
+  /** Variable names of the declarations to remove from the schema file */
+  removed: string[];
+  /** Database names of filtered out tables and enums that the schema file still needs */
+  retained: string[];
+}
+
+/**
+ * Converts a glob pattern to a regular expression. `*` matches any run of
+ * characters, `?` a single character, `[abc]` one of a set and `{a,b}` one of
+ * several alternatives.
+ *
+ * @param {string} pattern - The glob pattern
+ * @returns {RegExp} - A regular expression matching whole names
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index]!;
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', index + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const set = pattern.slice(index + 1, end).replace(/\\/gu, '\\\\');
+        source += `[${set.startsWith('!') ? `^${set.slice(1)}` : set}]`;
+        index = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\{}\]]/gu, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}${')'.repeat(braceDepth)}$`, 'u');
+}
+
+/**
+ * Splits a comma-separated list of glob patterns, keeping the commas inside
+ * `{a,b}` alternatives.
+ *
+ * @param {string} value - The comma-separated patterns
+ * @returns {string[]} - The non-empty patterns
+ */
+export function splitPatterns(value: string): string[] {
+  const patterns: string[] = [];
+  let current = '';
+  let braceDepth = 0;
+  for (const char of value) {
+    if (char === ',' && braceDepth === 0) {
+      patterns.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '{') braceDepth++;
+    if (char === '}' && braceDepth > 0) braceDepth--;
+    current += char;
+  }
+  patterns.push(current);
+  return patterns.map((pattern) => pattern.trim()).filter(Boolean);
+}
+
+/**
+ * Checks whether a name passes the filters.
+ *
+ * @param {string} name - Database name of a table, view or enum
+ * @param {NameFilters} filters - The include and exclude patterns
+ * @returns {boolean} - Whether the name is generated
+ */
+export function matchesFilters(name: string, filters: NameFilters): boolean {
+  const matches = (pattern: string) => globToRegExp(pattern).test(name);
+  return (filters.include.length === 0 || filters.include.some(matches)) && !filters.exclude.some(matches);
+}
+
+/**
+ * Renders the filters as a drizzle-kit `tablesFilter`, so that `drizzle-kit
+ * pull` skips the excluded tables. drizzle-kit negates patterns with a leading
+ * `!`. Its filter does not cover enums, so the pulled schema is filtered again
+ * with {@link filterSchemaModel}.
+ *
+ * @param {NameFilters} filters - The include and exclude patterns
+ * @returns {string[]} - The `tablesFilter` patterns, empty when nothing is filtered
+ */
+export function drizzleTablesFilter(filters: NameFilters): string[] {
+  if (filters.include.length === 0 && filters.exclude.length === 0) return [];
+  return [...(filters.include.length > 0 ? filters.include : ['*']), ...filters.exclude.map((pattern) => `!${pattern}`)];
+}
+
+/**
+ * Removes the tables, views and enums that do not pass the filters from a
+ * schema model. Filtered out tables that an included table references with a
+ * foreign key, also through other filtered out tables, and the filtered out
+ * enums these tables use, leave the model but stay declared in the schema
+ * file, which would not compile without them.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {NameFilters} filters - The include and exclude patterns
+ * @returns {FilteredSchema} - The filtered model and the declarations to remove from the schema file
+ */
+export function filterSchemaModel(schemaModel: SchemaModel, filters: NameFilters): FilteredSchema {
+  if (filters.include.length === 0 && filters.exclude.length === 0) {
+    return { model: schemaModel, removed: [], retained: [] };
+  }
+
+  const passes = (entity: { name: string }) => matchesFilters(entity.name, filters);
+  const model: SchemaModel = {
+    ...schemaModel,
+    tables: schemaModel.tables.filter(passes),
+    views: schemaModel.views.filter(passes),
+    enums: schemaModel.enums.filter(passes),
+  };
+
+  // Declarations the kept tables refer to, directly or through the tables they reference
+  const tablesByName = new Map(schemaModel.tables.map((table) => [table.name, table]));
+  const referencedTables = new Set<string>();
+  const usedEnums = new Set<string>();
+  const pending: Array<TableModel | ViewModel> = [...model.tables, ...model.views];
+  while (pending.length > 0) {
+    const relation = pending.pop()!;
+    for (const column of relation.columns) {
+      if (column.enumName) usedEnums.add(column.enumName);
+    }
+    for (const foreignKey of 'foreignKeys' in relation ? relation.foreignKeys : []) {
+      if (foreignKey.foreignSchema || referencedTables.has(foreignKey.foreignTable)) continue;
+      referencedTables.add(foreignKey.foreignTable);
+      const foreignTable = tablesByName.get(foreignKey.foreignTable);
+      if (foreignTable) pending.push(foreignTable);
+    }
+  }
+
+  const removed: string[] = [];
+  const retained: string[] = [];
+  const sort = (entity: { name: string; variableName: string }, needed: boolean) => {
+    if (passes(entity)) return;
+    if (needed) retained.push(entity.name);
+    else removed.push(entity.variableName);
+  };
+  for (const table of schemaModel.tables) sort(table, referencedTables.has(table.name));
+  for (const view of schemaModel.views) sort(view, false);
+  for (const enumDef of schemaModel.enums) sort(enumDef, usedEnums.has(enumDef.name));
+
+  return { model, removed, retained };
+}
+
+/**
+ * Removes top-level variable declarations, with their leading comments, from a schema file.
+ *
+ * @param {string} source - Content of the schema file
+ * @param {string[]} variableNames - Names of the declarations to remove
+ * @returns {string} - The content without the declarations
+ */
+export function removeDeclarations(source: string, variableNames: string[]): string {
+  if (variableNames.length === 0) return source;
+
+  const names = new Set(variableNames);
+  const sourceFile = ts.createSourceFile('schema.ts', source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    const declarations = statement.declarationList.declarations;
+    if (declarations.every((declaration) => ts.isIdentifier(declaration.name) && names.has(declaration.name.text))) {
+      // Remove from the end of the previous statement, so that the blank lines around stay balanced
+      ranges.push({ start: statement.getFullStart(), end: statement.getEnd() });
+    }
+  }
+
+  let updated = source;
+  for (const { start, end } of ranges.reverse()) {
+    updated = updated.slice(0, start) + updated.slice(end);
+  }
+  return updated;
+}
@@ -0,0 +1,335 @@
+/**
+ * The formatter step that runs over the files written by a generation:
+ * ESLint, Prettier, Biome, dprint, a custom command or nothing at all.
+ */
+
+import { exec, spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import { createRequire } from 'module';
+import { dirname, extname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { promisify } from 'util';
+import type { ContentTransform } from './check.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Formatters with built-in support.
+ */
+export type FormatterName = 'eslint' | 'prettier' | 'biome' | 'dprint' | 'none';
+
+/**
+ * A shell command that formats files in place. The paths of the written files
+ * are appended to it, e.g. `deno fmt` runs `deno fmt schemas/public/types.ts ...`.
+ */
+export interface CustomFormatter {
+  command: string;
+}
+
+/**
+ * How the generated files are formatted.
+ */
+export type Formatter = FormatterName | CustomFormatter;
+
+export const FORMATTERS: readonly FormatterName[] = ['eslint', 'prettier', 'biome', 'dprint', 'none'];
+
+/**
+ * Outcome of {@link formatFiles}.
+ */
+export interface FormatResult {
+  /** Number of files handed to the formatter */
+  formatted: number;
+  /** Problems the formatter reported but could not fix */
+  problems?: string;
+}
+
+/**
+ * The command line tool behind a built-in formatter.
+ */
+interface FormatterTool {
+  label: string;
+  /** Package that provides the tool */
+  packageName: string;
+  bin: string;
+  /** Extensions of the generated files the tool formats */
+  extensions: string[];
+  /** Arguments that format files in place */
+  writeArgs: (files: string[]) => string[];
+  /** Arguments that format standard input as if it were the given file */
+  stdinArgs: (path: string) => string[];
+}
+
+const TOOLS: Record<Exclude<FormatterName, 'none'>, FormatterTool> = {
+  eslint: {
+    label: 'ESLint',
+    packageName: 'eslint',
+    bin: 'eslint',
+    extensions: ['.ts'],
+    writeArgs: (files) => ['--fix', ...files],
+    stdinArgs: (path) => ['--stdin', '--stdin-filename', path, '--fix-dry-run', '--format', 'json'],
+  },
+  prettier: {
+    label: 'Prettier',
+    packageName: 'prettier',
+    bin: 'prettier',
+    extensions: ['.ts', '.json'],
+    writeArgs: (files) => ['--write', ...files],
+    stdinArgs: (path) => ['--stdin-filepath', path],
+  },
+  biome: {
+    label: 'Biome',
+    packageName: '@biomejs/biome',
+    bin: 'biome',
+    extensions: ['.ts', '.json'],
+    writeArgs: (files) => ['format', '--write', ...files],
+    stdinArgs: (path) => ['format', `--stdin-file-path=${path}`],
+  },
+  dprint: {
+    label: 'dprint',
+    packageName: 'dprint',
+    bin: 'dprint',
+    extensions: ['.ts', '.json'],
+    writeArgs: (files) => ['fmt', ...files],
+    stdinArgs: (path) => ['fmt', '--stdin', path],
+  },
+};
+
+/**
+ * The parts of the ESLint Node.js API that are used.
+ */
+interface ESLintModule {
+  ESLint: {
+    new (options: { fix: boolean; cwd: string }): {
+      lintFiles(files: string[]): Promise<ESLintResult[]>;
+      lintText(content: string, options: { filePath: string }): Promise<ESLintResult[]>;
+      loadFormatter(name: string): Promise<{ format(results: ESLintResult[]): string | Promise<string> }>;
+    };
+    outputFixes(results: ESLintResult[]): Promise<void>;
+  };
+}
+
+interface ESLintResult {
+  errorCount: number;
+  warningCount: number;
+  output?: string;
+}
+
+/**
+ * The parts of the Prettier Node.js API that are used.
+ */
+interface PrettierModule {
+  format(content: string, options: Record<string, unknown>): Promise<string> | string;
+  resolveConfig(path: string): Promise<Record<string, unknown> | null>;
+}
+
+/**
+ * Describes a formatter for progress messages, e.g. `Prettier` or `deno fmt`.
+ *
+ * @param {Formatter} formatter - The formatter
+ * @returns {string} - Its display name
+ */
+export function formatterLabel(formatter: Formatter): string {
+  if (typeof formatter === 'object') return formatter.command;
+  return formatter === 'none' ? 'no formatter' : TOOLS[formatter].label;
+}
+
+/**
+ * Imports a package from the project in the working directory, so that its
+ * own version and configuration are used. Returns undefined if it is not installed.
+ */
+async function importFromProject<T>(packageName: string): Promise<T | undefined> {
+  let entry: string;
+  try {
+    entry = createRequire(join(process.cwd(), 'package.json')).resolve(packageName);
+  } catch {
+    return undefined;
+  }
+  // CommonJS entries, e.g. of ESLint and Prettier, expose their API as the default export
+  const module = (await import(pathToFileURL(entry).href)) as T & { default?: T };
+  return module.default ?? module;
+}
+
+/**
+ * Finds the executable of a tool in the `node_modules/.bin` directories from
+ * the working directory upwards, falling back to the bare name on the PATH.
+ * Unlike `npx`, this never downloads the tool.
+ */
+async function findExecutable(bin: string): Promise<string> {
+  let dir = process.cwd();
+  for (;;) {
+    const candidate = join(dir, 'node_modules', '.bin', process.platform === 'win32' ? `${bin}.cmd` : bin);
+    if (await fs.access(candidate).then(() => true, () => false)) return candidate;
+    const parent = dirname(dir);
+    if (parent === dir) return bin;
+    dir = parent;
+  }
+}
+
+/**
+ * Runs a command line tool, optionally feeding it standard input.
+ */
+function runTool(
+  executable: string,
+  args: string[],
+  input?: string
+): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(executable, args, { shell: process.platform === 'win32' });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on('error', reject);
+    // The tool may exit before reading its input
+    child.stdin.on('error', () => undefined);
+    child.on('close', (code) => resolvePromise({ code, stdout, stderr }));
+
+    child.stdin.end(input ?? '');
+  });
+}
+
+/**
+ * Runs a built-in formatter over files through its command line tool.
+ */
+async function formatWithTool(tool: FormatterTool, files: string[]): Promise<FormatResult> {
+  const executable = await findExecutable(tool.bin);
+  let outcome: Awaited<ReturnType<typeof runTool>>;
+  try {
+    outcome = await runTool(executable, tool.writeArgs(files));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`${tool.label} is not installed. Add ${tool.packageName} to the project or choose another formatter.`);
+    }
+    throw error;
+  }
+
+  // ESLint exits with 1 when problems remain after fixing, and prints them to stdout
+  if (tool.bin === 'eslint' && outcome.code === 1) {
+    return { formatted: files.length, problems: outcome.stdout.trim() };
+  }
+  if (outcome.code !== 0) {
+    throw new Error(`${tool.label} exited with code ${outcome.code}: ${(outcome.stderr || outcome.stdout).trim()}`);
+  }
+  return { formatted: files.length };
+}
+
+/**
+ * Quotes a path for the shell a custom formatter command runs in: in single
+ * quotes for POSIX shells, so that `$`, backticks and `\` are not expanded,
+ * and in double quotes for cmd.exe.
+ *
+ * @param {string} value - The path to quote
+ * @returns {string} - The quoted path
+ */
+function shellQuote(value: string): string {
+  if (process.platform === 'win32') return `"${value.replace(/"/gu, '""')}"`;
+  return `'${value.replace(/'/gu, `'\\''`)}'`;
+}
+
+/**
+ * Formats the given files in place. ESLint and Prettier run in-process when the
+ * project has them installed; the other formatters, and ESLint and Prettier
+ * otherwise, run through their command line tools. Throws when the formatter
+ * is not installed or fails.
+ *
+ * @param {Formatter} formatter - The formatter to run
+ * @param {string[]} files - Paths of the files written by the run
+ * @returns {Promise<FormatResult>} - The number of formatted files and any problems left
+ */
+export async function formatFiles(formatter: Formatter, files: string[]): Promise<FormatResult> {
+  if (formatter === 'none' || files.length === 0) return { formatted: 0 };
+
+  if (typeof formatter === 'object') {
+    await execAsync(`${formatter.command} ${files.map(shellQuote).join(' ')}`);
+    return { formatted: files.length };
+  }
+
+  const tool = TOOLS[formatter];
+  const targets = files.filter((file) => tool.extensions.includes(extname(file)));
+  if (targets.length === 0) return { formatted: 0 };
+
+  if (formatter === 'eslint') {
+    const eslintModule = await importFromProject<ESLintModule>('eslint');
+    if (eslintModule?.ESLint) {
+      const eslint = new eslintModule.ESLint({ fix: true, cwd: process.cwd() });
+      const results = await eslint.lintFiles(targets);
+      await eslintModule.ESLint.outputFixes(results);
+      const remaining = results.reduce((count, lintResult) => count + lintResult.errorCount + lintResult.warningCount, 0);
+      if (remaining === 0) return { formatted: targets.length };
+      const stylish = await eslint.loadFormatter('stylish');
+      return { formatted: targets.length, problems: (await stylish.format(results)).trim() };
+    }
+  }
+
+  if (formatter === 'prettier') {
+    const prettier = await importFromProject<PrettierModule>('prettier');
+    if (prettier?.format) {
+      for (const file of targets) {
+        const content = await fs.readFile(file, 'utf8');
+        const config = (await prettier.resolveConfig(resolve(file))) ?? {};
+        const formatted = await prettier.format(content, { ...config, filepath: resolve(file) });
+        if (formatted !== content) await fs.writeFile(file, formatted, 'utf8');
+      }
+      return { formatted: targets.length };
+    }
+  }
+
+  return formatWithTool(tool, targets);
+}
+
+/**
+ * Formats content in memory, as if it lived at the given path, so that check
+ * and dry-run comparisons match what a normal run writes. The content is
+ * returned unchanged if the formatter is not available or fails.
+ */
+async function formatContent(formatter: FormatterName, path: string, content: string): Promise<string> {
+  if (formatter === 'none') return content;
+  const tool = TOOLS[formatter];
+  if (!tool.extensions.includes(extname(path))) return content;
+
+  try {
+    if (formatter === 'eslint') {
+      const eslintModule = await importFromProject<ESLintModule>('eslint');
+      if (eslintModule?.ESLint) {
+        const eslint = new eslintModule.ESLint({ fix: true, cwd: process.cwd() });
+        const [lintResult] = await eslint.lintText(content, { filePath: resolve(path) });
+        return lintResult?.output ?? content;
+      }
+    }
+
+    if (formatter === 'prettier') {
+      const prettier = await importFromProject<PrettierModule>('prettier');
+      if (prettier?.format) {
+        const config = (await prettier.resolveConfig(resolve(path))) ?? {};
+        return await prettier.format(content, { ...config, filepath: resolve(path) });
+      }
+    }
+
+    const { code, stdout } = await runTool(await findExecutable(tool.bin), tool.stdinArgs(path), content);
+    if (formatter === 'eslint') {
+      const [lintResult] = JSON.parse(stdout) as Array<{ output?: string }>;
+      return lintResult?.output ?? content;
+    }
+    return code === 0 && stdout ? stdout : content;
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * Returns the transform that applies a formatter to generated content in
+ * memory, or undefined when nothing is formatted. Custom commands only
+ * format files on disk, so they have no in-memory transform.
+ *
+ * @param {Formatter} formatter - The configured formatter
+ * @returns {ContentTransform | undefined} - The transform
+ */
+export function formatterTransform(formatter: Formatter): ContentTransform | undefined {
+  if (typeof formatter === 'object' || formatter === 'none') return undefined;
+  return (path, content) => formatContent(formatter, path, content);
+}
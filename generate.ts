@@ -0,0 +1,1032 @@
+/**
+ * Programmatic entry point: pulls or introspects one schema and generates
+ * its files, without printing anything or exiting the process.
+ */
+
+import { exec, execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { promisify } from 'util';
+import type { SchemaModel } from './model.js';
+import { annotateSchemaSource, readSchemaModel } from './schema-reader.js';
+import { readSnapshotModel, type DrizzleSnapshot } from './snapshot-reader.js';
+import { readSqlSchemaModel } from './sql-reader.js';
+import { diffSchemaModels, readSavedSchemaModel, type SchemaChange } from './schema-diff.js';
+import { findGeneratedTable, foreignSchemaTables, linkForeignSchemas, writeRootIndex, type LinkedTable } from './multi-schema.js';
+import { applyComments, introspectDatabase, readDatabaseComments } from './introspect.js';
+import { compareGeneratedFiles, type ContentTransform, type FileDrift, type PlannedChange } from './check.js';
+import { formatFiles, formatterLabel, formatterTransform } from './formatters.js';
+import { baseVariableName, drizzleSchemaInfix, pascalCase, rowTypeNames, singularize, typeNameCollisions } from './naming.js';
+import { drizzleTablesFilter, filterSchemaModel, removeDeclarations } from './filters.js';
+import { hasGeneratedHeader, validateGeneratedFile, type GeneratedFile, type PluginContext } from './plugins.js';
+import { BUILTIN_PLUGINS, indexPlugin } from './builtin-plugins.js';
+import {
+  resolveSchemaOptions,
+  type ConnectionOptions,
+  type GenTypesConfig,
+  type ResolvedSchemaOptions,
+  type SchemaOptions,
+} from './config.js';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+/**
+ * Progress of one generation step. Structurally compatible with an `ora` spinner.
+ */
+export interface ProgressStep {
+  text: string;
+  succeed(text?: string): unknown;
+  fail(text?: string): unknown;
+  warn(text?: string): unknown;
+  info(text?: string): unknown;
+}
+
+/**
+ * Starts a progress step with the given text.
+ */
+export type Reporter = (text: string) => ProgressStep;
+
+/**
+ * Options of {@link generate}. Schema options set here override the ones in `config`.
+ */
+export interface GenerateOptions extends SchemaOptions {
+  /** Name of the schema to generate */
+  schema: string;
+  /** Skip the schema pull and only regenerate from the existing schema.ts */
+  typesOnly?: boolean;
+  /** Generate into a temporary directory and return the differences with the committed files */
+  check?: boolean;
+  /** Generate into a temporary directory and return the files a normal run would change, and their content */
+  dryRun?: boolean;
+  connection?: ConnectionOptions;
+  /** Project configuration, e.g. from `loadConfig()` */
+  config?: GenTypesConfig;
+  /** Receives progress updates. Nothing is reported by default */
+  reporter?: Reporter;
+}
+
+/**
+ * Outcome of {@link generate}.
+ */
+export interface GenerateResult {
+  schema: string;
+  /** Paths of the files written. In check and dry-run mode, the committed paths the files were compared with */
+  files: string[];
+  /** Database names of the tables found */
+  tables: string[];
+  /** Database names of the enums found */
+  enums: string[];
+  /** Database names of the views and materialized views found */
+  views: string[];
+  /** Non-fatal problems, e.g. drizzle-kit or ESLint warnings */
+  warnings: string[];
+  /** Files that differ from the committed ones. Always empty outside check mode */
+  drift: FileDrift[];
+  /**
+   * Schema changes since the last saved generation. Only set in check mode,
+   * when the committed directory holds a snapshot.json or schema.ts.
+   */
+  changes?: SchemaChange[];
+  /** Files and directories a normal run would create, modify or delete. Only set in dry-run mode */
+  planned?: PlannedChange[];
+  /** Generated content by committed path, before ESLint fixes. Only set in dry-run mode */
+  contents?: Record<string, string>;
+}
+
+/**
+ * State shared by the steps of one {@link generate} call.
+ */
+interface GenerationRun {
+  options: ResolvedSchemaOptions;
+  report: Reporter;
+  result: GenerateResult;
+  /** Directory the files are written into; a temporary copy of the schema directory in check and dry-run mode */
+  outputDir: string;
+}
+
+const silentReporter: Reporter = (text) => ({
+  text,
+  succeed: () => undefined,
+  fail: () => undefined,
+  warn: () => undefined,
+  info: () => undefined,
+});
+
+/**
+ * Writes a generated file and records it in the result.
+ */
+async function writeGeneratedFile(run: GenerationRun, path: string, content: string) {
+  await fs.writeFile(path, content, 'utf8');
+  const committedPath = join(run.options.schemaDir, relative(run.outputDir, path));
+  if (!run.result.files.includes(committedPath)) run.result.files.push(committedPath);
+  if (run.result.contents) run.result.contents[committedPath] = content;
+}
+
+/**
+ * Renders the drizzle-kit config of a schema. The connection string is read
+ * from the configured environment variable, which is set for drizzle-kit even
+ * when the connection comes from the config file.
+ *
+ * @param {ResolvedSchemaOptions} options - Options of the schema
+ * @param {string} migrationsDir - Directory drizzle-kit pulls into
+ * @param {boolean} standalone - Leave out the `drizzle-kit` import, for a config outside the project
+ * @returns {string} - Content of the drizzle-kit config file
+ */
+function renderDrizzleConfig(
+  options: ResolvedSchemaOptions,
+  migrationsDir = `${options.schemaDir}/migrations`,
+  standalone = false
+): string {
+  const tablesFilter = drizzleTablesFilter(options);
+  const config = `{
+  dialect: 'postgresql',
+  dbCredentials: {
+    url: process.env.${options.connectionEnv}!
+  },
+  schema: '${migrationsDir}/schema.ts',
+  out: '${migrationsDir}',
+  schemaFilter: ['${options.schema}'],${tablesFilter.length > 0 ? `
+  tablesFilter: [${tablesFilter.map((pattern) => JSON.stringify(pattern)).join(', ')}],` : ''}
+  introspect: {
+    casing: 'camel'
+  }
+}`;
+
+  if (standalone) return `export default ${config};\n`;
+  return `/**
+ * drizzle-kit config for the ${options.schema} schema, written by gen-types-enums-psql-schema.
+ * Do not modify this file directly - instead, change gen-types.config.ts and run the script again.
+ */
+
+import { defineConfig } from 'drizzle-kit';
+
+export default defineConfig(${config});
+`;
+}
+
+/**
+ * Runs `drizzle-kit pull` in check and dry-run mode, with a drizzle-kit config
+ * written to a temporary directory instead of the project. Like the project
+ * config, it reads the connection string from the environment, so that the
+ * password never shows on the command line.
+ *
+ * @param {ResolvedSchemaOptions} options - Options of the schema
+ * @param {string} migrationsDir - Temporary directory drizzle-kit pulls into
+ * @param {NodeJS.ProcessEnv} env - Environment holding the connection string
+ * @returns {Promise<{ stdout: string; stderr: string }>} - Output of drizzle-kit
+ */
+async function pullIsolated(options: ResolvedSchemaOptions, migrationsDir: string, env: NodeJS.ProcessEnv) {
+  const configDir = await fs.mkdtemp(join(tmpdir(), `gen-types-enums-${options.schema}-config-`));
+  try {
+    const configFile = join(configDir, 'drizzle.config.ts');
+    await fs.writeFile(configFile, renderDrizzleConfig(options, migrationsDir, true), 'utf8');
+    return await execFileAsync('drizzle-kit', ['pull', `--config=${configFile}`], { env });
+  } finally {
+    await fs.rm(configDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Writes the schema-specific drizzle-kit config file. A file that differs from
+ * the rendered config, e.g. one edited by hand, is backed up before it is
+ * overwritten, so that the edits are not lost.
+ *
+ * @param {GenerationRun} run - The current generation run
+ */
+async function createConfigFile(run: GenerationRun) {
+  const { options } = run;
+  const spinner = run.report(`Creating database config file for ${options.schema}...`);
+
+  try {
+    const content = renderDrizzleConfig(options);
+    const existing = await fs.readFile(options.drizzleConfigFile, 'utf8').catch(() => undefined);
+    if (existing === content) {
+      spinner.info(`Config file ${options.drizzleConfigFile} is up to date`);
+      return;
+    }
+
+    if (existing === undefined) {
+      await fs.writeFile(options.drizzleConfigFile, content, 'utf8');
+      spinner.succeed(`Config file created at ${options.drizzleConfigFile}`);
+      return;
+    }
+
+    const backupFile = `${options.drizzleConfigFile}.bak`;
+    await fs.writeFile(backupFile, existing, 'utf8');
+    await fs.writeFile(options.drizzleConfigFile, content, 'utf8');
+    const message = `${options.drizzleConfigFile} differed from the config, so it was rewritten. The previous file is kept as ${backupFile}.`;
+    run.result.warnings.push(message);
+    spinner.warn(message);
+  } catch (error) {
+    spinner.fail('Failed to create config file');
+    throw error;
+  }
+}
+
+/**
+ * Processes the schema file to rename all schema-specific identifiers
+ * for better readability and shorter identifiers.
+ *
+ * @param {GenerationRun} run - The current generation run
+ * @param {string} schemaFilePath - Path to the schema file
+ */
+async function processSchemaFile(run: GenerationRun, schemaFilePath: string) {
+  const { options } = run;
+  const spinner = run.report('Processing schema file to improve readability...');
+
+  try {
+    // Read the schema file
+    const schemaContent = await fs.readFile(schemaFilePath, 'utf8');
+
+    // Replace schema-specific patterns
+    const searchPattern = drizzleSchemaInfix(options.schema);
+
+    let updatedContent = '';
+    const lines = schemaContent.split('\n');
+
+    for (const line of lines) {
+      if (!line) {
+        updatedContent += '\n';
+        continue;
+      }
+
+      let updatedLine = '';
+      let index = 0;
+
+      while (index < line.length) {
+        const matchIndex = line.indexOf(searchPattern, index);
+        if (matchIndex === -1) {
+          updatedLine += line.substring(index);
+          break;
+        }
+
+        let startOfIdentifier = matchIndex;
+        while (
+          startOfIdentifier > 0 &&
+          /[a-zA-Z0-9_]/u.test(line[startOfIdentifier - 1] ?? '')
+        ) {
+          startOfIdentifier--;
+        }
+
+        const identifierPart = line.substring(startOfIdentifier, matchIndex);
+
+        if (
+          identifierPart.length > 0 &&
+          /^[a-zA-Z_][a-zA-Z0-9_]*$/u.test(identifierPart)
+        ) {
+          updatedLine += line.substring(index, startOfIdentifier);
+          updatedLine += identifierPart + options.schemaSuffix;
+          index = matchIndex + searchPattern.length;
+        } else {
+          updatedLine += line.substring(index, matchIndex + 1);
+          index = matchIndex + 1;
+        }
+      }
+
+      updatedContent += updatedLine + '\n';
+    }
+
+    // Write the updated content back to the file
+    await fs.writeFile(schemaFilePath, updatedContent, 'utf8');
+
+    spinner.succeed('Schema file processed successfully');
+    return updatedContent;
+  } catch (error) {
+    spinner.fail('Failed to process schema file');
+    throw error;
+  }
+}
+
+/**
+ * Adds the `COMMENT ON` texts of the database to the pulled schema file as
+ * JSDoc, since drizzle-kit does not carry them over. Comments are optional,
+ * so failing to read them only adds a warning.
+ *
+ * @param {GenerationRun} run - The current generation run
+ * @param {string} schemaFilePath - Path to the schema file
+ * @param {string} schemaContent - Content of the schema file
+ */
+async function addDatabaseComments(run: GenerationRun, schemaFilePath: string, schemaContent: string) {
+  const { options } = run;
+  const spinner = run.report('Adding database comments to schema file...');
+
+  try {
+    const comments = await readDatabaseComments(options.connectionString!, options.schema);
+    if (comments.length === 0) {
+      spinner.info('No database comments found');
+      return;
+    }
+
+    const commentedModel = readSchemaModel(schemaContent, options.schema, schemaFilePath);
+    applyComments(commentedModel, comments);
+    await fs.writeFile(schemaFilePath, annotateSchemaSource(schemaContent, commentedModel, schemaFilePath), 'utf8');
+    spinner.succeed(`Added ${comments.length} database comments to schema file`);
+  } catch (error) {
+    spinner.warn('Could not read database comments');
+    run.result.warnings.push(`Database comments: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Reads the composite types and domains of the schema from the database
+ * catalog, since drizzle-kit does not pull them. They are optional, so failing
+ * to read them only adds a warning.
+ *
+ * @param {GenerationRun} run - The current generation run
+ * @param {SchemaModel} schemaModel - Model of the schema read from the schema file, completed in place
+ */
+async function addCatalogTypes(run: GenerationRun, schemaModel: SchemaModel) {
+  const { options } = run;
+  const spinner = run.report('Reading composite types and domains from the database catalog...');
+
+  try {
+    const catalogModel = await introspectDatabase(options.connectionString!, options.schema);
+    schemaModel.compositeTypes = catalogModel.compositeTypes;
+    schemaModel.domains = catalogModel.domains;
+    spinner.succeed(`Found ${catalogModel.compositeTypes.length} composite types and ${catalogModel.domains.length} domains`);
+  } catch (error) {
+    spinner.warn('Could not read composite types and domains');
+    run.result.warnings.push(`Composite types and domains: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Reads the schema model from the snapshot JSON that drizzle-kit pull writes
+ * next to the schema file, and keeps a copy of the snapshot as snapshot.json.
+ * The snapshot describes the structure of the schema; identifiers and comments
+ * still come from the schema file. Without a readable snapshot, the model of
+ * the schema file is used as is.
+ *
+ * @param {GenerationRun} run - The current generation run
+ * @param {string} metaDir - drizzle-kit meta directory holding the snapshot
+ * @param {string} snapshotFile - Path of the snapshot.json file to write
+ * @param {SchemaModel} schemaFileModel - Model read from the schema file
+ * @returns {Promise<SchemaModel>} - The model that drives generation
+ */
+async function readSnapshotSource(
+  run: GenerationRun,
+  metaDir: string,
+  snapshotFile: string,
+  schemaFileModel: SchemaModel
+): Promise<SchemaModel> {
+  const { options } = run;
+  const metaSpinner = run.report('Looking for metadata...');
+
+  let snapshotPath: string | undefined;
+  try {
+    const metaFiles = await fs.readdir(metaDir);
+    const snapshotName = metaFiles.filter((file) => file.endsWith('_snapshot.json')).sort().pop();
+    if (snapshotName) snapshotPath = join(metaDir, snapshotName);
+  } catch {
+    metaSpinner.info('No metadata directory found, will use schema.ts directly');
+    return schemaFileModel;
+  }
+
+  if (!snapshotPath) {
+    metaSpinner.info('No metadata snapshot found, will use schema.ts directly');
+    return schemaFileModel;
+  }
+
+  try {
+    const snapshotContent = await fs.readFile(snapshotPath, 'utf8');
+    const snapshotModel = readSnapshotModel(JSON.parse(snapshotContent) as DrizzleSnapshot, options.schema, schemaFileModel);
+    if (options.emit.snapshot) {
+      await writeGeneratedFile(run, snapshotFile, snapshotContent.endsWith('\n') ? snapshotContent : `${snapshotContent}\n`);
+    }
+    metaSpinner.succeed(`Read metadata snapshot at ${snapshotPath}`);
+    return snapshotModel;
+  } catch (error) {
+    metaSpinner.warn('Could not read metadata snapshot, will use schema.ts directly');
+    run.result.warnings.push(`Metadata snapshot: ${(error as Error).message}`);
+    return schemaFileModel;
+  }
+}
+
+/**
+ * Runs the configured formatter over the files written by the run. In check
+ * and dry-run mode nothing is formatted on disk; the formatter is applied in
+ * memory while comparing instead. Formatter failures only add a warning.
+ *
+ * @param {GenerationRun} run - The current generation run
+ */
+async function formatGeneratedFiles(run: GenerationRun) {
+  const { formatter } = run.options;
+  const label = formatterLabel(formatter);
+  if (formatter === 'none') {
+    run.report('Formatting generated files...').info('Skipping the formatter step as configured');
+    return;
+  }
+
+  const spinner = run.report(`Formatting generated files with ${label}...`);
+  if (run.options.check || run.options.dryRun) {
+    if (formatterTransform(formatter)) {
+      spinner.info(`${label} will be applied in memory while comparing`);
+    } else {
+      spinner.warn(`${label} cannot run in memory, so unformatted files are compared`);
+      run.result.warnings.push(`Formatter: ${label} only formats files on disk, so the comparison may report formatting differences.`);
+    }
+    return;
+  }
+
+  try {
+    const { formatted, problems } = await formatFiles(formatter, run.result.files);
+    if (problems) {
+      spinner.warn(`${label} formatted ${formatted} files but reported problems it could not fix`);
+      run.result.warnings.push(`${label} problems:\n${problems}`);
+    } else {
+      spinner.succeed(`Formatted ${formatted} files with ${label}`);
+    }
+  } catch (error) {
+    spinner.fail(`Failed to format generated files with ${label}`);
+    run.result.warnings.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Returns the in-memory formatter transform of a check or dry run, limited to
+ * the files the run wrote, like the formatter step of a normal run.
+ *
+ * @param {GenerationRun} run - The current generation run
+ * @returns {ContentTransform | undefined} - The transform
+ */
+function writtenFilesTransform(run: GenerationRun): ContentTransform | undefined {
+  const transform = formatterTransform(run.options.formatter);
+  if (!transform) return undefined;
+  return (path, content) => (run.result.files.includes(path) ? transform(path, content) : Promise.resolve(content));
+}
+
+/**
+ * Leaves the tables, views and enums that do not pass the include and exclude
+ * patterns out of the schema model and, when given, the schema file.
+ *
+ * @param {GenerationRun} run - The current generation run
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {string} [schemaFilePath] - Path of the schema file to remove the declarations from
+ * @returns {Promise<SchemaModel>} - The filtered model
+ */
+async function applyFilters(run: GenerationRun, schemaModel: SchemaModel, schemaFilePath?: string): Promise<SchemaModel> {
+  const { options } = run;
+  if (options.include.length === 0 && options.exclude.length === 0) return schemaModel;
+
+  const spinner = run.report('Filtering tables, views and enums...');
+  try {
+    const { model, removed, retained } = filterSchemaModel(schemaModel, options);
+    if (schemaFilePath && removed.length > 0) {
+      const content = await fs.readFile(schemaFilePath, 'utf8');
+      await fs.writeFile(schemaFilePath, removeDeclarations(content, removed), 'utf8');
+    }
+    if (retained.length > 0) {
+      run.result.warnings.push(
+        `Filtered out ${retained.join(', ')} but kept them in schema.ts, since included tables still refer to them.`
+      );
+    }
+
+    const count = (entity: keyof Pick<SchemaModel, 'tables' | 'views' | 'enums'>) =>
+      schemaModel[entity].length - model[entity].length;
+    spinner.succeed(`Filtered out ${count('tables')} tables, ${count('views')} views and ${count('enums')} enums`);
+    return model;
+  } catch (error) {
+    spinner.fail('Failed to filter the schema');
+    throw error;
+  }
+}
+
+/**
+ * Links the foreign keys of a schema file into other schemas to the tables of
+ * their generated schema.ts files, and imports them.
+ *
+ * @param {string} schemaFilePath - Path of the schema file to link
+ * @param {SchemaModel} schemaModel - Model of the schema, with the `foreignSchema` of every cross-schema foreign key
+ * @param {string} schemaDir - Output directory the schema file is committed to
+ * @param {(schema: string) => string} schemaDirOf - Returns the output directory of another schema
+ * @returns {Promise<string[]>} - `schema.table` names of the referenced tables that could not be linked
+ */
+async function linkSchemaFile(
+  schemaFilePath: string,
+  schemaModel: SchemaModel,
+  schemaDir: string,
+  schemaDirOf: (schema: string) => string
+): Promise<string[]> {
+  const referenced = foreignSchemaTables(schemaModel);
+  if (referenced.length === 0) return [];
+
+  const linkedTables = new Map<string, LinkedTable>();
+  for (const { schema, table } of referenced) {
+    const linkedTable = await findGeneratedTable(schemaDir, schemaDirOf(schema), schema, table);
+    if (linkedTable) linkedTables.set(`${schema}.${table}`, linkedTable);
+  }
+
+  const content = await fs.readFile(schemaFilePath, 'utf8');
+  const { source, unresolved } = linkForeignSchemas(content, schemaModel, linkedTables);
+  if (source !== content) await fs.writeFile(schemaFilePath, source, 'utf8');
+  return unresolved;
+}
+
+/**
+ * Describes foreign keys into other schemas that could not be linked.
+ */
+function unlinkedWarning(schemaName: string, unresolved: string[]): string {
+  return `Foreign keys of ${schemaName} into ${unresolved.join(', ')} could not be linked, since those tables have not been generated. Generate their schemas, e.g. with --all.`;
+}
+
+/**
+ * Runs the built-in generators, then the plugins of the project config, then
+ * the index.ts generator, and writes the files they return. Files returned
+ * with `null` content are removed if an earlier run generated them.
+ *
+ * @param {GenerationRun} run - The current generation run
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {(variableName: string) => string} baseName - Returns the readable base name of a variable
+ */
+async function runPlugins(run: GenerationRun, schemaModel: SchemaModel, baseName: (variableName: string) => string) {
+  const generated: GeneratedFile[] = [];
+  const typeName = (relation: { variableName: string }) => {
+    const name = pascalCase(baseName(relation.variableName));
+    return run.options.naming.singular ? singularize(name) : name;
+  };
+  const context: PluginContext = {
+    schemaModel,
+    options: run.options,
+    files: generated,
+    baseName,
+    typeName,
+    rowTypeNames: (relation) => rowTypeNames(typeName(relation), run.options.naming),
+    readFile: (path) => fs.readFile(join(run.outputDir, path), 'utf8').catch(() => undefined),
+    report: run.report,
+    warn: (message) => {
+      run.result.warnings.push(message);
+    },
+  };
+
+  // Duplicate exports would not compile, so stop before generating anything
+  const collisions = typeNameCollisions(schemaModel, run.options, context.typeName, context.rowTypeNames);
+  if (collisions.length > 0) {
+    throw new Error(
+      `Generated type names of the ${run.options.schema} schema collide: ${collisions.join(', ')}. Change the naming options in the config file or exclude one of them.`
+    );
+  }
+
+  for (const plugin of [...BUILTIN_PLUGINS, ...run.options.plugins, indexPlugin]) {
+    const builtin = plugin === indexPlugin || BUILTIN_PLUGINS.includes(plugin);
+    // The built-in generators report their own progress
+    const spinner = builtin ? undefined : run.report(`Running ${plugin.name} plugin...`);
+
+    try {
+      const files = (await plugin.generate(context)) ?? [];
+      for (const file of files) {
+        if (!builtin) validateGeneratedFile(plugin, file, generated);
+        const path = join(run.outputDir, file.path);
+        if (file.content === null) {
+          // Never remove a file kept next to the generated ones under the same name
+          const existing = await fs.readFile(path, 'utf8').catch(() => undefined);
+          if (existing !== undefined && hasGeneratedHeader(existing)) await fs.rm(path, { force: true });
+        } else {
+          await writeGeneratedFile(run, path, file.content);
+        }
+        generated.push(file);
+      }
+
+      const written = files.filter((file) => file.content !== null).map((file) => file.path);
+      spinner?.succeed(`Plugin ${plugin.name} generated ${written.length > 0 ? written.join(', ') : 'no files'}`);
+    } catch (error) {
+      spinner?.fail(`Plugin ${plugin.name} failed`);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Introspects the schema straight from the database catalog, without drizzle-kit
+ *
+ * @param {GenerationRun} run - The current generation run
+ * @returns {Promise<SchemaModel>} - Model of the introspected schema
+ */
+async function introspectNativeSchema(run: GenerationRun): Promise<SchemaModel> {
+  const { options } = run;
+  const spinner = run.report(`Introspecting ${options.schema} schema from the database catalog...`);
+
+  try {
+    const schemaModel = await introspectDatabase(options.connectionString!, options.schema);
+    spinner.succeed('Schema introspected successfully');
+    return schemaModel;
+  } catch (error) {
+    spinner.fail('Failed to introspect schema');
+    throw error;
+  }
+}
+
+/**
+ * Reads the schema from the SQL file set with `fromSql`, without a database
+ *
+ * @param {GenerationRun} run - The current generation run
+ * @returns {Promise<SchemaModel>} - Model of the schema in the SQL file
+ */
+async function readSqlSchema(run: GenerationRun): Promise<SchemaModel> {
+  const { options } = run;
+  const spinner = run.report(`Reading ${options.schema} schema from ${options.fromSql}...`);
+
+  try {
+    const { schemaModel, warnings } = readSqlSchemaModel(await fs.readFile(options.fromSql!, 'utf8'), options.schema);
+    if (warnings.length > 0) {
+      spinner.warn('Schema read from the SQL file with warnings');
+      run.result.warnings.push(...warnings.map((warning) => `${options.fromSql}: ${warning}`));
+    } else {
+      spinner.succeed('Schema read from the SQL file');
+    }
+    return schemaModel;
+  } catch (error) {
+    spinner.fail('Failed to read the SQL file');
+    throw error;
+  }
+}
+
+/**
+ * Creates a temporary copy of a schema directory for check and dry-run mode to generate into
+ *
+ * @param {string} schemaName - Name of the schema being checked
+ * @param {string} schemaDir - Directory holding the committed files
+ * @returns {Promise<string>} - Path of the temporary directory
+ */
+async function prepareCheckDirectory(schemaName: string, schemaDir: string): Promise<string> {
+  const checkDir = await fs.mkdtemp(join(tmpdir(), `gen-types-enums-${schemaName}-`));
+  try {
+    await fs.cp(schemaDir, checkDir, { recursive: true });
+  } catch (error) {
+    // Nothing committed yet, every generated file will be reported as added
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  return checkDir;
+}
+
+/**
+ * Compares the files generated in check mode with the committed ones, records
+ * every stale file in the result and removes the temporary directory
+ *
+ * @param {GenerationRun} run - The current generation run
+ */
+async function compareWithCommitted(run: GenerationRun) {
+  const { schema: schemaName, schemaDir } = run.options;
+  const spinner = run.report('Comparing generated files with committed files...');
+
+  try {
+    run.result.drift = await compareGeneratedFiles(
+      run.outputDir,
+      schemaDir,
+      writtenFilesTransform(run)
+    );
+
+    if (run.result.drift.length === 0) {
+      spinner.succeed(`Generated files for ${schemaName} are up to date`);
+    } else {
+      spinner.fail(`Generated files for ${schemaName} are stale (${run.result.drift.length} files differ)`);
+    }
+  } finally {
+    await fs.rm(run.outputDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Lists what a normal run would change, from the files generated in dry-run
+ * mode, and removes the temporary directory. Besides the generated files, a
+ * normal run writes the drizzle-kit config file and deletes the migrations
+ * directory of the schema after a pull.
+ *
+ * @param {GenerationRun} run - The current generation run
+ */
+async function planDryRun(run: GenerationRun) {
+  const { options } = run;
+  const spinner = run.report('Listing the files a normal run would change...');
+
+  try {
+    const drifts = await compareGeneratedFiles(run.outputDir, options.schemaDir, writtenFilesTransform(run));
+    const planned: PlannedChange[] = [];
+
+    if (options.introspect === 'drizzle' && !options.typesOnly) {
+      const existingConfig = await fs.readFile(options.drizzleConfigFile, 'utf8').catch(() => undefined);
+      if (existingConfig !== renderDrizzleConfig(options)) {
+        planned.push({ path: options.drizzleConfigFile, action: existingConfig === undefined ? 'create' : 'modify' });
+      }
+      const migrationsDir = join(options.schemaDir, 'migrations');
+      if (await fs.access(migrationsDir).then(() => true, () => false)) {
+        planned.push({ path: `${migrationsDir}/`, action: 'delete' });
+      }
+    }
+
+    const actions = { added: 'create', modified: 'modify', removed: 'delete' } as const;
+    planned.push(...drifts.map((drift) => ({ path: drift.path, action: actions[drift.status] })));
+    run.result.planned = planned;
+    spinner.succeed(`Dry run for ${options.schema} finished, ${planned.length} files would change`);
+  } finally {
+    await fs.rm(run.outputDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Resolves the options of a {@link generate} call against its project configuration.
+ *
+ * @param {GenerateOptions} generateOptions - Schema to generate and its options
+ * @returns {ResolvedSchemaOptions} - The resolved options
+ */
+export function resolveGenerateOptions(generateOptions: GenerateOptions): ResolvedSchemaOptions {
+  const { schema, typesOnly, check, dryRun, connection, config = {}, reporter: _reporter, ...schemaOptions } = generateOptions;
+  return resolveSchemaOptions(
+    { ...config, connection: { ...config.connection, ...connection } },
+    schema,
+    schemaOptions,
+    { typesOnly, check, dryRun }
+  );
+}
+
+/**
+ * Pulls or introspects one schema and generates its files. Nothing is printed
+ * unless a reporter is passed, and failures are thrown instead of exiting.
+ *
+ * @param {GenerateOptions} generateOptions - Schema to generate and its options
+ * @returns {Promise<GenerateResult>} - The files written, the tables and enums found and any warnings
+ */
+export async function generate(generateOptions: GenerateOptions): Promise<GenerateResult> {
+  const options = resolveGenerateOptions(generateOptions);
+  const { schema: schemaName, emit } = options;
+  // Only drizzle-kit pulls a schema.ts, native introspection and SQL files build the model directly
+  const drizzleIntrospection = options.introspect === 'drizzle';
+
+  if (options.introspect === 'native' && options.typesOnly) {
+    throw new Error('--types-only cannot be combined with native introspection, which always reads the database catalog.');
+  }
+  if (options.introspect === 'sql' && options.typesOnly) {
+    throw new Error('--types-only cannot be combined with --from-sql, which always reads the SQL file.');
+  }
+  if (options.introspect === 'sql' && !options.fromSql) {
+    throw new Error("introspect: 'sql' needs the SQL file to read. Set it with fromSql or --from-sql.");
+  }
+  if (options.check && options.dryRun) {
+    throw new Error('Check mode cannot be combined with a dry run.');
+  }
+  if (!options.typesOnly && options.introspect !== 'sql' && !options.connectionString) {
+    throw new Error(`${options.connectionEnv} environment variable is required. Please read the README.md file for instructions on how to set it up.`);
+  }
+
+  // In check and dry-run mode everything is generated into a temporary copy of the schema directory
+  const isolated = options.check || options.dryRun;
+  const SCHEMA_DIR = options.schemaDir;
+  const OUTPUT_DIR = isolated ? await prepareCheckDirectory(schemaName, SCHEMA_DIR) : SCHEMA_DIR;
+  const run: GenerationRun = {
+    options,
+    report: generateOptions.reporter ?? silentReporter,
+    result: { schema: schemaName, files: [], tables: [], enums: [], views: [], warnings: [], drift: [] },
+    outputDir: OUTPUT_DIR,
+  };
+  const result = run.result;
+  if (options.dryRun) result.contents = {};
+  const MIGRATIONS_DIR = join(OUTPUT_DIR, 'migrations');
+  const SCHEMA_FILE = join(MIGRATIONS_DIR, 'schema.ts');
+  const FINAL_SCHEMA_FILE = join(OUTPUT_DIR, 'schema.ts');
+  const META_DIR = join(MIGRATIONS_DIR, 'meta');
+  const SNAPSHOT_FILE = join(OUTPUT_DIR, 'snapshot.json');
+  const SCHEMA_SUFFIX = options.schemaSuffix;
+
+  let schemaModel: SchemaModel;
+
+  if (options.introspect === 'native') {
+    // Build the schema model straight from the database catalog
+    schemaModel = await applyFilters(run, await introspectNativeSchema(run));
+    await fs.mkdir(OUTPUT_DIR, { recursive: true });
+  } else if (options.introspect === 'sql') {
+    // Build the schema model from the SQL file, without a database
+    schemaModel = await applyFilters(run, await readSqlSchema(run));
+    await fs.mkdir(OUTPUT_DIR, { recursive: true });
+  } else {
+    // Write the drizzle-kit config file. Check and dry-run mode write it to a
+    // temporary directory instead, so that nothing is written to the project.
+    if (!isolated && !options.typesOnly) {
+      await createConfigFile(run);
+    }
+
+    // Only run the schema pull if not in types-only mode
+    if (!options.typesOnly) {
+      const pullSpinner = run.report(`Fetching ${schemaName} schema from database...`);
+
+      try {
+        const env = { ...process.env, [options.connectionEnv]: options.connectionString };
+        const { stderr } = isolated
+          ? await pullIsolated(options, MIGRATIONS_DIR, env)
+          : await execAsync(`drizzle-kit pull --config=${options.drizzleConfigFile}`, { env });
+
+        if (stderr && !stderr.includes('[i] No SQL generated')) {
+          pullSpinner.warn('Schema pulled with warnings');
+          result.warnings.push(`drizzle-kit pull: ${stderr.trim()}`);
+        } else {
+          pullSpinner.succeed('Schema pulled successfully');
+        }
+
+        // Process the schema file to rename identifiers
+        const processedContent = await processSchemaFile(run, SCHEMA_FILE);
+        await addDatabaseComments(run, SCHEMA_FILE, processedContent);
+      } catch (error) {
+        pullSpinner.fail('Failed to pull schema');
+        throw error;
+      }
+    }
+
+    // Check if the schema file exists - in types-only mode, check the final location first
+    const schemaAccessSpinner = run.report('Verifying schema file...');
+    let schemaContent: string;
+    let schemaFilePath: string;
+
+    try {
+      // In types-only mode, try to read from the final location first
+      if (options.typesOnly) {
+        try {
+          await fs.access(FINAL_SCHEMA_FILE);
+          schemaContent = await fs.readFile(FINAL_SCHEMA_FILE, 'utf8');
+          schemaFilePath = FINAL_SCHEMA_FILE;
+          schemaAccessSpinner.succeed(`Found schema file at ${FINAL_SCHEMA_FILE}`);
+        } catch {
+          // If not found in final location, try the migrations directory
+          await fs.access(SCHEMA_FILE);
+          schemaContent = await fs.readFile(SCHEMA_FILE, 'utf8');
+          schemaFilePath = SCHEMA_FILE;
+          schemaAccessSpinner.succeed(`Found schema file at ${SCHEMA_FILE}`);
+        }
+      } else {
+        // In full mode, the file is expected to be in the migrations directory
+        await fs.access(SCHEMA_FILE);
+        schemaContent = await fs.readFile(SCHEMA_FILE, 'utf8');
+        schemaFilePath = SCHEMA_FILE;
+        schemaAccessSpinner.succeed(`Found schema file at ${SCHEMA_FILE}`);
+      }
+    } catch {
+      schemaAccessSpinner.fail(`Schema file not found in either location`);
+      throw new Error(
+        `Schema file not found. Run without --types-only to generate it first.`
+      );
+    }
+
+    // In types-only mode, process the schema file if needed
+    const searchPattern = drizzleSchemaInfix(schemaName);
+    if (options.typesOnly && schemaContent.includes(searchPattern)) {
+      schemaContent = await processSchemaFile(run, schemaFilePath);
+    }
+
+    // Build the schema model that every generator reads from. After a pull,
+    // the drizzle-kit snapshot supplies the structure of the schema.
+    schemaModel = readSchemaModel(schemaContent, schemaName, schemaFilePath);
+    if (!options.typesOnly) {
+      schemaModel = await readSnapshotSource(run, META_DIR, SNAPSHOT_FILE, schemaModel);
+    }
+
+    // Leave out what --include and --exclude filter out, also from a pulled
+    // schema.ts. With --types-only, schema.ts is the user's own and stays as it is.
+    schemaModel = await applyFilters(run, schemaModel, options.typesOnly ? undefined : schemaFilePath);
+    if (!options.typesOnly) {
+      // Import the tables that foreign keys into other schemas reference
+      const schemaDirOf = (schema: string) => resolveGenerateOptions({ ...generateOptions, schema }).schemaDir;
+      const unresolved = await linkSchemaFile(SCHEMA_FILE, schemaModel, SCHEMA_DIR, schemaDirOf);
+      if (unresolved.length > 0) result.warnings.push(unlinkedWarning(schemaName, unresolved));
+    }
+    if (!options.typesOnly && emit.customTypes) {
+      await addCatalogTypes(run, schemaModel);
+    }
+  }
+
+  // In check mode, compare the schema with the last saved generation
+  if (options.check) {
+    try {
+      const savedModel = await readSavedSchemaModel(SCHEMA_DIR, schemaName);
+      if (savedModel) result.changes = diffSchemaModels(filterSchemaModel(savedModel, options).model, schemaModel);
+    } catch (error) {
+      result.warnings.push(`Last saved generation: ${(error as Error).message}`);
+    }
+  }
+
+  // Strip the schema suffix added by processSchemaFile to get the readable base name
+  const baseName = (variableName: string) => baseVariableName(variableName, schemaName, SCHEMA_SUFFIX);
+
+  const modelSpinner = run.report('Reading tables, views and enums from the schema...');
+  const { tables, enums, views } = schemaModel;
+
+  if (tables.length === 0 && enums.length === 0 && views.length === 0) {
+    modelSpinner.fail('No tables, views or enums found in the schema');
+    throw new Error(
+      'Could not find any tables, views or enums in the schema. The schema file may be invalid.'
+    );
+  }
+
+  result.tables = tables.map((table) => table.name);
+  result.enums = enums.map((enumDef) => enumDef.name);
+  result.views = views.map((view) => view.name);
+  modelSpinner.succeed(`Found ${tables.length} tables${views.length > 0 ? `, ${views.length} views` : ''} and ${enums.length} enums in the schema`);
+
+  // Generate enums.ts, types.ts and the other files through the built-in and configured plugins
+  await runPlugins(run, schemaModel, baseName);
+  // Move schema file and cleanup migrations directory only in full mode
+  if (!options.typesOnly && drizzleIntrospection) {
+    const moveSpinner = run.report('Moving schema file and cleaning up...');
+    try {
+      // Copy schema.ts to the final location
+      await writeGeneratedFile(run, FINAL_SCHEMA_FILE, await fs.readFile(SCHEMA_FILE, 'utf8'));
+      moveSpinner.text = 'Schema file copied, removing migrations directory...';
+
+      // Delete the migrations directory
+      const removeDirRecursive = async (path: string) => {
+        try {
+          const entries = await fs.readdir(path, { withFileTypes: true });
+
+          for (const entry of entries) {
+            const fullPath = join(path, entry.name);
+            if (entry.isDirectory()) {
+              await removeDirRecursive(fullPath);
+            } else {
+              await fs.unlink(fullPath);
+            }
+          }
+
+          await fs.rmdir(path);
+        } catch (error) {
+          // Ignore errors if directory doesn't exist
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+          }
+        }
+      };
+
+      await removeDirRecursive(MIGRATIONS_DIR);
+      moveSpinner.succeed('Schema file moved and migrations directory removed');
+    } catch (error) {
+      moveSpinner.fail('Failed to move schema file or clean up migrations directory');
+      result.warnings.push(String(error));
+    }
+  }
+
+  // After generating enums and types, delete schema.ts unless it should be kept
+  if (!emit.schema && drizzleIntrospection) {
+    const removeSchemaSpinner = run.report('Removing schema.ts...');
+    try {
+      await fs.unlink(FINAL_SCHEMA_FILE);
+      result.files = result.files.filter((file) => file !== join(SCHEMA_DIR, 'schema.ts'));
+      delete result.contents?.[join(SCHEMA_DIR, 'schema.ts')];
+      removeSchemaSpinner.succeed(`Schema.ts removed at ${FINAL_SCHEMA_FILE}`);
+    } catch (error) {
+      removeSchemaSpinner.fail(`Failed to remove schema.ts at ${FINAL_SCHEMA_FILE}`);
+      result.warnings.push(String(error));
+    }
+  }
+
+  // Format the files written by this run
+  await formatGeneratedFiles(run);
+
+  // In check mode, compare the generated files with the committed ones and discard them
+  if (options.check) {
+    await compareWithCommitted(run);
+  } else if (options.dryRun) {
+    await planDryRun(run);
+  }
+
+  return result;
+}
+
+/**
+ * Outcome of {@link linkSchemas}.
+ */
+export interface LinkSchemasResult {
+  /** Path of the root index.ts, if any schema has an index.ts */
+  rootIndex?: string;
+  /** Foreign keys that could not be linked */
+  warnings: string[];
+}
+
+/**
+ * Connects schemas generated one after another, e.g. by `--all`: links the
+ * foreign keys into schemas that were generated after the referencing one,
+ * and writes the root index.ts that re-exports every schema under a namespace.
+ *
+ * @param {Omit<GenerateOptions, 'schema'>} generateOptions - Options shared by the schemas
+ * @param {string[]} schemas - Names of the generated schemas
+ * @param {string} outDir - Directory the root index.ts is written to
+ * @returns {Promise<LinkSchemasResult>} - The root index.ts and any warnings
+ */
+export async function linkSchemas(
+  generateOptions: Omit<GenerateOptions, 'schema'>,
+  schemas: string[],
+  outDir: string
+): Promise<LinkSchemasResult> {
+  const schemaDirOf = (schema: string) => resolveGenerateOptions({ ...generateOptions, schema }).schemaDir;
+  const warnings: string[] = [];
+
+  for (const schema of schemas) {
+    const schemaDir = schemaDirOf(schema);
+    const hasSchemaFile = await fs.access(join(schemaDir, 'schema.ts')).then(() => true, () => false);
+    const savedModel = hasSchemaFile ? await readSavedSchemaModel(schemaDir, schema) : undefined;
+    if (!savedModel) continue;
+
+    const unresolved = await linkSchemaFile(join(schemaDir, 'schema.ts'), savedModel, schemaDir, schemaDirOf);
+    if (unresolved.length > 0) warnings.push(unlinkedWarning(schema, unresolved));
+  }
+
+  const rootIndex = await writeRootIndex(outDir, schemas.map((schema) => ({ schema, schemaDir: schemaDirOf(schema) })));
+  return rootIndex ? { rootIndex, warnings } : { warnings };
+}
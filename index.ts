@@ -7,46 +7,179 @@
  *   gen-types-enums-psql-schema <schema_name> --types-only       # Only generate types from existing schema
  *   gen-types-enums-psql-schema --all                            # Pull and generate types for all schemas
  *   gen-types-enums-psql-schema <schema_name> --remove-schema    # Remove schema.ts after enum generation
- *   gen-types-enums-psql-schema <schema_name> --disable-eslint   # Skip ESLint step
+ *   gen-types-enums-psql-schema <schema_name> --disable-eslint   # Skip the formatter step
+ *   gen-types-enums-psql-schema <schema_name> --introspect=native # Read the database catalog without drizzle-kit
+ *   gen-types-enums-psql-schema <schema_name> --from-sql <file>  # Read the schema from a SQL file, without a database
+ *   gen-types-enums-psql-schema <schema_name> --zod              # Also generate Zod schemas in zod.ts
+ *   gen-types-enums-psql-schema <schema_name> --json-schema      # Also generate JSON Schema in schema.json
+ *   gen-types-enums-psql-schema <schema_name> --check            # Fail if the committed files are stale
+ *   gen-types-enums-psql-schema <schema_name> --dry-run          # List the files a run would change
+ *   gen-types-enums-psql-schema <schema_name> --watch            # Regenerate whenever the schema changes
+ *   gen-types-enums-psql-schema diff <schema_name>               # Report schema changes since the last generation
  *
  * Arguments:
  *   schema_name       Name of the schema to process (required)
  *
  * Options:
  *   --types-only      Skip schema pull, only generate types from existing schema
- *   --all             Pull and generate types for all schemas in ./schemas
+ *   --all             Pull and generate types for all configured schemas, or all schemas found in the database
+ *                     (the output directory with --types-only), then link them and write a root index.ts
+ *   --concurrency=<n>  How many schemas --all generates at the same time (default: 4)
+ *   --exclude-schemas=<globs>  Schemas --all leaves out, as comma-separated glob patterns
  *   --remove-schema   Remove schema.ts after enum generation
- *   --disable-eslint  Skip ESLint step
+ *   --disable-eslint  Skip the formatter step (same as --formatter=none)
+ *   --formatter=<name>  Formatter for the written files: eslint (default), prettier, biome, dprint or none
+ *   --introspect=<mode>  Schema source: drizzle (default, uses drizzle-kit pull) or native (queries pg_catalog)
+ *   --from-sql=<file>  Read the schema from SQL DDL, e.g. pg_dump --schema-only output, instead of the database.
+ *                     With --all, generates every schema the file creates tables or types in
+ *   --zod             Also generate Zod select/insert schemas in zod.ts
+ *   --json-schema     Also generate a JSON Schema (draft 2020-12) document in schema.json
+ *   --openapi         Also generate an OpenAPI 3.1 components.schemas fragment in openapi.json
+ *   --kysely          Also generate a Kysely Database interface in kysely.ts
+ *   --pg-rows         Also generate plain row interfaces for the pg driver in pg-rows.ts
+ *   --check           Generate into a temporary directory and exit non-zero if committed files differ
+ *   --dry-run         List the files a run would create, modify or delete without touching the disk
+ *   --stdout          Print the generated enums.ts and types.ts to standard output instead of writing any files
+ *   --enum-style=<style>  How enums are emitted: enum (default), const (object with as const) or union (type only)
+ *   --enum-key-case=<case>  Enum member keys: value (default, the quoted value), constant, pascal or camel
+ *   --domain-style=<style>  How domains are emitted in custom-types.ts: alias (default) or brand
+ *   --branded-ids     Give primary keys and the foreign keys referencing them branded ID types
+ *   --watch           Regenerate when schema.ts (with --types-only), the --from-sql file or the database schema changes
+ *   --watch-interval=<seconds>  How often the database is polled in watch mode (default: 5)
+ *   --config=<path>   Config file to use instead of gen-types.config.ts in the working directory
+ *   --out-dir=<dir>   Directory the <schema_name> folders are generated into (default: ./schemas)
+ *   --include=<globs>  Only generate the tables, views and enums matching these comma-separated glob patterns
+ *   --exclude=<globs>  Leave out the tables, views and enums matching these comma-separated glob patterns
+ *   --json            With diff, print the change report as JSON
  *   --help, -h        Show this help message
+ *
+ * Flags override the options of the project config file (gen-types.config.ts).
  */
 
 import c from 'ansi-colors';
-import { exec } from 'child_process';
 import { promises as fs } from 'fs';
 import ora from 'ora';
-import { join } from 'path';
-import { promisify } from 'util';
 import dotenv from 'dotenv';
+import { DEFAULT_CONCURRENCY, excludeSchemas, formatSummary, generateAll, type SchemaOutcome } from './batch.js';
+import { formatDrift, formatPlannedChanges } from './check.js';
+import { loadConfig, resolveConnection, toPosixPath, type GenTypesConfig, type SchemaOptions } from './config.js';
+import { ENUM_KEY_CASES, ENUM_STYLES, type EnumKeyCase, type EnumStyle } from './enum-styles.js';
+import { DOMAIN_STYLES, type DomainStyle } from './custom-types.js';
+import { splitPatterns } from './filters.js';
+import { FORMATTERS, type FormatterName } from './formatters.js';
+import { generate, linkSchemas, type GenerateResult, type Reporter } from './generate.js';
+import { listDatabaseSchemas } from './introspect.js';
+import { formatSchemaChanges, type SchemaChange } from './schema-diff.js';
+import { readSqlSchemaNames } from './sql-reader.js';
+import { watch, type Watcher } from './watch.js';
 
 dotenv.config({
   path: ['.env', 'dist/.env', '../.env'],
   quiet: true,
 });
 
-if (!process.env.DATABASE_URL) {
-  throw new Error('DATABASE_URL environment variable is required. Please read the README.md file for instructions on how to set it up.');
-}
-
-const execAsync = promisify(exec);
-
 // Parse command line arguments
 const args = process.argv.slice(2);
-const schemaNameArg = args.find(arg => !arg.startsWith('--'));
+const flagValue = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+// --from-sql also takes its file as the next argument
+const fromSqlIndex = args.indexOf('--from-sql');
+const fromSqlArg = flagValue('from-sql') ?? (fromSqlIndex === -1 ? undefined : args[fromSqlIndex + 1]);
+const positionalArgs = args.filter((arg, index) => !arg.startsWith('--') && arg !== '-h' && (fromSqlIndex === -1 || index !== fromSqlIndex + 1));
+const diffCommand = positionalArgs[0] === 'diff';
+const schemaNameArg = positionalArgs[diffCommand ? 1 : 0];
+const jsonOutput = args.includes('--json');
 const typesOnly = args.includes('--types-only');
 const showHelp = args.includes('--help') || args.includes('-h');
 const allFlag = args.includes('--all');
-const removeSchema = args.includes('--remove-schema');
-const disableEslint = args.includes('--disable-eslint');
+const checkMode = args.includes('--check');
+const watchMode = args.includes('--watch');
+const dryRun = args.includes('--dry-run');
+const stdoutMode = args.includes('--stdout');
+const watchInterval = Number(flagValue('watch-interval') ?? 5);
+const configPath = flagValue('config');
+const introspectArg = flagValue('introspect');
+const enumStyleArg = flagValue('enum-style');
+const enumKeyCaseArg = flagValue('enum-key-case');
+const domainStyleArg = flagValue('domain-style');
+const formatterArg = flagValue('formatter');
+const concurrencyArg = flagValue('concurrency');
+
+if (introspectArg !== undefined && introspectArg !== 'drizzle' && introspectArg !== 'native') {
+  console.error(c.red(`Unknown introspection mode "${introspectArg}". Use --introspect=drizzle or --introspect=native.`));
+  process.exit(1);
+}
+
+if (fromSqlIndex !== -1 && (fromSqlArg === undefined || fromSqlArg.startsWith('--'))) {
+  console.error(c.red('--from-sql needs the SQL file to read, e.g. --from-sql ./schema.sql.'));
+  process.exit(1);
+}
+
+if (enumStyleArg !== undefined && !ENUM_STYLES.includes(enumStyleArg as EnumStyle)) {
+  console.error(c.red(`Unknown enum style "${enumStyleArg}". Use --enum-style=${ENUM_STYLES.join(', --enum-style=')}.`));
+  process.exit(1);
+}
+
+if (enumKeyCaseArg !== undefined && !ENUM_KEY_CASES.includes(enumKeyCaseArg as EnumKeyCase)) {
+  console.error(c.red(`Unknown enum key casing "${enumKeyCaseArg}". Use --enum-key-case=${ENUM_KEY_CASES.join(', --enum-key-case=')}.`));
+  process.exit(1);
+}
+
+if (domainStyleArg !== undefined && !DOMAIN_STYLES.includes(domainStyleArg as DomainStyle)) {
+  console.error(c.red(`Unknown domain style "${domainStyleArg}". Use --domain-style=${DOMAIN_STYLES.join(', --domain-style=')}.`));
+  process.exit(1);
+}
+
+if (formatterArg !== undefined && !FORMATTERS.includes(formatterArg as FormatterName)) {
+  console.error(c.red(`Unknown formatter "${formatterArg}". Use --formatter=${FORMATTERS.join(', --formatter=')}.`));
+  process.exit(1);
+}
+
+if (diffCommand && (typesOnly || checkMode || watchMode)) {
+  console.error(c.red('diff compares the database with the last generation, so it cannot be combined with --types-only, --check or --watch.'));
+  process.exit(1);
+}
+
+if ((dryRun || stdoutMode) && (diffCommand || checkMode || watchMode)) {
+  console.error(c.red('--dry-run and --stdout cannot be combined with diff, --check or --watch.'));
+  process.exit(1);
+}
+
+if (watchMode && checkMode) {
+  console.error(c.red('--watch cannot be combined with --check.'));
+  process.exit(1);
+}
+
+if (concurrencyArg !== undefined && !/^[1-9]\d*$/u.test(concurrencyArg)) {
+  console.error(c.red(`Invalid --concurrency "${concurrencyArg}". Use a whole number of at least 1.`));
+  process.exit(1);
+}
+
+if (!Number.isFinite(watchInterval) || watchInterval <= 0) {
+  console.error(c.red(`Invalid --watch-interval "${flagValue('watch-interval')}". Use a number of seconds greater than 0.`));
+  process.exit(1);
+}
+
+// Flags override the config file, so only the ones actually passed are set
+const flagOptions: SchemaOptions = {};
+const flagEmit: NonNullable<SchemaOptions['emit']> = {};
+if (flagValue('out-dir')) flagOptions.outDir = flagValue('out-dir');
+if (introspectArg) flagOptions.introspect = introspectArg;
+if (fromSqlArg) flagOptions.fromSql = fromSqlArg;
+if (enumStyleArg) flagOptions.enumStyle = enumStyleArg as EnumStyle;
+if (enumKeyCaseArg) flagOptions.enumKeyCase = enumKeyCaseArg as EnumKeyCase;
+if (domainStyleArg) flagOptions.domainStyle = domainStyleArg as DomainStyle;
+if (flagValue('include') !== undefined) flagOptions.include = splitPatterns(flagValue('include')!);
+if (flagValue('exclude') !== undefined) flagOptions.exclude = splitPatterns(flagValue('exclude')!);
+if (formatterArg) flagOptions.formatter = formatterArg as FormatterName;
+if (args.includes('--disable-eslint')) flagOptions.formatter = 'none';
+if (args.includes('--branded-ids')) flagOptions.brandedIds = true;
+if (args.includes('--remove-schema')) flagEmit.schema = false;
+if (args.includes('--zod')) flagEmit.zod = true;
+if (args.includes('--json-schema')) flagEmit.jsonSchema = true;
+if (args.includes('--openapi')) flagEmit.openApi = true;
+if (args.includes('--kysely')) flagEmit.kysely = true;
+if (args.includes('--pg-rows')) flagEmit.pgRows = true;
+if (Object.keys(flagEmit).length > 0) flagOptions.emit = flagEmit;
 
 // Show help if requested or if no schema name provided (unless --all is used)
 if (showHelp || (!schemaNameArg && !allFlag)) {
@@ -58,715 +191,388 @@ ${c.bold('Usage:')}
   gen-types-enums-psql-schema <schema_name> --types-only       # Only generate types from existing schema
   gen-types-enums-psql-schema --all                            # Pull and generate types for all schemas
   gen-types-enums-psql-schema <schema_name> --remove-schema    # Remove schema.ts after enum generation
-  gen-types-enums-psql-schema <schema_name> --disable-eslint   # Skip ESLint step
+  gen-types-enums-psql-schema <schema_name> --disable-eslint   # Skip the formatter step
+  gen-types-enums-psql-schema <schema_name> --introspect=native # Read the database catalog without drizzle-kit
+  gen-types-enums-psql-schema <schema_name> --from-sql <file>  # Read the schema from a SQL file, without a database
+  gen-types-enums-psql-schema <schema_name> --zod              # Also generate Zod schemas in zod.ts
+  gen-types-enums-psql-schema <schema_name> --json-schema      # Also generate JSON Schema in schema.json
+  gen-types-enums-psql-schema <schema_name> --check            # Fail if the committed files are stale
+  gen-types-enums-psql-schema <schema_name> --dry-run          # List the files a run would change
+  gen-types-enums-psql-schema <schema_name> --watch            # Regenerate whenever the schema changes
+  gen-types-enums-psql-schema diff <schema_name>               # Report schema changes since the last generation
 
 ${c.bold('Arguments:')}
   ${c.cyan('schema_name')}       Name of the schema to process (required unless --all)
 
 ${c.bold('Options:')}
   ${c.cyan('--types-only')}      Skip schema pull, only generate types from existing schema
-  ${c.cyan('--all')}             Pull and generate types for all schemas in ./schemas
+  ${c.cyan('--all')}             Pull and generate types for all configured schemas, or all schemas found in the database
+                    (the output directory with --types-only), then link them and write a root index.ts
+  ${c.cyan('--concurrency=<n>')}  How many schemas --all generates at the same time (default: 4)
+  ${c.cyan('--exclude-schemas=<globs>')}  Schemas --all leaves out, as comma-separated glob patterns
   ${c.cyan('--remove-schema')}   Remove schema.ts after enum generation
-  ${c.cyan('--disable-eslint')}  Skip ESLint step
+  ${c.cyan('--disable-eslint')}  Skip the formatter step (same as --formatter=none)
+  ${c.cyan('--formatter=<name>')}  Formatter for the written files: eslint (default), prettier, biome, dprint or none
+  ${c.cyan('--introspect=<mode>')}  Schema source: drizzle (default, uses drizzle-kit pull) or native (queries pg_catalog)
+  ${c.cyan('--from-sql=<file>')}  Read the schema from SQL DDL, e.g. pg_dump --schema-only output, instead of the database.
+                    With --all, generates every schema the file creates tables or types in
+  ${c.cyan('--zod')}             Also generate Zod select/insert schemas in zod.ts
+  ${c.cyan('--json-schema')}     Also generate a JSON Schema (draft 2020-12) document in schema.json
+  ${c.cyan('--openapi')}         Also generate an OpenAPI 3.1 components.schemas fragment in openapi.json
+  ${c.cyan('--kysely')}          Also generate a Kysely Database interface in kysely.ts
+  ${c.cyan('--pg-rows')}         Also generate plain row interfaces for the pg driver in pg-rows.ts
+  ${c.cyan('--check')}           Generate into a temporary directory and exit non-zero if committed files differ
+  ${c.cyan('--dry-run')}         List the files a run would create, modify or delete without touching the disk
+  ${c.cyan('--stdout')}          Print the generated enums.ts and types.ts to standard output instead of writing any files
+  ${c.cyan('--enum-style=<style>')}  How enums are emitted: enum (default), const (object with as const) or union (type only)
+  ${c.cyan('--enum-key-case=<case>')}  Enum member keys: value (default, the quoted value), constant, pascal or camel
+  ${c.cyan('--domain-style=<style>')}  How domains are emitted in custom-types.ts: alias (default) or brand
+  ${c.cyan('--branded-ids')}     Give primary keys and the foreign keys referencing them branded ID types
+  ${c.cyan('--watch')}           Regenerate when schema.ts (with --types-only), the --from-sql file or the database schema changes
+  ${c.cyan('--watch-interval=<seconds>')}  How often the database is polled in watch mode (default: 5)
+  ${c.cyan('--config=<path>')}   Config file to use instead of gen-types.config.ts in the working directory
+  ${c.cyan('--out-dir=<dir>')}   Directory the <schema_name> folders are generated into (default: ./schemas)
+  ${c.cyan('--include=<globs>')}  Only generate the tables, views and enums matching these comma-separated glob patterns
+  ${c.cyan('--exclude=<globs>')}  Leave out the tables, views and enums matching these comma-separated glob patterns
+  ${c.cyan('--json')}            With diff, print the change report as JSON
   ${c.cyan('--help, -h')}        Show this help message
 
 ${c.bold('Examples:')}
   gen-types-enums-psql-schema public
   gen-types-enums-psql-schema --all
+  gen-types-enums-psql-schema --all --concurrency=8 --exclude-schemas='drizzle,tmp_*'
   gen-types-enums-psql-schema public --remove-schema
   gen-types-enums-psql-schema public --disable-eslint
+  gen-types-enums-psql-schema public --formatter=prettier
+  gen-types-enums-psql-schema public --introspect=native
+  gen-types-enums-psql-schema public --from-sql ./db/schema.sql
+  gen-types-enums-psql-schema --all --from-sql=./db/schema.sql
+  gen-types-enums-psql-schema public --zod
+  gen-types-enums-psql-schema public --json-schema --openapi
+  gen-types-enums-psql-schema public --kysely --pg-rows
+  gen-types-enums-psql-schema public --check
+  gen-types-enums-psql-schema public --dry-run --remove-schema
+  gen-types-enums-psql-schema public --types-only --stdout > types.snapshot.ts
+  gen-types-enums-psql-schema public --types-only --watch
+  gen-types-enums-psql-schema public --enum-style=const --enum-key-case=constant
+  gen-types-enums-psql-schema public --out-dir=packages/db/src/generated
+  gen-types-enums-psql-schema public --exclude='__drizzle_*,spatial_ref_sys,*_bak'
+  gen-types-enums-psql-schema diff public --json
 `);
   process.exit(showHelp ? 0 : 1);
 }
 
-// At this point, schemaName is guaranteed to exist
-const schemaName: string = schemaNameArg!;
-
-// Path constants - now dynamic based on schema name
-const CONFIG_FILE = `./db.config.${schemaName}.ts`;
-const TEMPLATE_CONFIG_FILE = './db.config.ts';
-const MIGRATIONS_DIR = `./schemas/${schemaName}/migrations`;
-const SCHEMA_FILE = join(MIGRATIONS_DIR, 'schema.ts');
-const FINAL_SCHEMA_FILE = `./schemas/${schemaName}/schema.ts`;
-const META_DIR = join(MIGRATIONS_DIR, 'meta');
-const TYPES_FILE = `./schemas/${schemaName}/types.ts`;
-const INDEX_FILE = `./schemas/${schemaName}/index.ts`;
-const ENUMS_FILE = `./schemas/${schemaName}/enums.ts`;
+let config: GenTypesConfig;
+try {
+  config = await loadConfig(configPath);
+} catch (error) {
+  console.error(c.red(`✖ Could not load the config file: ${error instanceof Error ? error.message : String(error)}`));
+  process.exit(1);
+}
 
-// Schema variable name mappings
-const SCHEMA_VAR_NAME = `${schemaName}Schema`;
-const SCHEMA_SUFFIX = schemaName.charAt(0).toUpperCase() + schemaName.slice(1).replace(/_([a-z])/g, (_, letter) => letter.toUpperCase()) + 'S';
+// Set when --check finds generated files that differ from the committed ones
+let driftDetected = false;
 
 /**
- * Creates a schema-specific database config file from the template
+ * Shows every generation step as a colored spinner
  */
-async function createConfigFile() {
-  const spinner = ora(c.cyan(`Creating database config file for ${schemaName}...`)).start();
-
-  try {
-    // Check if config file already exists
-    try {
-      await fs.access(CONFIG_FILE);
-      spinner.info(c.blue(`Config file ${CONFIG_FILE} already exists, skipping creation`));
-      return;
-    } catch {
-      // File doesn't exist, proceed with creation
-    }
-
-    // Read the template config file
-    const templateContent = await fs.readFile(TEMPLATE_CONFIG_FILE, 'utf8');
-    
-    // Replace {schemaName} placeholders with actual schema name
-    const configContent = templateContent.replace(/random_schema_name/g, schemaName);
-    
-    // Write the schema-specific config file
-    await fs.writeFile(CONFIG_FILE, configContent, 'utf8');
-    
-    spinner.succeed(c.green(`Config file created at ${CONFIG_FILE}`));
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT' && (error as NodeJS.ErrnoException).path?.includes('db.config.ts')) {
-      spinner.fail(c.red('Template config file (db.config.ts) not found'));
-      throw new Error('Template config file (db.config.ts) not found. Please ensure it exists in the project root.');
-    } else {
-      spinner.fail(c.red('Failed to create config file'));
-      throw error;
-    }
-  }
-}
+const spinnerReporter: Reporter = (text) => {
+  const spinner = ora(c.cyan(text)).start();
+  return {
+    get text() {
+      return spinner.text;
+    },
+    set text(value: string) {
+      spinner.text = c.cyan(value);
+    },
+    succeed: (value?: string) => spinner.succeed(value && c.green(value)),
+    fail: (value?: string) => spinner.fail(value && c.red(value)),
+    warn: (value?: string) => spinner.warn(value && c.yellow(value)),
+    info: (value?: string) => spinner.info(value && c.blue(value)),
+  };
+};
 
 /**
- * Generates an enums.ts file based on the schema
+ * Prints every finished generation step on its own line of standard error, like
+ * the spinners, prefixed with the schema name, so that schemas generated at the
+ * same time stay readable
  *
- * @param {string} schemaContent - Content of the schema file
- * @returns {Promise<boolean>} - Returns true if enums were found and file was generated, false otherwise
- */
-async function generateEnumsFile(schemaContent: string): Promise<boolean> {
-  const spinner = ora(c.cyan('Generating TypeScript enums file...')).start();
-
-  try {
-    // Extract all enum definitions from the schema
-    const lines = schemaContent.split('\n');
-    const enumDefinitions: Array<{
-      variableName: string;
-      enumName: string;
-      values: string[];
-    }> = [];
-
-    // Process each line to find complete enum definitions
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line) continue;
-
-      // Find enum declarations - try custom schema pattern first, then fallback to pgEnum
-      const customEnumStartRegex =
-        new RegExp(`export const (\\w+)${SCHEMA_SUFFIX} = ${SCHEMA_VAR_NAME}\\.enum\\(['"](\\w+)['"],\\s*\\[`, 'u');
-      const customMatch = customEnumStartRegex.exec(line);
-      
-      // Fallback to standard pgEnum pattern
-      const pgEnumStartRegex = /export const (\w+) = pgEnum\(['"](\w+)['"],\s*\[/u;
-      const pgMatch = pgEnumStartRegex.exec(line);
-      
-      const match = customMatch || pgMatch;
-
-      if (match && match[1] && match[2]) {
-        const variableName = match[1];
-        const enumName = match[2];
-        const values: string[] = [];
-
-        // Check if the enum values are on a single line or span multiple lines
-        const singleLineBracketRegex = /\[(.*?)\]/u;
-        const singleLineMatch = singleLineBracketRegex.exec(line);
-
-        if (singleLineMatch && singleLineMatch[1]) {
-          // Single line enum definition
-          const valueRegex = /['"]([^'"]+)['"]/gu;
-          let valueMatch;
-          while ((valueMatch = valueRegex.exec(singleLineMatch[1])) !== null) {
-            if (valueMatch[1] && !values.includes(valueMatch[1])) {
-              values.push(valueMatch[1]);
-            }
-          }
-        } else {
-          // Multi-line enum definition
-          let bracketBalance = 1;
-          let j = i;
-
-          while (j < lines.length && bracketBalance > 0) {
-            j++;
-            const currentLine = lines[j];
-            if (!currentLine) continue;
-
-            for (
-              let charIndex = 0;
-              charIndex < currentLine.length;
-              charIndex++
-            ) {
-              const char = currentLine[charIndex];
-              if (char === '[') bracketBalance++;
-              if (char === ']') bracketBalance--;
-            }
-
-            if (bracketBalance >= 0) {
-              const valueRegex = /['"]([^'"]+)['"]/gu;
-              let valueMatch;
-              while ((valueMatch = valueRegex.exec(currentLine)) !== null) {
-                if (valueMatch[1] && !values.includes(valueMatch[1])) {
-                  values.push(valueMatch[1]);
-                }
-              }
-            }
-          }
-        }
-
-        if (values.length > 0) {
-          enumDefinitions.push({
-            variableName,
-            enumName,
-            values
-          });
-        }
-      }
-    }
-
-    if (enumDefinitions.length === 0) {
-      spinner.info(c.cyan('No enums found in the schema'));
-      return false;
-    }
-
-    // Generate the enums.ts file content
-    let enumsContent = `/**
- * Auto-generated TypeScript enums for the ${schemaName} schema.
- * Generated at: ${new Date().toISOString()}
- * Mode: ${typesOnly ? 'Types only (manual regeneration)' : 'Full schema pull + type generation'}
+ * @param {string} schema - Name of the schema being generated
+ * @returns {Reporter} - The reporter of the schema
  */
+const lineReporter = (schema: string): Reporter => (text) => {
+  const prefix = c.dim(`[${schema}]`);
+  return {
+    text,
+    succeed: (value?: string) => console.error(prefix, c.green(`✔ ${value ?? text}`)),
+    fail: (value?: string) => console.error(prefix, c.red(`✖ ${value ?? text}`)),
+    warn: (value?: string) => console.error(prefix, c.yellow(`⚠ ${value ?? text}`)),
+    info: (value?: string) => console.error(prefix, c.blue(`ℹ ${value ?? text}`)),
+  };
+};
 
-import { getArrayFromEnum } from '../../utils';
-
-`;
-
-    // Process each enum to create proper TypeScript enums
-    for (const enumDef of enumDefinitions) {
-      // Convert to PascalCase for TypeScript enum name
-      const typescriptEnumName =
-        enumDef.enumName
-          .split(/[_-]/gu)
-          .map(
-            (part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()
-          )
-          .join('') + SCHEMA_SUFFIX;
-      enumsContent += `
 /**
- * Defines the \`${enumDef.variableName}\` enum type for entities in the \`${schemaName}\`.
- */\n`;
-
-      // Create the TypeScript enum
-      enumsContent += `export enum ${typescriptEnumName} {\n`;
-
-      enumDef.values.forEach((value) => {
-        enumsContent += `  "${value}" = "${value}",\n`;
-      });
-
-      enumsContent += `}\n\n`;
-
-      // Add the enum arrays for convenience
-      enumsContent += `export const ${typescriptEnumName}Enums = [\n`;
-
-      enumDef.values.forEach((value) => {
-        enumsContent += `  "${value}",\n`;
-      });
-
-      enumsContent += `] as const;\n\n`;
+ * Prints the warnings, summary and, in check mode, the drift of a generated schema
+ *
+ * @param {string} schema - Name of the generated schema
+ * @param {GenerateResult} result - Result of the generation
+ */
+function printResult(schema: string, result: GenerateResult) {
+  for (const warning of result.warnings) {
+    console.warn(c.yellow.dim('⚠️'), c.dim(warning));
+  }
 
-      // Add the TypeScript type
-      enumsContent += `export type ${typescriptEnumName}Type = (typeof ${typescriptEnumName}Enums)[number];\n\n\n`;
-    }
+  console.log();
+  console.log(
+    c.green.bold(`✅ ${schema} schema processing completed successfully`)
+  );
+  console.log(
+    c.dim(
+      `${result.tables.length} tables${result.views.length > 0 ? `, ${result.views.length} views` : ''} and ${result.enums.length} enums processed`
+    )
+  );
 
-    // Write the enums file
-    await fs.writeFile(ENUMS_FILE, enumsContent, 'utf8');
+  if (result.planned) {
+    console.log(formatPlannedChanges(schema, result.planned));
+  }
 
-    spinner.succeed(
-      c.green(
-        `TypeScript enums generated at ${ENUMS_FILE} (${enumDefinitions.length} enums)`
-      )
+  if (result.drift.length > 0) {
+    driftDetected = true;
+    console.log(formatDrift(result.drift));
+    console.log(
+      c.yellow(`Run gen-types-enums-psql-schema ${schema} without --check to regenerate them.`)
     );
-    return true;
-  } catch (error) {
-    spinner.fail(c.red('Failed to generate enums file'));
-    throw error;
   }
 }
 
 /**
- * Processes the schema file to rename all schema-specific identifiers
- * for better readability and shorter identifiers.
+ * Writes the generated enums.ts and types.ts of a schema to standard output,
+ * each after a comment with its path. Warnings go to standard error.
  *
- * @param {string} schemaFilePath - Path to the schema file
+ * @param {GenerateResult} result - Result of a dry run
  */
-async function processSchemaFile(schemaFilePath: string) {
-  const spinner = ora(
-    c.cyan('Processing schema file to improve readability...')
-  ).start();
-
-  try {
-    // Read the schema file
-    const schemaContent = await fs.readFile(schemaFilePath, 'utf8');
-
-    // Replace schema-specific patterns
-    const searchPattern = `In${schemaName.charAt(0).toUpperCase()}${schemaName.slice(1).replace(/_([a-z])/g, (_, letter) => letter.toUpperCase())}Schema`;
-    
-    let updatedContent = '';
-    const lines = schemaContent.split('\n');
-
-    for (const line of lines) {
-      if (!line) {
-        updatedContent += '\n';
-        continue;
-      }
-
-      let updatedLine = '';
-      let index = 0;
-
-      while (index < line.length) {
-        const matchIndex = line.indexOf(searchPattern, index);
-        if (matchIndex === -1) {
-          updatedLine += line.substring(index);
-          break;
-        }
-
-        let startOfIdentifier = matchIndex;
-        while (
-          startOfIdentifier > 0 &&
-          /[a-zA-Z0-9_]/u.test(line[startOfIdentifier - 1] ?? '')
-        ) {
-          startOfIdentifier--;
-        }
-
-        const identifierPart = line.substring(startOfIdentifier, matchIndex);
-
-        if (
-          identifierPart.length > 0 &&
-          /^[a-zA-Z_][a-zA-Z0-9_]*$/u.test(identifierPart)
-        ) {
-          updatedLine += line.substring(index, startOfIdentifier);
-          updatedLine += identifierPart + SCHEMA_SUFFIX;
-          index = matchIndex + searchPattern.length;
-        } else {
-          updatedLine += line.substring(index, matchIndex + 1);
-          index = matchIndex + 1;
-        }
-      }
-
-      updatedContent += updatedLine + '\n';
-    }
-
-    // Write the updated content back to the file
-    await fs.writeFile(schemaFilePath, updatedContent, 'utf8');
-
-    spinner.succeed(c.green('Schema file processed successfully'));
-    return updatedContent;
-  } catch (error) {
-    spinner.fail(c.red('Failed to process schema file'));
-    throw error;
+function printContents(result: GenerateResult) {
+  for (const warning of result.warnings) {
+    console.warn(c.yellow.dim('⚠️'), c.dim(warning));
+  }
+  for (const [path, content] of Object.entries(result.contents ?? {})) {
+    if (!/(?:^|[\\/])(?:enums|types)\.ts$/u.test(path)) continue;
+    process.stdout.write(`// ${path}\n${content}${content.endsWith('\n') ? '' : '\n'}`);
   }
 }
 
-// Add processSchema wrapper
+/**
+ * Generates one schema and prints the result
+ *
+ * @param {string} schema - Name of the schema to process
+ */
 async function processSchema(schema: string) {
-  // Set schemaName and all relevant variables for this schema
-  // Use the same logic as main(), but for the given schema
-  // Use removeSchema and disableEslint flags as needed
-  // Copy the body of main() here, replacing schemaName with schema
-
-  // Set schemaName and all relevant variables for this schema
-  const schemaName: string = schema;
-  const CONFIG_FILE_ORIGINAL = `./db.config.${schemaName}.ts`;
-  const TEMPLATE_CONFIG_FILE_ORIGINAL = './db.config.ts';
-  const MIGRATIONS_DIR_ORIGINAL = `./schemas/${schemaName}/migrations`;
-  const SCHEMA_FILE_ORIGINAL = join(MIGRATIONS_DIR_ORIGINAL, 'schema.ts');
-  const FINAL_SCHEMA_FILE_ORIGINAL = `./schemas/${schemaName}/schema.ts`;
-  const META_DIR_ORIGINAL = join(MIGRATIONS_DIR_ORIGINAL, 'meta');
-  const TYPES_FILE_ORIGINAL = `./schemas/${schemaName}/types.ts`;
-  const INDEX_FILE_ORIGINAL = `./schemas/${schemaName}/index.ts`;
-  const ENUMS_FILE_ORIGINAL = `./schemas/${schemaName}/enums.ts`;
-
-  // Schema variable name mappings
-  const SCHEMA_VAR_NAME_ORIGINAL = `${schemaName}Schema`;
-  const SCHEMA_SUFFIX_ORIGINAL = schemaName.charAt(0).toUpperCase() + schemaName.slice(1).replace(/_([a-z])/g, (_, letter) => letter.toUpperCase()) + 'S';
-
-  // Path constants - now dynamic based on schema name
-  const CONFIG_FILE = `./db.config.${schemaName}.ts`;
-  const TEMPLATE_CONFIG_FILE = './db.config.ts';
-  const MIGRATIONS_DIR = `./schemas/${schemaName}/migrations`;
-  const SCHEMA_FILE = join(MIGRATIONS_DIR, 'schema.ts');
-  const FINAL_SCHEMA_FILE = `./schemas/${schemaName}/schema.ts`;
-  const META_DIR = join(MIGRATIONS_DIR, 'meta');
-  const TYPES_FILE = `./schemas/${schemaName}/types.ts`;
-  const INDEX_FILE = `./schemas/${schemaName}/index.ts`;
-  const ENUMS_FILE = `./schemas/${schemaName}/enums.ts`;
-
-  // Schema variable name mappings
-  const SCHEMA_VAR_NAME = `${schemaName}Schema`;
-  const SCHEMA_SUFFIX = schemaName.charAt(0).toUpperCase() + schemaName.slice(1).replace(/_([a-z])/g, (_, letter) => letter.toUpperCase()) + 'S';
-
-  // Create the config file if it doesn't exist
-  await createConfigFile();
-
-  // Only run the schema pull if not in types-only mode
-  if (!typesOnly) {
-    const pullSpinner = ora(
-      c.cyan(`Fetching ${schemaName} schema from database...`)
-    ).start();
-
-    try {
-      const { stderr } = await execAsync(
-        `drizzle-kit pull --config=${CONFIG_FILE}`
-      );
-
-      if (stderr && !stderr.includes('[i] No SQL generated')) {
-        pullSpinner.warn(c.yellow('Schema pulled with warnings'));
-      } else {
-        pullSpinner.succeed(c.green('Schema pulled successfully'));
-      }
-
-      // Process the schema file to rename identifiers
-      await processSchemaFile(SCHEMA_FILE);
-    } catch (error) {
-      pullSpinner.fail(c.red('Failed to pull schema'));
-      throw error;
-    }
+  const result = await generate({
+    ...flagOptions,
+    schema,
+    typesOnly,
+    check: checkMode,
+    dryRun: dryRun || stdoutMode,
+    config,
+    reporter: spinnerReporter,
+  });
+  if (stdoutMode) {
+    printContents(result);
+  } else {
+    printResult(schema, result);
   }
+}
 
-  // Check if the schema file exists - in types-only mode, check the final location first
-  const schemaAccessSpinner = ora(c.cyan('Verifying schema file...')).start();
-  let schemaContent: string;
-  let schemaFilePath: string;
-
-  try {
-    // In types-only mode, try to read from the final location first
-    if (typesOnly) {
-      try {
-        await fs.access(FINAL_SCHEMA_FILE);
-        schemaContent = await fs.readFile(FINAL_SCHEMA_FILE, 'utf8');
-        schemaFilePath = FINAL_SCHEMA_FILE;
-        schemaAccessSpinner.succeed(
-          c.green(`Found schema file at ${FINAL_SCHEMA_FILE}`)
-        );
-      } catch {
-        // If not found in final location, try the migrations directory
-        await fs.access(SCHEMA_FILE);
-        schemaContent = await fs.readFile(SCHEMA_FILE, 'utf8');
-        schemaFilePath = SCHEMA_FILE;
-        schemaAccessSpinner.succeed(
-          c.green(`Found schema file at ${SCHEMA_FILE}`)
-        );
-      }
-    } else {
-      // In full mode, the file is expected to be in the migrations directory
-      await fs.access(SCHEMA_FILE);
-      schemaContent = await fs.readFile(SCHEMA_FILE, 'utf8');
-      schemaFilePath = SCHEMA_FILE;
-      schemaAccessSpinner.succeed(
-        c.green(`Found schema file at ${SCHEMA_FILE}`)
-      );
+/**
+ * Starts watching one schema, printing the result of every regeneration
+ *
+ * @param {string} schema - Name of the schema to watch
+ * @returns {Promise<Watcher>} - The running watch
+ */
+function watchSchema(schema: string): Promise<Watcher> {
+  return watch(
+    { ...flagOptions, schema, typesOnly, config, reporter: spinnerReporter },
+    {
+      interval: watchInterval * 1000,
+      onChange: (reason) => console.log(c.magenta(`\n↻ ${reason}, regenerating ${schema}...`)),
+      onResult: (result) => printResult(schema, result),
+      onError: (error) => console.error(c.red(`✖ ${schema}: ${error instanceof Error ? error.message : String(error)}`)),
     }
-  } catch {
-    schemaAccessSpinner.fail(
-      c.red(`Schema file not found in either location`)
-    );
-    throw new Error(
-      `Schema file not found. Run without --types-only to generate it first.`
-    );
-  }
+  );
+}
 
-  // In types-only mode, process the schema file if needed
-  const searchPattern = `In${schemaName.charAt(0).toUpperCase()}${schemaName.slice(1).replace(/_([a-z])/g, (_, letter) => letter.toUpperCase())}Schema`;
-  if (typesOnly && schemaContent.includes(searchPattern)) {
-    schemaContent = await processSchemaFile(schemaFilePath);
+/**
+ * Prints the schema changes of one schema since its last saved generation
+ *
+ * @param {string} schema - Name of the compared schema
+ * @param {GenerateResult} result - Result of the check run, with the changes
+ * @returns {{ schema: string; breaking: number; changes: SchemaChange[] }} - The change report
+ */
+function reportSchemaChanges(schema: string, result: GenerateResult): { schema: string; breaking: number; changes: SchemaChange[] } {
+  const changes = result.changes!;
+  for (const warning of result.warnings) {
+    console.warn(c.yellow.dim('⚠️'), c.dim(warning));
   }
 
-  // Generate the enums.ts file
-  const enumsGenerated = await generateEnumsFile(schemaContent);
+  if (!jsonOutput) {
+    console.log();
+    console.log(formatSchemaChanges(schema, changes));
+  }
+  return { schema, breaking: changes.filter((change) => change.breaking).length, changes };
+}
 
-  // Find the snapshot file
-  let snapshotFile;
+let schemaNames: string[] = [schemaNameArg!];
+const schemasDir = toPosixPath(flagOptions.outDir ?? config.outDir ?? './schemas');
 
-  const metaSpinner = ora(c.cyan('Looking for metadata...')).start();
+if (allFlag && config.schemas) {
+  // Use the configured schemas as they are
+  schemaNames = config.schemas;
+} else if (allFlag && typesOnly) {
+  // Without the database, find all schema directories in the output directory
   try {
-    const metaFiles = await fs.readdir(META_DIR);
-    snapshotFile = metaFiles.find((file) => file.endsWith('_snapshot.json'));
-
-    if (snapshotFile) {
-      metaSpinner.succeed(
-        c.green(`Found metadata snapshot at ${join(META_DIR, snapshotFile)}`)
-      );
-    } else {
-      metaSpinner.info(
-        c.blue('No metadata snapshot found, will use schema.ts directly')
-      );
-    }
-  } catch {
-    metaSpinner.info(
-      c.blue('No metadata directory found, will use schema.ts directly')
-    );
+    schemaNames = (await fs.readdir(schemasDir, { withFileTypes: true }))
+      .filter(dirent => dirent.isDirectory())
+      .map(dirent => dirent.name);
+  } catch (e) {
+    console.error(c.red(`No schemas directory found at ${schemasDir}.`));
+    process.exit(1);
   }
+} else if (allFlag && (flagOptions.fromSql ?? config.fromSql)) {
+  // Without the database, find the schemas the SQL file creates tables or types in
+  const sqlFile = flagOptions.fromSql ?? config.fromSql!;
+  try {
+    schemaNames = readSqlSchemaNames(await fs.readFile(sqlFile, 'utf8'));
+  } catch (error) {
+    console.error(c.red(`Could not read ${sqlFile}: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+} else if (allFlag) {
+  // Ask the database which schemas exist
+  const { connectionEnv, connectionString } = resolveConnection(config);
+  if (!connectionString) {
+    console.error(c.red(`${connectionEnv} environment variable is required to find the schemas of the database. Set it, list the schemas in the config file or use --types-only.`));
+    process.exit(1);
+  }
+  const discoverSpinner = spinnerReporter('Finding the schemas of the database...');
+  try {
+    schemaNames = await listDatabaseSchemas(connectionString);
+    discoverSpinner.succeed(`Found ${schemaNames.length} schemas in the database`);
+  } catch (error) {
+    discoverSpinner.fail(`Could not list the schemas of the database: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
 
-  // Process the generated schema to create types
-  const typesSpinner = ora(
-    c.cyan('Generating TypeScript types from schema...')
-  ).start();
-
-  // Extract table and enum names more safely
-  const tableMatches: string[] = [];
-  const enumMatches: string[] = [];
-
-  // Process the schema line by line
-  const schemaLines = schemaContent.split('\n');
-  for (const line of schemaLines) {
-    if (!line) continue;
-
-    // Find table declarations - try custom schema pattern first, then fallback to pgTable
-    const customTableRegex = new RegExp(`export const (\\w+)${SCHEMA_SUFFIX} = ${SCHEMA_VAR_NAME}\\.table\\(`, 'u');
-    const customTableMatch = customTableRegex.exec(line);
-    
-    if (customTableMatch && customTableMatch[1]) {
-      tableMatches.push(customTableMatch[1]);
-    } else {
-      // Fallback to standard pgTable pattern
-      const pgTableRegex = /export const (\w+) = pgTable\(/u;
-      const pgTableMatch = pgTableRegex.exec(line);
-      if (pgTableMatch && pgTableMatch[1]) {
-        tableMatches.push(pgTableMatch[1]);
-      }
-    }
+if (allFlag && !config.schemas) {
+  const excludedSchemas = flagValue('exclude-schemas') !== undefined
+    ? splitPatterns(flagValue('exclude-schemas')!)
+    : config.excludeSchemas ?? [];
+  schemaNames = excludeSchemas(schemaNames, excludedSchemas);
+  if (schemaNames.length === 0) {
+    console.error(c.red('No schemas left to generate.'));
+    process.exit(1);
+  }
+}
 
-    // Find enum declarations - try custom schema pattern first, then fallback to pgEnum
-    const customEnumRegex = new RegExp(`export const (\\w+)${SCHEMA_SUFFIX} = ${SCHEMA_VAR_NAME}\\.enum\\(`, 'u');
-    const customEnumMatch = customEnumRegex.exec(line);
-    
-    if (customEnumMatch && customEnumMatch[1]) {
-      enumMatches.push(customEnumMatch[1]);
+if (diffCommand) {
+  // Like generation, a schema that fails does not stop the others
+  const outcomes = (await generateAll({ ...flagOptions, check: true, config }, schemaNames, {
+    // One at a time, so that the spinners do not overwrite each other
+    concurrency: 1,
+    // Keep stdout clean for the JSON report
+    reporter: jsonOutput ? undefined : () => spinnerReporter,
+  })).map((outcome): SchemaOutcome => {
+    if (!outcome.result || outcome.result.changes) return outcome;
+    const { schema, duration } = outcome;
+    return { schema, duration, error: new Error(`No saved generation of ${schema} found. Run gen-types-enums-psql-schema ${schema} first.`) };
+  });
+
+  const reports: Array<ReturnType<typeof reportSchemaChanges> | { schema: string; error: string }> = [];
+  for (const { schema, result, error } of outcomes) {
+    if (error) {
+      console.error(c.red(`✖ ${schema}: ${error.message}`));
+      reports.push({ schema, error: error.message });
     } else {
-      // Fallback to standard pgEnum pattern
-      const pgEnumRegex = /export const (\w+) = pgEnum\(/u;
-      const pgEnumMatch = pgEnumRegex.exec(line);
-      if (pgEnumMatch && pgEnumMatch[1]) {
-        enumMatches.push(pgEnumMatch[1]);
-      }
+      reports.push(reportSchemaChanges(schema, result!));
     }
   }
 
-  if (tableMatches.length === 0 && enumMatches.length === 0) {
-    typesSpinner.fail(c.red('No tables or enums found in the schema'));
-    throw new Error(
-      'Could not find any tables or enums in the schema. The schema file may be invalid.'
-    );
+  const failed = outcomes.some((outcome) => outcome.error);
+  if (jsonOutput && (allFlag || !failed)) {
+    console.log(JSON.stringify(allFlag ? reports : reports[0], null, 2));
   }
-
-  typesSpinner.text = c.cyan(
-    `Found ${c.bold(tableMatches.length.toString())} tables and ${c.bold(enumMatches.length.toString())} enums in the schema`
-  );
-
-  // Create the TypeScript types content
-  let typesContent = `/**
- * This file is auto-generated from the database schema using gen-types-enums-psql-schema.
- * Do not modify this file directly - instead, run the script again.
- * 
- * Generated at: ${new Date().toISOString()}
- * Schema: ${schemaName}
- * Mode: ${typesOnly ? 'Types only (manual regeneration)' : 'Full schema pull + type generation'}
- */
-
-import { type TableInsert, type TableSelect } from '../../utils';
-import type * as schema from './schema';
-
-// Export generated schema
-export * from './schema';
-${enumsGenerated ? '\nexport * from \'./enums\';' : ''}
-
-// Generate TypeScript types for all tables
-`;
-
-  // Add table types
-  for (const tableName of tableMatches) {
-    const pascalName = tableName
-      .split('_')
-      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
-      .join('');
-
-    // Check if this table uses the custom schema pattern or standard pgTable
-    const usesCustomSchema = schemaContent.includes(`${tableName}${SCHEMA_SUFFIX} = ${SCHEMA_VAR_NAME}.table(`);
-    const tableReference = usesCustomSchema ? `${tableName}${SCHEMA_SUFFIX}` : tableName;
-
-    typesContent += `
-/**
- * Defines the \`${pascalName}\` type for entities in the \`${schemaName}\`.
- */
-export type ${pascalName} = TableSelect<typeof schema.${tableReference}>;
-export type ${pascalName}Insert = TableInsert<typeof schema.${tableReference}>;
-`;
+  if (allFlag) {
+    // Keep standard output to the JSON report with --json
+    const summary = formatSummary(outcomes);
+    if (jsonOutput) console.error(`\n${summary}`);
+    else console.log(`\n${summary}`);
   }
-
-  // Add enum types
-  typesContent += `
-// Generate TypeScript types for all enums
-`;
-
-  for (const enumName of enumMatches) {
-    const pascalName = enumName
-      .split('_')
-      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
-      .join('');
-
-    // Check if this enum uses the custom schema pattern or standard pgEnum
-    const usesCustomSchema = schemaContent.includes(`${enumName}${SCHEMA_SUFFIX} = ${SCHEMA_VAR_NAME}.enum(`);
-    const enumReference = usesCustomSchema ? `${enumName}${SCHEMA_SUFFIX}` : enumName;
-
-    typesContent += `
-/**
- * Defines the \`${pascalName}\` enum type for entities in the \`${schemaName}\`.
- */
-export type ${pascalName}Type = typeof schema.${enumReference}.enumValues[number];
-`;
+  process.exit(failed ? 1 : 0);
+} else if (watchMode) {
+  const watchers: Watcher[] = [];
+  for (const schema of schemaNames) {
+    watchers.push(await watchSchema(schema));
   }
-
-  // Write the types file
-  await fs.writeFile(TYPES_FILE, typesContent, 'utf8');
-  typesSpinner.succeed(
-    c.green(`TypeScript types generated at ${TYPES_FILE}`)
-  );
-
-  // Create an index.ts file to export everything
-  const indexSpinner = ora(c.cyan('Creating index file...')).start();
-  const indexContent = `/**
- * This file exports all types and schema components for the ${schemaName} schema.
- * 
- * Generated at: ${new Date().toISOString()}
- */
-
-export * from './types';
-export * from './schema';${enumsGenerated ? '\nexport * from \'./enums\';' : ''}
-`;
-
-  await fs.writeFile(INDEX_FILE, indexContent, 'utf8');
-  indexSpinner.succeed(c.green(`Index file generated at ${INDEX_FILE}`));
-
-  // Move schema file and cleanup migrations directory only in full mode
-  if (!typesOnly) {
-    const moveSpinner = ora(
-      c.cyan('Moving schema file and cleaning up...')
-    ).start();
-    try {
-      // Copy schema.ts to the final location
-      await fs.copyFile(SCHEMA_FILE, FINAL_SCHEMA_FILE);
-      moveSpinner.text = c.cyan(
-        'Schema file copied, removing migrations directory...'
-      );
-
-      // Delete the migrations directory
-      const removeDirRecursive = async (path: string) => {
-        try {
-          const entries = await fs.readdir(path, { withFileTypes: true });
-
-          for (const entry of entries) {
-            const fullPath = join(path, entry.name);
-            if (entry.isDirectory()) {
-              await removeDirRecursive(fullPath);
-            } else {
-              await fs.unlink(fullPath);
-            }
-          }
-
-          await fs.rmdir(path);
-        } catch (error) {
-          // Ignore errors if directory doesn't exist
-          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-            throw error;
-          }
-        }
-      };
-
-      await removeDirRecursive(MIGRATIONS_DIR);
-      moveSpinner.succeed(
-        c.green('Schema file moved and migrations directory removed')
-      );
-    } catch (error) {
-      moveSpinner.fail(
-        c.red('Failed to move schema file or clean up migrations directory')
-      );
-      console.error(c.red(String(error)));
-    }
+  console.log(c.cyan.bold(`\n👀 Watching ${schemaNames.join(', ')} for changes. Press Ctrl+C to stop.`));
+
+  process.on('SIGINT', async () => {
+    await Promise.all(watchers.map((watcher) => watcher.close()));
+    process.exit(0);
+  });
+} else if (allFlag) {
+  const concurrency = Number(concurrencyArg ?? config.concurrency ?? DEFAULT_CONCURRENCY);
+  if (!stdoutMode) {
+    console.log(c.cyan.bold(`Generating ${schemaNames.length} schemas, ${Math.min(concurrency, schemaNames.length)} at a time: ${schemaNames.join(', ')}`));
   }
 
-  // Run eslint --fix on the generated files
-  const lintSpinner = ora(
-    c.cyan('Running ESLint to fix any style issues...')
-  ).start();
-  try {
-    const { stderr } = await execAsync(
-      `npx eslint ./schemas/${schemaName} --fix`
-    );
-
-    if (stderr && stderr.trim() !== '') {
-      lintSpinner.warn(c.yellow('ESLint completed with warnings'));
-      console.warn(c.yellow.dim('⚠️ ESLint warnings:'), c.dim(stderr));
-    } else {
-      lintSpinner.succeed(c.green('ESLint fixes applied successfully'));
+  const outcomes = await generateAll(
+    { ...flagOptions, typesOnly, check: checkMode, dryRun: dryRun || stdoutMode, config },
+    schemaNames,
+    {
+      concurrency,
+      // Spinners of schemas generated at the same time would overwrite each other
+      reporter: concurrency > 1 ? lineReporter : () => spinnerReporter,
+      onOutcome: ({ schema, result, error }) => {
+        if (error) {
+          console.error(c.red(`✖ ${schema}: ${error.message}`));
+        } else if (stdoutMode) {
+          printContents(result!);
+        } else {
+          printResult(schema, result!);
+        }
+      },
     }
-  } catch (error) {
-    lintSpinner.warn(
-      c.yellow('ESLint encountered issues but processing will continue')
-    );
-    console.warn(
-      c.yellow.dim('⚠️ ESLint errors:'),
-      c.dim(error instanceof Error ? error.message : String(error))
-    );
-  }
-
-  console.log();
-  console.log(
-    c.green.bold(`✅ ${schemaName} schema processing completed successfully`)
-  );
-  console.log(
-    c.dim(
-      `${tableMatches.length} tables and ${enumMatches.length} enums processed`
-    )
   );
 
-  // In processSchema, after generating enums and types, if removeSchema is true, delete schema.ts
-  if (removeSchema) {
-    const removeSchemaSpinner = ora(c.cyan('Removing schema.ts...')).start();
-    try {
-      await fs.unlink(FINAL_SCHEMA_FILE);
-      removeSchemaSpinner.succeed(c.green(`Schema.ts removed at ${FINAL_SCHEMA_FILE}`));
-    } catch (error) {
-      removeSchemaSpinner.fail(c.red(`Failed to remove schema.ts at ${FINAL_SCHEMA_FILE}`));
-      console.error(c.red(String(error)));
+  // Link foreign keys between the schemas and re-export them all from one place
+  if (!checkMode && !dryRun && !stdoutMode) {
+    const { rootIndex, warnings } = await linkSchemas({ ...flagOptions, config }, schemaNames, schemasDir);
+    for (const warning of warnings) {
+      console.warn(c.yellow.dim('⚠️'), c.dim(warning));
+    }
+    if (rootIndex) {
+      console.log(c.green(`✔ Root index generated at ${rootIndex}`));
     }
   }
 
-  // If disableEslint is true, skip the ESLint step
-  if (disableEslint) {
-    lintSpinner.info(c.yellow('Skipping ESLint step as requested.'));
+  // Keep standard output to the generated content with --stdout
+  const summary = formatSummary(outcomes);
+  if (stdoutMode) {
+    console.error(`\n${summary}`);
+  } else {
+    console.log(`\n${summary}`);
   }
-}
-
-if (allFlag) {
-  // Find all schema directories in ./schemas
-  const schemasDir = './schemas';
-  let schemaDirs: string[] = [];
+  process.exit(driftDetected || outcomes.some((outcome) => outcome.error) ? 1 : 0);
+} else {
   try {
-    schemaDirs = (await fs.readdir(schemasDir, { withFileTypes: true }))
-      .filter(dirent => dirent.isDirectory())
-      .map(dirent => dirent.name);
-  } catch (e) {
-    console.error(c.red('No schemas directory found.'));
-    process.exit(1);
+    await processSchema(schemaNameArg!);
+  } catch (error) {
+    // The failed step has been reported by its spinner already
+    console.error(c.red(`✖ ${schemaNameArg}: ${error instanceof Error ? error.message : String(error)}`));
+    process.exitCode = 1;
   }
-  for (const schema of schemaDirs) {
-    await processSchema(schema);
+
+  if (checkMode) {
+    process.exit(driftDetected ? 1 : process.exitCode);
   }
-  process.exit(0);
 }
-
-// Replace main() with processSchema(schemaName)
-processSchema(schemaName);
@@ -0,0 +1,608 @@
+/**
+ * Builds a {@link SchemaModel} straight from the PostgreSQL catalog, without
+ * drizzle-kit. Used by `--introspect=native`, and for the composite types and
+ * domains that drizzle-kit does not pull.
+ */
+
+import pg from 'pg';
+import type {
+  ColumnModel,
+  CompositeTypeModel,
+  DomainModel,
+  EnumModel,
+  ForeignKeyModel,
+  ReferentialAction,
+  SchemaModel,
+  TableModel,
+  ViewModel,
+} from './model.js';
+import { camelCase } from './naming.js';
+
+/**
+ * The subset of a `pg` client used for introspection. A `pg.Client` or
+ * `pg.Pool` satisfies it, and so does a fixture that returns canned rows.
+ */
+export interface CatalogClient {
+  query<R extends object>(text: string, values?: unknown[]): Promise<{ rows: R[] }>;
+}
+
+interface EnumRow {
+  enum_name: string;
+  value: string;
+}
+
+interface ColumnRow {
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  udt_name: string;
+  is_nullable: 'YES' | 'NO';
+  column_default: string | null;
+  is_identity: 'YES' | 'NO';
+  is_generated: 'ALWAYS' | 'NEVER';
+  character_maximum_length: number | null;
+  numeric_precision: number | null;
+  numeric_scale: number | null;
+  domain_name: string | null;
+}
+
+/**
+ * A column of a view, materialized view or composite type, in the shape of a
+ * table column row.
+ */
+interface AttributeRow extends ColumnRow {
+  relkind: 'v' | 'm' | 'c';
+}
+
+interface ConstraintRow {
+  constraint_name: string;
+  constraint_type: 'p' | 'f' | 'u' | 'c';
+  table_name: string;
+  /** `pg_get_constraintdef` output, e.g. `CHECK ((price > 0))` */
+  definition: string;
+  columns: string[];
+  foreign_schema: string | null;
+  foreign_table: string | null;
+  foreign_columns: string[] | null;
+  on_delete: string | null;
+  on_update: string | null;
+}
+
+/**
+ * A `COMMENT ON` entry of a table, column or type.
+ */
+export interface CommentRow {
+  kind: 'table' | 'column' | 'type';
+  object_name: string;
+  column_name: string | null;
+  description: string;
+}
+
+interface IndexRow {
+  index_name: string;
+  table_name: string;
+  is_unique: boolean;
+  method: string;
+  columns: string[];
+}
+
+const ENUMS_QUERY = `
+select t.typname as enum_name, e.enumlabel as value
+from pg_type t
+join pg_enum e on e.enumtypid = t.oid
+join pg_namespace n on n.oid = t.typnamespace
+where n.nspname = $1
+order by t.typname, e.enumsortorder`;
+
+const COLUMNS_QUERY = `
+select c.table_name, c.column_name, c.data_type, c.udt_name, c.is_nullable, c.column_default,
+  c.is_identity, c.is_generated, c.character_maximum_length, c.numeric_precision, c.numeric_scale, c.domain_name
+from information_schema.columns c
+join information_schema.tables t on t.table_schema = c.table_schema and t.table_name = c.table_name
+where c.table_schema = $1 and t.table_type = 'BASE TABLE'
+order by c.table_name, c.ordinal_position`;
+
+// Views and materialized views are not fully covered by information_schema, so
+// their columns and those of composite types are read from pg_attribute
+const ATTRIBUTES_QUERY = `
+select c.relname as table_name, c.relkind, a.attname as column_name,
+  case when coalesce(bt.typcategory, t.typcategory) = 'A' then 'ARRAY' else 'USER-DEFINED' end as data_type,
+  coalesce(bt.typname, t.typname) as udt_name,
+  case when a.attnotnull then 'NO' else 'YES' end as is_nullable,
+  null as column_default, 'NO' as is_identity, 'NEVER' as is_generated,
+  case when coalesce(bt.typname, t.typname) in ('varchar', 'bpchar', '_varchar', '_bpchar') and greatest(a.atttypmod, t.typtypmod) > 4
+    then greatest(a.atttypmod, t.typtypmod) - 4 end as character_maximum_length,
+  case when coalesce(bt.typname, t.typname) in ('numeric', '_numeric') and greatest(a.atttypmod, t.typtypmod) > 4
+    then ((greatest(a.atttypmod, t.typtypmod) - 4) >> 16) & 65535 end as numeric_precision,
+  case when coalesce(bt.typname, t.typname) in ('numeric', '_numeric') and greatest(a.atttypmod, t.typtypmod) > 4
+    then (greatest(a.atttypmod, t.typtypmod) - 4) & 65535 end as numeric_scale,
+  case when t.typtype = 'd' then t.typname end as domain_name
+from pg_attribute a
+join pg_class c on c.oid = a.attrelid
+join pg_namespace n on n.oid = c.relnamespace
+join pg_type t on t.oid = a.atttypid
+left join pg_type bt on t.typtype = 'd' and bt.oid = t.typbasetype
+where n.nspname = $1 and c.relkind in ('v', 'm', 'c') and a.attnum > 0 and not a.attisdropped
+order by c.relname, a.attnum`;
+
+// Domains in the shape of a column row, named after the domain
+const DOMAINS_QUERY = `
+select '' as table_name, d.domain_name as column_name, d.data_type, d.udt_name,
+  case when t.typnotnull then 'NO' else 'YES' end as is_nullable,
+  null as column_default, 'NO' as is_identity, 'NEVER' as is_generated,
+  d.character_maximum_length, d.numeric_precision, d.numeric_scale, null as domain_name
+from information_schema.domains d
+join pg_namespace n on n.nspname = d.domain_schema
+join pg_type t on t.typnamespace = n.oid and t.typname = d.domain_name
+where d.domain_schema = $1
+order by d.domain_name`;
+
+const CONSTRAINTS_QUERY = `
+select con.conname as constraint_name, con.contype as constraint_type, c.relname as table_name,
+  array(
+    select a.attname from unnest(con.conkey) with ordinality k(attnum, ord)
+    join pg_attribute a on a.attrelid = con.conrelid and a.attnum = k.attnum
+    order by k.ord
+  )::text[] as columns,
+  fn.nspname as foreign_schema, fc.relname as foreign_table,
+  array(
+    select a.attname from unnest(con.confkey) with ordinality k(attnum, ord)
+    join pg_attribute a on a.attrelid = con.confrelid and a.attnum = k.attnum
+    order by k.ord
+  )::text[] as foreign_columns,
+  con.confdeltype as on_delete, con.confupdtype as on_update, pg_get_constraintdef(con.oid) as definition
+from pg_constraint con
+join pg_class c on c.oid = con.conrelid
+join pg_namespace n on n.oid = c.relnamespace
+left join pg_class fc on fc.oid = con.confrelid
+left join pg_namespace fn on fn.oid = fc.relnamespace
+where n.nspname = $1 and con.contype in ('p', 'f', 'u', 'c')
+order by c.relname, con.conname`;
+
+const INDEXES_QUERY = `
+select ic.relname as index_name, c.relname as table_name, i.indisunique as is_unique, am.amname as method,
+  array(
+    select a.attname from unnest(i.indkey::int2[]) with ordinality k(attnum, ord)
+    join pg_attribute a on a.attrelid = i.indrelid and a.attnum = k.attnum
+    order by k.ord
+  )::text[] as columns
+from pg_index i
+join pg_class ic on ic.oid = i.indexrelid
+join pg_class c on c.oid = i.indrelid
+join pg_namespace n on n.oid = c.relnamespace
+join pg_am am on am.oid = ic.relam
+where n.nspname = $1
+  and not exists (select 1 from pg_constraint con where con.conindid = i.indexrelid)
+order by c.relname, ic.relname`;
+
+const COMMENTS_QUERY = `
+select
+  case when d.classoid = 'pg_type'::regclass then 'type' when d.objsubid > 0 then 'column' else 'table' end as kind,
+  coalesce(c.relname, t.typname) as object_name, a.attname as column_name, d.description
+from pg_description d
+left join pg_class c on d.classoid = 'pg_class'::regclass and c.oid = d.objoid
+left join pg_type t on d.classoid = 'pg_type'::regclass and t.oid = d.objoid
+left join pg_attribute a on a.attrelid = c.oid and a.attnum = d.objsubid and d.objsubid > 0
+join pg_namespace n on n.oid = coalesce(c.relnamespace, t.typnamespace)
+where n.nspname = $1`;
+
+const SCHEMAS_QUERY = `
+select n.nspname as schema_name
+from pg_namespace n
+where n.nspname not in ('pg_catalog', 'information_schema', 'pg_toast')
+  and n.nspname not like 'pg\\_temp\\_%' and n.nspname not like 'pg\\_toast\\_temp\\_%'
+  -- Schemas created by an extension, e.g. cron or topology
+  and not exists (
+    select 1 from pg_depend d
+    where d.classid = 'pg_namespace'::regclass and d.objid = n.oid and d.deptype = 'e'
+  )
+  -- Schemas that only hold the objects of extensions installed into them, e.g. extensions
+  and not (
+    exists (select 1 from pg_extension e where e.extnamespace = n.oid)
+    and not exists (
+      select 1 from pg_class c
+      where c.relnamespace = n.oid and c.relkind in ('r', 'p', 'v', 'm', 'f')
+        and not exists (
+          select 1 from pg_depend d
+          where d.classid = 'pg_class'::regclass and d.objid = c.oid and d.deptype = 'e'
+        )
+    )
+  )
+order by n.nspname`;
+
+const FINGERPRINT_QUERY = `
+select md5(coalesce(string_agg(entry, E'\\n' order by entry), '')) as fingerprint
+from (
+  select 'column:' || c.relname || '.' || a.attname || ':' || format_type(a.atttypid, a.atttypmod) || ':'
+    || a.attnotnull || ':' || coalesce(pg_get_expr(d.adbin, d.adrelid), '') as entry
+  from pg_attribute a
+  join pg_class c on c.oid = a.attrelid
+  join pg_namespace n on n.oid = c.relnamespace
+  left join pg_attrdef d on d.adrelid = a.attrelid and d.adnum = a.attnum
+  where n.nspname = $1 and c.relkind in ('r', 'p', 'v', 'm', 'f', 'c') and a.attnum > 0 and not a.attisdropped
+  union all
+  select 'domain:' || t.typname || ':' || format_type(t.typbasetype, t.typtypmod) || ':' || t.typnotnull
+  from pg_type t
+  join pg_namespace n on n.oid = t.typnamespace
+  where n.nspname = $1 and t.typtype = 'd'
+  union all
+  select 'constraint:' || c.relname || '.' || con.conname || ':' || pg_get_constraintdef(con.oid)
+  from pg_constraint con
+  join pg_class c on c.oid = con.conrelid
+  join pg_namespace n on n.oid = c.relnamespace
+  where n.nspname = $1
+  union all
+  select 'index:' || ic.relname || ':' || pg_get_indexdef(i.indexrelid)
+  from pg_index i
+  join pg_class ic on ic.oid = i.indexrelid
+  join pg_namespace n on n.oid = ic.relnamespace
+  where n.nspname = $1
+  union all
+  select 'enum:' || t.typname || ':' || e.enumsortorder || ':' || e.enumlabel
+  from pg_enum e
+  join pg_type t on t.oid = e.enumtypid
+  join pg_namespace n on n.oid = t.typnamespace
+  where n.nspname = $1
+  union all
+  select 'comment:' || d.classoid::regclass::text || ':' || d.objoid || ':' || d.objsubid || ':' || d.description
+  from pg_description d
+  left join pg_class c on d.classoid = 'pg_class'::regclass and c.oid = d.objoid
+  left join pg_type t on d.classoid = 'pg_type'::regclass and t.oid = d.objoid
+  join pg_namespace n on n.oid = coalesce(c.relnamespace, t.typnamespace)
+  where n.nspname = $1
+) entries`;
+
+/**
+ * PostgreSQL type names (`udt_name`) mapped to Drizzle column builder names.
+ */
+export const DATA_TYPES: Record<string, string> = {
+  int2: 'smallint',
+  int4: 'integer',
+  int8: 'bigint',
+  float4: 'real',
+  float8: 'doublePrecision',
+  numeric: 'numeric',
+  bool: 'boolean',
+  text: 'text',
+  varchar: 'varchar',
+  bpchar: 'char',
+  uuid: 'uuid',
+  json: 'json',
+  jsonb: 'jsonb',
+  date: 'date',
+  time: 'time',
+  timetz: 'time',
+  timestamp: 'timestamp',
+  timestamptz: 'timestamp',
+  interval: 'interval',
+  inet: 'inet',
+  cidr: 'cidr',
+  macaddr: 'macaddr',
+  macaddr8: 'macaddr8',
+  bit: 'bit',
+  varbit: 'varbit',
+  point: 'point',
+  line: 'line',
+  vector: 'vector',
+  tsvector: 'tsvector',
+  citext: 'citext',
+};
+
+/**
+ * Integer builder names mapped to the serial builder used when the default is `nextval(...)`.
+ */
+export const SERIAL_TYPES: Record<string, string> = {
+  smallint: 'smallserial',
+  integer: 'serial',
+  bigint: 'bigserial',
+};
+
+const REFERENTIAL_ACTIONS: Record<string, ReferentialAction> = {
+  a: 'no action',
+  r: 'restrict',
+  c: 'cascade',
+  n: 'set null',
+  d: 'set default',
+};
+
+/**
+ * Builds a column model from an `information_schema.columns` row.
+ */
+function toColumnModel(row: ColumnRow, enumNames: Set<string>, customTypeNames: Set<string>): ColumnModel {
+  const isArray = row.data_type === 'ARRAY';
+  const udtName = isArray ? row.udt_name.replace(/^_/u, '') : row.udt_name;
+  const isEnum = enumNames.has(udtName);
+  const defaultValue = row.column_default ?? undefined;
+
+  let dataType = isEnum ? 'enum' : DATA_TYPES[udtName] ?? udtName;
+  if (defaultValue?.startsWith('nextval(') && SERIAL_TYPES[dataType]) {
+    dataType = SERIAL_TYPES[dataType]!;
+  }
+
+  const column: ColumnModel = {
+    propertyName: row.column_name,
+    name: row.column_name,
+    dataType,
+    notNull: row.is_nullable === 'NO',
+    hasDefault: defaultValue !== undefined || row.is_identity === 'YES' || row.is_generated === 'ALWAYS',
+    isArray,
+    primaryKey: false,
+    unique: false,
+  };
+
+  if (isEnum) column.enumName = udtName;
+  if (row.domain_name && customTypeNames.has(row.domain_name)) {
+    column.typeName = row.domain_name;
+  } else if (customTypeNames.has(udtName)) {
+    column.typeName = udtName;
+  }
+  if (defaultValue !== undefined) column.defaultValue = defaultValue;
+  if (row.character_maximum_length !== null) column.length = row.character_maximum_length;
+  if (dataType === 'numeric' && row.numeric_precision !== null) {
+    column.precision = row.numeric_precision;
+    if (row.numeric_scale !== null) column.scale = row.numeric_scale;
+  }
+  if (udtName === 'timestamptz' || udtName === 'timetz') column.withTimezone = true;
+  if (udtName === 'timestamp' || udtName === 'time') column.withTimezone = false;
+  // node-postgres parses `date` values into Date objects
+  if (dataType === 'date') column.mode = 'date';
+
+  return column;
+}
+
+/**
+ * Reads the tables, views, columns, enums, composite types, domains, indexes
+ * and foreign keys of a schema from `pg_catalog` and `information_schema`.
+ *
+ * @param {CatalogClient} client - Connected client used to run the catalog queries
+ * @param {string} schemaName - Name of the database schema to introspect
+ * @returns {Promise<SchemaModel>} - The schema model
+ */
+export async function introspectSchema(client: CatalogClient, schemaName: string): Promise<SchemaModel> {
+  const enumResult = await client.query<EnumRow>(ENUMS_QUERY, [schemaName]);
+  const columnResult = await client.query<ColumnRow>(COLUMNS_QUERY, [schemaName]);
+  const constraintResult = await client.query<ConstraintRow>(CONSTRAINTS_QUERY, [schemaName]);
+  const indexResult = await client.query<IndexRow>(INDEXES_QUERY, [schemaName]);
+  const commentResult = await client.query<CommentRow>(COMMENTS_QUERY, [schemaName]);
+  const attributeResult = await client.query<AttributeRow>(ATTRIBUTES_QUERY, [schemaName]);
+  const domainResult = await client.query<ColumnRow>(DOMAINS_QUERY, [schemaName]);
+
+  const enumsByName = new Map<string, EnumModel>();
+  for (const row of enumResult.rows) {
+    let enumModel = enumsByName.get(row.enum_name);
+    if (!enumModel) {
+      enumModel = { variableName: camelCase(row.enum_name), name: row.enum_name, values: [] };
+      enumsByName.set(row.enum_name, enumModel);
+    }
+    enumModel.values.push(row.value);
+  }
+
+  const enumNames = new Set(enumsByName.keys());
+  const customTypeNames = new Set([
+    ...domainResult.rows.map((row) => row.column_name),
+    ...attributeResult.rows.filter((row) => row.relkind === 'c').map((row) => row.table_name),
+  ]);
+  const tablesByName = new Map<string, TableModel>();
+  for (const row of columnResult.rows) {
+    let table = tablesByName.get(row.table_name);
+    if (!table) {
+      table = {
+        variableName: camelCase(row.table_name),
+        name: row.table_name,
+        columns: [],
+        primaryKey: [],
+        indexes: [],
+        foreignKeys: [],
+        checks: [],
+      };
+      tablesByName.set(row.table_name, table);
+    }
+    table.columns.push(toColumnModel(row, enumNames, customTypeNames));
+  }
+
+  const viewsByName = new Map<string, ViewModel>();
+  const compositeTypesByName = new Map<string, CompositeTypeModel>();
+  for (const row of attributeResult.rows) {
+    const column = toColumnModel(row, enumNames, customTypeNames);
+    if (row.relkind === 'c') {
+      let compositeType = compositeTypesByName.get(row.table_name);
+      if (!compositeType) {
+        compositeType = { name: row.table_name, attributes: [] };
+        compositeTypesByName.set(row.table_name, compositeType);
+      }
+      compositeType.attributes.push(column);
+    } else {
+      let view = viewsByName.get(row.table_name);
+      if (!view) {
+        view = { variableName: camelCase(row.table_name), name: row.table_name, materialized: row.relkind === 'm', columns: [] };
+        viewsByName.set(row.table_name, view);
+      }
+      view.columns.push(column);
+    }
+  }
+
+  const domains: DomainModel[] = domainResult.rows.map((row) => ({
+    name: row.column_name,
+    baseType: toColumnModel(row, enumNames, customTypeNames),
+  }));
+
+  for (const row of constraintResult.rows) {
+    const table = tablesByName.get(row.table_name);
+    if (!table) continue;
+
+    if (row.constraint_type === 'p') {
+      table.primaryKey = row.columns;
+      for (const column of table.columns) {
+        if (row.columns.includes(column.name)) column.primaryKey = true;
+      }
+    } else if (row.constraint_type === 'u') {
+      table.indexes.push({ name: row.constraint_name, columns: row.columns, unique: true });
+      if (row.columns.length === 1) {
+        const column = table.columns.find((candidate) => candidate.name === row.columns[0]);
+        if (column) column.unique = true;
+      }
+    } else if (row.constraint_type === 'c') {
+      const [, expression = row.definition] = /^CHECK \((.*)\)(?: NOT VALID)?$/su.exec(row.definition) ?? [];
+      table.checks.push({ name: row.constraint_name, expression });
+    } else if (row.foreign_table) {
+      const foreignKey: ForeignKeyModel = {
+        name: row.constraint_name,
+        columns: row.columns,
+        foreignTable: row.foreign_table,
+        foreignColumns: row.foreign_columns ?? [],
+      };
+      if (row.foreign_schema && row.foreign_schema !== schemaName) foreignKey.foreignSchema = row.foreign_schema;
+      const onDelete = row.on_delete ? REFERENTIAL_ACTIONS[row.on_delete] : undefined;
+      const onUpdate = row.on_update ? REFERENTIAL_ACTIONS[row.on_update] : undefined;
+      if (onDelete) foreignKey.onDelete = onDelete;
+      if (onUpdate) foreignKey.onUpdate = onUpdate;
+      table.foreignKeys.push(foreignKey);
+    }
+  }
+
+  for (const row of indexResult.rows) {
+    tablesByName.get(row.table_name)?.indexes.push({
+      name: row.index_name,
+      columns: row.columns,
+      unique: row.is_unique,
+      method: row.method,
+    });
+  }
+
+  const schemaModel: SchemaModel = {
+    name: schemaName,
+    tables: [...tablesByName.values()],
+    enums: [...enumsByName.values()],
+    views: [...viewsByName.values()],
+    compositeTypes: [...compositeTypesByName.values()],
+    domains,
+  };
+  applyComments(schemaModel, commentResult.rows);
+  return schemaModel;
+}
+
+/**
+ * Copies `COMMENT ON` texts onto the matching tables, views, columns and types of a
+ * model, e.g. one read from a Drizzle schema file, which has no comments.
+ *
+ * @param {SchemaModel} schemaModel - Model to annotate in place
+ * @param {CommentRow[]} comments - Comments read from the catalog
+ */
+export function applyComments(schemaModel: SchemaModel, comments: CommentRow[]): void {
+  for (const row of comments) {
+    if (row.kind === 'type') {
+      const type = [...schemaModel.enums, ...schemaModel.compositeTypes, ...schemaModel.domains].find(
+        (candidate) => candidate.name === row.object_name
+      );
+      if (type) type.comment = row.description;
+      continue;
+    }
+
+    // Composite types own a pg_class entry too, which holds their attribute comments
+    const relation = [...schemaModel.tables, ...schemaModel.views].find((candidate) => candidate.name === row.object_name);
+    const columns = relation?.columns
+      ?? schemaModel.compositeTypes.find((candidate) => candidate.name === row.object_name)?.attributes;
+    if (row.kind === 'table') {
+      if (relation) relation.comment = row.description;
+    } else {
+      const column = columns?.find((candidate) => candidate.name === row.column_name);
+      if (column) column.comment = row.description;
+    }
+  }
+}
+
+/**
+ * Connects to the database, reads the `COMMENT ON` texts of a schema and disconnects again.
+ *
+ * @param {string} connectionString - PostgreSQL connection string
+ * @param {string} schemaName - Name of the database schema
+ * @returns {Promise<CommentRow[]>} - The comments of the schema's tables, columns and types
+ */
+export async function readDatabaseComments(connectionString: string, schemaName: string): Promise<CommentRow[]> {
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+  try {
+    const { rows } = await client.query<CommentRow>(COMMENTS_QUERY, [schemaName]);
+    return rows;
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Connects to the database, introspects a schema and disconnects again.
+ *
+ * @param {string} connectionString - PostgreSQL connection string
+ * @param {string} schemaName - Name of the database schema to introspect
+ * @returns {Promise<SchemaModel>} - The schema model
+ */
+export async function introspectDatabase(connectionString: string, schemaName: string): Promise<SchemaModel> {
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+  try {
+    return await introspectSchema(client, schemaName);
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Returns a hash of everything in a schema that affects the generated files:
+ * columns, constraints, indexes and enum values. It is cheap to compute, so
+ * watch mode polls it to find out whether the schema changed.
+ *
+ * @param {CatalogClient} client - Client to run the catalog query with
+ * @param {string} schemaName - Name of the database schema
+ * @returns {Promise<string>} - The fingerprint
+ */
+export async function schemaFingerprint(client: CatalogClient, schemaName: string): Promise<string> {
+  const { rows } = await client.query<{ fingerprint: string }>(FINGERPRINT_QUERY, [schemaName]);
+  return rows[0]?.fingerprint ?? '';
+}
+
+/**
+ * Connects to the database, computes the fingerprint of a schema and disconnects again.
+ *
+ * @param {string} connectionString - PostgreSQL connection string
+ * @param {string} schemaName - Name of the database schema
+ * @returns {Promise<string>} - The fingerprint
+ */
+export async function fingerprintDatabase(connectionString: string, schemaName: string): Promise<string> {
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+  try {
+    return await schemaFingerprint(client, schemaName);
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Lists the schemas of the database that hold user objects. System schemas
+ * (`pg_catalog`, `information_schema`, `pg_toast` and temporary schemas),
+ * schemas created by extensions and schemas that only hold extension objects
+ * are left out.
+ *
+ * @param {CatalogClient} client - Client to run the catalog query with
+ * @returns {Promise<string[]>} - Names of the schemas, sorted
+ */
+export async function listSchemas(client: CatalogClient): Promise<string[]> {
+  const { rows } = await client.query<{ schema_name: string }>(SCHEMAS_QUERY);
+  return rows.map((row) => row.schema_name);
+}
+
+/**
+ * Connects to the database, lists its schemas and disconnects again.
+ *
+ * @param {string} connectionString - PostgreSQL connection string
+ * @returns {Promise<string[]>} - Names of the schemas, see {@link listSchemas}
+ */
+export async function listDatabaseSchemas(connectionString: string): Promise<string[]> {
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+  try {
+    return await listSchemas(client);
+  } finally {
+    await client.end();
+  }
+}
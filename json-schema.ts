@@ -0,0 +1,213 @@
+/**
+ * Builds JSON Schema (draft 2020-12) and OpenAPI 3.1 component definitions
+ * for the tables and enums of a schema model.
+ */
+
+import { numericPattern } from './column-types.js';
+import type { ColumnModel, SchemaModel, TableModel } from './model.js';
+import { enumTypeName, pascalCase, rowTypeNames, type RowTypeNames } from './naming.js';
+
+/**
+ * A JSON Schema object. Kept loose on purpose, since it is only serialized.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  smallint: [-32768, 32767],
+  smallserial: [1, 32767],
+  integer: [-2147483648, 2147483647],
+  serial: [1, 2147483647],
+};
+
+const STRING_FORMATS: Record<string, string | undefined> = {
+  text: undefined,
+  citext: undefined,
+  inet: undefined,
+  cidr: undefined,
+  macaddr: undefined,
+  macaddr8: undefined,
+  bit: undefined,
+  varbit: undefined,
+  tsvector: undefined,
+  uuid: 'uuid',
+  time: 'time',
+  interval: 'duration',
+  timestamp: 'date-time',
+  date: 'date',
+};
+
+/**
+ * Returns the JSON Schema of a single (non-array, non-null) value of a column.
+ *
+ * @param {ColumnModel} column - Column to map
+ * @param {string} enumRef - `$ref` of the column's enum definition, if it is enum-typed
+ * @returns {JsonSchema} - The JSON Schema
+ */
+export function jsonScalarSchema(column: ColumnModel, enumRef?: string): JsonSchema {
+  if (column.enumName && enumRef) return { $ref: enumRef };
+
+  if (column.dataType in STRING_FORMATS) {
+    const format = STRING_FORMATS[column.dataType];
+    return format ? { type: 'string', format } : { type: 'string' };
+  }
+
+  const range = INTEGER_RANGES[column.dataType];
+  if (range) return { type: 'integer', minimum: range[0], maximum: range[1] };
+
+  switch (column.dataType) {
+    case 'varchar':
+    case 'char':
+      return column.length !== undefined ? { type: 'string', maxLength: column.length } : { type: 'string' };
+    case 'real':
+    case 'doublePrecision':
+      return { type: 'number' };
+    case 'bigint':
+    case 'bigserial':
+      return column.mode === 'number' || column.mode === 'bigint'
+        ? { type: 'integer', format: 'int64' }
+        : { type: 'string', pattern: '^-?\\d+$' };
+    case 'numeric':
+    case 'decimal':
+      return { type: 'string', pattern: numericPattern(column) };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'point':
+      return column.mode === 'xy'
+        ? {
+            type: 'object',
+            properties: { x: { type: 'number' }, y: { type: 'number' } },
+            required: ['x', 'y'],
+          }
+        : { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false };
+    case 'vector':
+      return { type: 'array', items: { type: 'number' } };
+    case 'json':
+    case 'jsonb':
+    default:
+      return {};
+  }
+}
+
+/**
+ * Returns the JSON Schema of a column's value, including arrays and `null`.
+ *
+ * @param {ColumnModel} column - Column to map
+ * @param {string} enumRef - `$ref` of the column's enum definition, if it is enum-typed
+ * @returns {JsonSchema} - The JSON Schema
+ */
+export function jsonColumnSchema(column: ColumnModel, enumRef?: string): JsonSchema {
+  let schema = jsonScalarSchema(column, enumRef);
+  if (column.isArray) schema = { type: 'array', items: schema };
+  if (column.notNull || Object.keys(schema).length === 0) return schema;
+
+  if (typeof schema.type === 'string') {
+    return { ...schema, type: [schema.type, 'null'] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+/**
+ * Builds the named definitions of a schema: one per enum, and a select and
+ * insert object per table.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {string} suffix - Schema suffix used for the generated enum names
+ * @param {string} refPrefix - Prefix of `$ref` pointers, e.g. `#/$defs/`
+ * @param {(table: TableModel) => RowTypeNames} typeNames - Returns the type names of a table
+ * @returns {Record<string, JsonSchema>} - The definitions keyed by type name
+ */
+export function buildDefinitions(
+  schemaModel: SchemaModel,
+  suffix: string,
+  refPrefix: string,
+  typeNames: (table: TableModel) => RowTypeNames = (table) => rowTypeNames(pascalCase(table.variableName))
+): Record<string, JsonSchema> {
+  const definitions: Record<string, JsonSchema> = {};
+  const enumRefs = new Map<string, string>();
+
+  for (const enumDef of schemaModel.enums) {
+    if (enumDef.values.length === 0) continue;
+    const name = enumTypeName(enumDef.name, suffix);
+    enumRefs.set(enumDef.name, `${refPrefix}${name}`);
+    definitions[name] = {
+      title: name,
+      description: enumDef.comment ?? `The \`${enumDef.name}\` enum in the \`${schemaModel.name}\` schema.`,
+      type: 'string',
+      enum: enumDef.values,
+    };
+  }
+
+  for (const table of schemaModel.tables) {
+    const { select: name, insert: insertName } = typeNames(table);
+    const properties = (column: ColumnModel): JsonSchema => {
+      const schema = jsonColumnSchema(column, column.enumName ? enumRefs.get(column.enumName) : undefined);
+      return column.comment ? { ...schema, description: column.comment } : schema;
+    };
+    const columnProperties = Object.fromEntries(
+      table.columns.map((column) => [column.propertyName, properties(column)])
+    );
+
+    definitions[name] = {
+      title: name,
+      description: table.comment ?? `A row of the \`${table.name}\` table in the \`${schemaModel.name}\` schema.`,
+      type: 'object',
+      properties: columnProperties,
+      required: table.columns.map((column) => column.propertyName),
+      additionalProperties: false,
+    };
+
+    definitions[insertName] = {
+      title: insertName,
+      description: `Values inserted into the \`${table.name}\` table in the \`${schemaModel.name}\` schema.`,
+      type: 'object',
+      properties: columnProperties,
+      required: table.columns
+        .filter((column) => column.notNull && !column.hasDefault)
+        .map((column) => column.propertyName),
+      additionalProperties: false,
+    };
+  }
+
+  return definitions;
+}
+
+/**
+ * Builds a JSON Schema (draft 2020-12) document with every table and enum under `$defs`.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {string} suffix - Schema suffix used for the generated enum names
+ * @param {(table: TableModel) => RowTypeNames} typeNames - Returns the type names of a table
+ * @returns {JsonSchema} - The JSON Schema document
+ */
+export function buildJsonSchema(
+  schemaModel: SchemaModel,
+  suffix: string,
+  typeNames?: (table: TableModel) => RowTypeNames
+): JsonSchema {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $comment: `Auto-generated from the ${schemaModel.name} schema using gen-types-enums-psql-schema. Do not modify this file directly - instead, run the script again.`,
+    title: `${schemaModel.name} schema`,
+    $defs: buildDefinitions(schemaModel, suffix, '#/$defs/', typeNames),
+  };
+}
+
+/**
+ * Builds an OpenAPI 3.1 fragment with every table and enum under `components.schemas`.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {string} suffix - Schema suffix used for the generated enum names
+ * @param {(table: TableModel) => RowTypeNames} typeNames - Returns the type names of a table
+ * @returns {JsonSchema} - The OpenAPI fragment
+ */
+export function buildOpenApiComponents(
+  schemaModel: SchemaModel,
+  suffix: string,
+  typeNames?: (table: TableModel) => RowTypeNames
+): JsonSchema {
+  return {
+    components: {
+      schemas: buildDefinitions(schemaModel, suffix, '#/components/schemas/', typeNames),
+    },
+  };
+}
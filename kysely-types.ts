@@ -0,0 +1,119 @@
+/**
+ * Renders a Kysely `Database` interface for the tables and views of a schema
+ * model. Columns are keyed by their database names and typed the way the `pg`
+ * driver returns them, so the interface does not depend on Drizzle.
+ */
+
+import { pgColumnType } from './column-types.js';
+import { jsDoc } from './doc-comments.js';
+import type { ColumnModel, SchemaModel, TableModel, ViewModel } from './model.js';
+import { createColumnTyper, propertyName } from './row-types.js';
+import type { TypeOverrider } from './type-overrides.js';
+
+/**
+ * Rendered Kysely interfaces and the types they import.
+ */
+export interface RenderedKyselyTypes {
+  declarations: string;
+  /** Names of the helper types imported from `kysely` */
+  kyselyTypes: string[];
+  /** Names of the `...Type` unions from enums.ts used by the declarations */
+  enumTypes: string[];
+  /** Names of the composite types and domains from custom-types.ts used by the declarations */
+  customTypes: string[];
+}
+
+/**
+ * Returns the types a column accepts in inserts and updates when they are
+ * wider than its select type, e.g. ISO strings for timestamps. The `pg` driver
+ * serializes these, but always returns the select type.
+ */
+function writableType(column: ColumnModel, selectType: string): string | undefined {
+  if (column.isArray || column.enumName || column.typeName) return undefined;
+
+  const scalar = selectType.replace(/ \| null$/u, '');
+  let widened: string | undefined;
+  if (scalar === 'Date') widened = 'Date | string';
+  else if (column.dataType === 'bigint' || column.dataType === 'bigserial') widened = 'string | number | bigint';
+  else if (column.dataType === 'numeric' || column.dataType === 'decimal') widened = 'string | number';
+
+  if (!widened) return undefined;
+  return column.notNull ? widened : `${widened} | null`;
+}
+
+/**
+ * Renders one table interface per table and view, and the `Database`
+ * interface that maps table names to them. Tables outside the `public` schema
+ * are keyed as `schema.table`, the way Kysely refers to them. Columns with a
+ * default, including serial and identity columns, are wrapped in `Generated<>`,
+ * and columns that accept wider types in writes than they return, like
+ * timestamps, numerics and bigints, in `ColumnType<>`.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {string} suffix - Schema suffix used for the generated enum names
+ * @param {(relation: TableModel | ViewModel) => string} typeName - Returns the base type name of a table or view
+ * @param {TypeOverrider} overrider - Types set in the config, used as they are for selects, inserts and updates
+ * @returns {RenderedKyselyTypes} - The declarations and the types they use
+ */
+export function renderKyselyTypes(
+  schemaModel: SchemaModel,
+  suffix: string,
+  typeName: (relation: TableModel | ViewModel) => string,
+  overrider?: TypeOverrider
+): RenderedKyselyTypes {
+  const { columnType, enumTypes, customTypes } = createColumnTyper(schemaModel, suffix, pgColumnType);
+  const kyselyTypes = new Set<string>();
+
+  const fieldType = (relation: TableModel | ViewModel, column: ColumnModel, isTable: boolean) => {
+    const override = overrider?.columnType(relation, column);
+    const selectType = override ?? columnType(column);
+    if (!isTable) return selectType;
+
+    const writable = override ? undefined : writableType(column, selectType);
+    if (writable) {
+      kyselyTypes.add('ColumnType');
+      return `ColumnType<${selectType}, ${column.hasDefault ? `${writable} | undefined` : writable}, ${writable}>`;
+    }
+    if (column.hasDefault) {
+      kyselyTypes.add('Generated');
+      return `Generated<${selectType}>`;
+    }
+    return selectType;
+  };
+
+  const columnDoc = (column: ColumnModel) => (column.comment ? jsDoc(column.comment, '  ') : '');
+  const tableKey = (relation: TableModel | ViewModel) =>
+    propertyName(schemaModel.name === 'public' ? relation.name : `${schemaModel.name}.${relation.name}`);
+
+  let declarations = '';
+  const entries: string[] = [];
+  const relations = [
+    ...schemaModel.tables.map((table) => ({ relation: table as TableModel | ViewModel, isTable: true })),
+    ...schemaModel.views.map((view) => ({ relation: view as TableModel | ViewModel, isTable: false })),
+  ];
+
+  for (const { relation, isTable } of relations) {
+    const name = `${typeName(relation)}${isTable ? 'Table' : 'View'}`;
+    const kind = isTable ? 'table' : 'materialized' in relation && relation.materialized ? 'materialized view' : 'view';
+
+    declarations += `
+${jsDoc(relation.comment ?? `Columns of the \`${relation.name}\` ${kind} in the \`${schemaModel.name}\` schema.`)}export interface ${name} {
+${relation.columns.map((column) => `${columnDoc(column)}  ${propertyName(column.name)}: ${fieldType(relation, column, isTable)};`).join('\n')}
+}
+`;
+    entries.push(`  ${tableKey(relation)}: ${name};`);
+  }
+
+  declarations += `
+${jsDoc(`The tables and views of the \`${schemaModel.name}\` schema, for \`new Kysely<Database>()\`.`)}export interface Database {
+${entries.join('\n')}
+}
+`;
+
+  return {
+    declarations,
+    kyselyTypes: [...kyselyTypes].sort(),
+    enumTypes: [...enumTypes].sort(),
+    customTypes: [...customTypes].sort(),
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Library entry point of gen-types-enums-psql-schema. Importing it has no
+ * side effects; the CLI in index.ts is a thin wrapper around `generate()`.
+ */
+
+export { generate, linkSchemas } from './generate.js';
+export type { GenerateOptions, GenerateResult, LinkSchemasResult, ProgressStep, Reporter } from './generate.js';
+export { excludeSchemas, formatSummary, generateAll } from './batch.js';
+export type { GenerateAllOptions, SchemaOutcome } from './batch.js';
+export { watch } from './watch.js';
+export type { WatchOptions, Watcher } from './watch.js';
+export { defineConfig, loadConfig } from './config.js';
+export type {
+  ConnectionOptions,
+  EmitOptions,
+  GenTypesConfig,
+  IntrospectionMode,
+  NamingOptions,
+  SchemaOptions,
+  TypeAffixes,
+} from './config.js';
+export type { RowTypeNames } from './naming.js';
+export type { EnumKeyCase, EnumStyle } from './enum-styles.js';
+export type { DomainStyle } from './custom-types.js';
+export type { CustomFormatter, Formatter, FormatterName } from './formatters.js';
+export type { FileDrift, PlannedChange } from './check.js';
+export type { GeneratedFile, GeneratorPlugin, PluginContext } from './plugins.js';
+export { diffSchemaModels, formatSchemaChanges, readSavedSchemaModel } from './schema-diff.js';
+export type { SchemaChange, SchemaChangeKind } from './schema-diff.js';
+export type { DrizzleSnapshot } from './snapshot-reader.js';
+export { listDatabaseSchemas } from './introspect.js';
+export { readSqlSchemaModel, readSqlSchemaNames } from './sql-reader.js';
+export type { SqlSchemaModel } from './sql-reader.js';
+export type {
+  CheckConstraintModel,
+  ColumnModel,
+  CompositeTypeModel,
+  DomainModel,
+  EnumModel,
+  ForeignKeyModel,
+  IndexModel,
+  SchemaModel,
+  TableModel,
+  ViewModel,
+} from './model.js';
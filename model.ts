@@ -0,0 +1,173 @@
+/**
+ * Typed in-memory model of a PostgreSQL schema.
+ *
+ * Every generator reads from this model instead of scanning the Drizzle
+ * schema file itself, so all outputs agree on what the schema contains.
+ */
+
+/**
+ * Referential action of a foreign key (`ON DELETE` / `ON UPDATE`).
+ */
+export type ReferentialAction = 'cascade' | 'restrict' | 'no action' | 'set null' | 'set default';
+
+/**
+ * A single column of a table.
+ */
+export interface ColumnModel {
+  /** Property key of the column in the Drizzle table definition, or the column name when introspected */
+  propertyName: string;
+  /** Column name in the database */
+  name: string;
+  /**
+   * Drizzle column builder name (e.g. `varchar`, `timestamp`). Catalog
+   * introspection maps PostgreSQL types onto the same names.
+   */
+  dataType: string;
+  /** Name of the PostgreSQL enum when the column is enum-typed */
+  enumName?: string;
+  /**
+   * Name of the composite type or domain when the column uses one. For
+   * domains, `dataType` and the other type fields describe the base type.
+   */
+  typeName?: string;
+  notNull: boolean;
+  hasDefault: boolean;
+  /** Raw default expression, when known */
+  defaultValue?: string;
+  isArray: boolean;
+  primaryKey: boolean;
+  unique: boolean;
+  /** Character length for `varchar`/`char` columns */
+  length?: number;
+  /** Precision and scale for `numeric`/`decimal` columns */
+  precision?: number;
+  scale?: number;
+  /** Drizzle `mode` option (e.g. `string`, `date`, `number`, `bigint`) */
+  mode?: string;
+  /** Whether a `timestamp`/`time` column stores the time zone */
+  withTimezone?: boolean;
+  /** `COMMENT ON COLUMN` text, when set in the database */
+  comment?: string;
+}
+
+/**
+ * An index defined on a table.
+ */
+export interface IndexModel {
+  name: string;
+  /** Column names covered by the index */
+  columns: string[];
+  unique: boolean;
+  /** Index method (e.g. `btree`, `gin`) */
+  method?: string;
+}
+
+/**
+ * A foreign key from one table to another. Foreign keys are the relations
+ * between tables in the model.
+ */
+export interface ForeignKeyModel {
+  name?: string;
+  /** Column names on the referencing table */
+  columns: string[];
+  /** Database name of the referenced table */
+  foreignTable: string;
+  /** Schema of the referenced table, when it is not the schema being processed */
+  foreignSchema?: string;
+  /** Column names on the referenced table */
+  foreignColumns: string[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+/**
+ * A `CHECK` constraint defined on a table.
+ */
+export interface CheckConstraintModel {
+  name: string;
+  /** SQL expression of the check, without the `CHECK` keyword */
+  expression: string;
+}
+
+/**
+ * A table and everything defined on it.
+ */
+export interface TableModel {
+  /** Exported identifier of the table in the Drizzle schema file, or the camelCased name when introspected */
+  variableName: string;
+  /** Table name in the database */
+  name: string;
+  columns: ColumnModel[];
+  /** Column names of the primary key */
+  primaryKey: string[];
+  indexes: IndexModel[];
+  foreignKeys: ForeignKeyModel[];
+  checks: CheckConstraintModel[];
+  /** `COMMENT ON TABLE` text, when set in the database */
+  comment?: string;
+}
+
+/**
+ * A PostgreSQL enum type.
+ */
+export interface EnumModel {
+  /** Exported identifier of the enum in the Drizzle schema file, or the camelCased name when introspected */
+  variableName: string;
+  /** Enum type name in the database */
+  name: string;
+  values: string[];
+  /** `COMMENT ON TYPE` text, when set in the database */
+  comment?: string;
+}
+
+/**
+ * A view or materialized view. Views only have columns, without keys or indexes.
+ */
+export interface ViewModel {
+  /** Exported identifier of the view in the Drizzle schema file, or the camelCased name when introspected */
+  variableName: string;
+  /** View name in the database */
+  name: string;
+  materialized: boolean;
+  columns: ColumnModel[];
+  /** `COMMENT ON VIEW` text, when set in the database */
+  comment?: string;
+}
+
+/**
+ * A composite type (`CREATE TYPE ... AS (...)`).
+ */
+export interface CompositeTypeModel {
+  /** Type name in the database */
+  name: string;
+  attributes: ColumnModel[];
+  /** `COMMENT ON TYPE` text, when set in the database */
+  comment?: string;
+}
+
+/**
+ * A domain (`CREATE DOMAIN ... AS ...`) over a base type.
+ */
+export interface DomainModel {
+  /** Domain name in the database */
+  name: string;
+  /** The base type, as a column whose `notNull` is the domain's `NOT NULL` */
+  baseType: ColumnModel;
+  /** `COMMENT ON DOMAIN` text, when set in the database */
+  comment?: string;
+}
+
+/**
+ * Everything discovered in a single database schema.
+ */
+export interface SchemaModel {
+  /** Name of the database schema (e.g. `public`) */
+  name: string;
+  tables: TableModel[];
+  enums: EnumModel[];
+  views: ViewModel[];
+  /** Composite types. Only read from the database catalog, since Drizzle schema files cannot declare them */
+  compositeTypes: CompositeTypeModel[];
+  /** Domains. Only read from the database catalog, since Drizzle schema files cannot declare them */
+  domains: DomainModel[];
+}
@@ -0,0 +1,205 @@
+/**
+ * Connects the generated schemas of a multi-schema database: links foreign
+ * keys into other schemas in the pulled schema files, and writes the root
+ * index.ts that re-exports every schema under its own namespace.
+ */
+
+import { promises as fs } from 'fs';
+import { join, posix } from 'path';
+import ts from 'typescript';
+import { toPosixPath } from './config.js';
+import type { SchemaModel } from './model.js';
+import { camelCase } from './naming.js';
+import { readSchemaModel } from './schema-reader.js';
+
+/**
+ * A table of another schema, as it is imported into a schema file.
+ */
+export interface LinkedTable {
+  /** Exported identifier of the table in the other schema file */
+  identifier: string;
+  /** Import path of the other schema file, relative to the linking schema file */
+  importPath: string;
+}
+
+/**
+ * Outcome of {@link linkForeignSchemas}.
+ */
+export interface LinkResult {
+  /** The schema file content with the references linked */
+  source: string;
+  /** `schema.table` names of the referenced tables that could not be linked */
+  unresolved: string[];
+}
+
+/**
+ * Lists the tables of other schemas that foreign keys of a schema reference.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @returns {Array<{ schema: string; table: string }>} - The referenced tables, each once
+ */
+export function foreignSchemaTables(schemaModel: SchemaModel): Array<{ schema: string; table: string }> {
+  const tables = new Map<string, { schema: string; table: string }>();
+  for (const table of schemaModel.tables) {
+    for (const foreignKey of table.foreignKeys) {
+      if (!foreignKey.foreignSchema) continue;
+      tables.set(`${foreignKey.foreignSchema}.${foreignKey.foreignTable}`, {
+        schema: foreignKey.foreignSchema,
+        table: foreignKey.foreignTable,
+      });
+    }
+  }
+  return [...tables.values()];
+}
+
+/**
+ * Rewrites the references of a pulled schema file to tables in other schemas.
+ * drizzle-kit only pulls the filtered schema, so it refers to a table in
+ * another schema by its bare camelCased name (`foreignColumns: [users.id]`)
+ * without declaring or importing it. Every such reference is replaced with the
+ * identifier of the other schema file, which is imported. Already linked files
+ * are returned unchanged.
+ *
+ * @param {string} source - Content of the schema file
+ * @param {SchemaModel} schemaModel - Model of the schema, with the `foreignSchema` of every cross-schema foreign key
+ * @param {Map<string, LinkedTable>} linkedTables - The referenced tables that have been generated, by `schema.table` name
+ * @returns {LinkResult} - The linked content and the tables that could not be linked
+ */
+export function linkForeignSchemas(source: string, schemaModel: SchemaModel, linkedTables: Map<string, LinkedTable>): LinkResult {
+  const parse = (content: string) => ts.createSourceFile('schema.ts', content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const declared = new Set<string>();
+  for (const statement of parse(source).statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) declared.add(declaration.name.text);
+      }
+    } else if (ts.isImportDeclaration(statement)) {
+      const bindings = statement.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) declared.add(element.name.text);
+      }
+    }
+  }
+
+  let linked = source;
+  const unresolved: string[] = [];
+  const importsByPath = new Map<string, Set<string>>();
+  for (const { schema, table } of foreignSchemaTables(schemaModel)) {
+    const qualifiedName = `${schema}.${table}`;
+    const linkedTable = linkedTables.get(qualifiedName);
+    const bareName = camelCase(table);
+    // A local declaration with the bare name hides the foreign table
+    if (!linkedTable || (declared.has(bareName) && !declared.has(linkedTable.identifier))) {
+      unresolved.push(qualifiedName);
+      continue;
+    }
+
+    if (!declared.has(bareName)) {
+      linked = linked.replace(/foreignColumns: \[[^\]]*\]/gu, (columns) =>
+        columns.replace(new RegExp(`\\b${bareName}\\.`, 'gu'), `${linkedTable.identifier}.`)
+      );
+    }
+    if (!importsByPath.has(linkedTable.importPath)) importsByPath.set(linkedTable.importPath, new Set());
+    importsByPath.get(linkedTable.importPath)!.add(linkedTable.identifier);
+  }
+
+  // Merge into existing imports of the same file, or add new ones after the last import
+  const linkedFile = parse(linked);
+  const imports = linkedFile.statements.filter(ts.isImportDeclaration);
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const newImports: string[] = [];
+  for (const [importPath, identifiers] of importsByPath) {
+    const existing = imports.find(
+      (declaration) => ts.isStringLiteral(declaration.moduleSpecifier) && declaration.moduleSpecifier.text === importPath
+    );
+    const bindings = existing?.importClause?.namedBindings;
+    if (existing && bindings && ts.isNamedImports(bindings)) {
+      const names = new Set([...bindings.elements.map((element) => element.getText(linkedFile)), ...identifiers]);
+      if (names.size === bindings.elements.length) continue;
+      edits.push({
+        start: existing.getStart(linkedFile),
+        end: existing.getEnd(),
+        text: `import { ${[...names].sort().join(', ')} } from "${importPath}"`,
+      });
+    } else {
+      newImports.push(`import { ${[...identifiers].sort().join(', ')} } from "${importPath}"`);
+    }
+  }
+
+  const lastImport = imports[imports.length - 1];
+  if (newImports.length > 0) {
+    const position = lastImport?.getEnd() ?? 0;
+    edits.push({ start: position, end: position, text: lastImport ? `\n${newImports.join('\n')}` : `${newImports.join('\n')}\n` });
+  }
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    linked = linked.slice(0, edit.start) + edit.text + linked.slice(edit.end);
+  }
+
+  return { source: linked, unresolved };
+}
+
+/**
+ * Looks up a table in the generated schema.ts of another schema.
+ *
+ * @param {string} schemaDir - Output directory of the linking schema
+ * @param {string} foreignSchemaDir - Output directory of the referenced schema
+ * @param {string} foreignSchema - Name of the referenced schema
+ * @param {string} table - Database name of the referenced table
+ * @returns {Promise<LinkedTable | undefined>} - The table, or undefined if it has not been generated
+ */
+export async function findGeneratedTable(
+  schemaDir: string,
+  foreignSchemaDir: string,
+  foreignSchema: string,
+  table: string
+): Promise<LinkedTable | undefined> {
+  const schemaFile = join(foreignSchemaDir, 'schema.ts');
+  let content: string;
+  try {
+    content = await fs.readFile(schemaFile, 'utf8');
+  } catch {
+    return undefined;
+  }
+
+  const tableModel = readSchemaModel(content, foreignSchema, schemaFile).tables.find((candidate) => candidate.name === table);
+  if (!tableModel) return undefined;
+
+  const importPath = posix.join(toPosixPath(posix.relative(toPosixPath(schemaDir), toPosixPath(foreignSchemaDir))), 'schema');
+  return { identifier: tableModel.variableName, importPath: importPath.startsWith('.') ? importPath : `./${importPath}` };
+}
+
+/**
+ * Writes the root index.ts of the output directory, which re-exports every
+ * generated schema under a namespace named after it, e.g.
+ * `export * as billing from './billing'`. Schemas without an index.ts are left out.
+ *
+ * @param {string} outDir - Directory holding the schema directories
+ * @param {Array<{ schema: string; schemaDir: string }>} schemas - The schemas and their output directories
+ * @returns {Promise<string | undefined>} - Path of the written file, or undefined if no schema has an index.ts
+ */
+export async function writeRootIndex(
+  outDir: string,
+  schemas: Array<{ schema: string; schemaDir: string }>
+): Promise<string | undefined> {
+  const exports: string[] = [];
+  for (const { schema, schemaDir } of [...schemas].sort((a, b) => a.schema.localeCompare(b.schema))) {
+    const hasIndex = await fs.access(join(schemaDir, 'index.ts')).then(() => true, () => false);
+    if (!hasIndex) continue;
+
+    const modulePath = toPosixPath(posix.relative(toPosixPath(outDir), toPosixPath(schemaDir)));
+    const namespace = /^[A-Za-z_$][\w$]*$/u.test(schema) ? schema : camelCase(schema);
+    exports.push(`export * as ${namespace} from '${modulePath}';`);
+  }
+  if (exports.length === 0) return undefined;
+
+  const indexFile = join(outDir, 'index.ts');
+  await fs.writeFile(indexFile, `/**
+ * This file exports every generated schema under its own namespace.
+ *
+ * Generated at: ${new Date().toISOString()}
+ */
+
+${exports.join('\n')}
+`, 'utf8');
+  return indexFile;
+}
@@ -0,0 +1,273 @@
+/**
+ * Identifier helpers shared by the generators.
+ */
+
+import type { ResolvedNamingOptions, ResolvedSchemaOptions, TypeAffixes } from './config.js';
+import type { SchemaModel } from './model.js';
+
+/**
+ * Converts a snake_case, kebab-case or camelCase name to PascalCase.
+ * Parts after the first character are kept as they are, so `userProfiles`
+ * becomes `UserProfiles`.
+ *
+ * @param {string} value - Name to convert
+ * @returns {string} - The PascalCase name
+ */
+export function pascalCase(value: string): string {
+  return value
+    .split(/[_-]/gu)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Converts a snake_case or kebab-case name to camelCase, the way
+ * `drizzle-kit pull` names table and enum variables with `casing: 'camel'`.
+ *
+ * @param {string} value - Name to convert
+ * @returns {string} - The camelCase name
+ */
+export function camelCase(value: string): string {
+  const pascal = pascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Builds the suffix appended to enum names and renamed schema identifiers,
+ * e.g. `PublicS` for the `public` schema, or `Public` without the trailing `S`.
+ *
+ * @param {string} schemaName - Name of the database schema
+ * @param {boolean} trailingS - Whether the suffix ends in `S`
+ * @returns {string} - The schema suffix
+ */
+export function schemaSuffix(schemaName: string, trailingS = true): string {
+  return schemaName.charAt(0).toUpperCase() + schemaName.slice(1).replace(/_([a-z])/g, (_, letter) => letter.toUpperCase()) + (trailingS ? 'S' : '');
+}
+
+/**
+ * Builds the infix that drizzle-kit adds to the names it pulls for a schema,
+ * e.g. `InAuditLogSchema` for `auditLogInAuditLogSchema`.
+ *
+ * @param {string} schemaName - Name of the database schema
+ * @returns {string} - The drizzle-kit infix
+ */
+export function drizzleSchemaInfix(schemaName: string): string {
+  return `In${schemaSuffix(schemaName, false)}Schema`;
+}
+
+/**
+ * Strips the schema part from the name of a table, view or enum variable to
+ * get its readable base name, e.g. `users` for `usersPublicS`. Names that
+ * still carry the drizzle-kit `In<Schema>` infix, e.g. `usersInAuth`, lose the
+ * whole infix, also when the schema suffix is its tail.
+ *
+ * @param {string} variableName - Variable name in the schema file
+ * @param {string} schemaName - Name of the database schema
+ * @param {string} suffix - Schema suffix from {@link schemaSuffix}
+ * @returns {string} - The base name
+ */
+export function baseVariableName(variableName: string, schemaName: string, suffix: string): string {
+  const drizzleInfix = drizzleSchemaInfix(schemaName);
+  for (const schemaPart of [drizzleInfix, drizzleInfix.slice(0, -'Schema'.length), suffix]) {
+    if (schemaPart !== '' && variableName.endsWith(schemaPart) && variableName !== schemaPart) {
+      return variableName.slice(0, -schemaPart.length);
+    }
+  }
+  return variableName;
+}
+
+/**
+ * Builds the name of the TypeScript enum generated for a PostgreSQL enum,
+ * e.g. `OrderStatusPublicS` for `order_status`.
+ *
+ * @param {string} enumName - Enum type name in the database
+ * @param {string} suffix - Schema suffix from {@link schemaSuffix}
+ * @returns {string} - The TypeScript enum name
+ */
+export function enumTypeName(enumName: string, suffix: string): string {
+  return (
+    enumName
+      .split(/[_-]/gu)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
+      .join('') + suffix
+  );
+}
+
+/**
+ * Builds the name of the TypeScript type generated for a composite type or
+ * domain, following the enum convention, e.g. `PostalAddressPublicS` for
+ * `postal_address`.
+ *
+ * @param {string} typeName - Type name in the database
+ * @param {string} suffix - Schema suffix from {@link schemaSuffix}
+ * @returns {string} - The TypeScript type name
+ */
+export function customTypeName(typeName: string, suffix: string): string {
+  return enumTypeName(typeName, suffix);
+}
+
+// Plurals that do not end in a plural suffix at all, by lowercase plural
+const IRREGULAR_PLURALS: Record<string, string> = {
+  people: 'person',
+  children: 'child',
+  men: 'man',
+  women: 'woman',
+  mice: 'mouse',
+  geese: 'goose',
+  feet: 'foot',
+  teeth: 'tooth',
+};
+
+// Words that end like plurals but are singular, or are the same in both
+const UNCOUNTABLE = new Set(['data', 'metadata', 'news', 'series', 'species', 'equipment', 'information', 'media', 'sms']);
+
+/**
+ * Suffix rules from the most to the least specific, the first match wins.
+ * Endings such as `-ches`, `-uses` and `-ies` are ambiguous (`matches` but
+ * `caches`, `statuses` but `refuses`, `categories` but `movies`), so the
+ * singulars ending in `-e` are matched before the general rule drops `-es`.
+ */
+const SINGULAR_RULES: [RegExp, string][] = [
+  // Latin and Greek plurals
+  [/(matr|append)ices$/u, '$1ix'],
+  [/(vert|ind|cod)ices$/u, '$1ex'],
+  [/(criteri|phenomen)a$/u, '$1on'],
+  [/(analy|cri|diagno|ellip|empha|hypothe|oa|parenthe|progno|synop|synthe|the)ses$/u, '$1sis'],
+  // Singulars ending in -s, -z, -o and -f(e) that take -es or -ves
+  [/(alias|atlas|bias|canvas|gas)es$/u, '$1'],
+  [/(qui)zzes$/u, '$1z'],
+  [/(her|potat|tomat|ech|vet|torped|carg|mosquit|domin|volcan|tornad)oes$/u, '$1o'],
+  [/^(kn|l|w)ives$/u, '$1ife'],
+  [/(wol|hal|shel|sel|cal|^el|thie|loa)ves$/u, '$1f'],
+  // Singulars ending in -che: caches, headaches, mustaches, niches, avalanches
+  [/([^eo]ache|(n|qu|cl|f)iche|[^e]eche|[^o]oche|yche|avalanche)s$/u, '$1'],
+  // Singulars ending in -use: houses, causes, refuses, excuses, abuses
+  [/([aeiou]use|fuse|(ex|ac)cuse|(^|dis)abuse|(^|a)muse|^ruse|recluse|(^|mis|over|re|dis)use)s$/u, '$1'],
+  // Singulars ending in -ie: movies, cookies, pies
+  [/^(.)ies$/u, '$1ie'],
+  [/(movi|cooki|zombi|calori|rooki|selfi|hoodi|geni|prairi|sorti|browni|smoothi|freebi|newbi|goali|aunti|cuti)es$/u, '$1e'],
+  [/([^aeiou])ies$/u, '$1y'],
+  [/(ss|sh|ch|x|zz|us)es$/u, '$1'],
+  [/(ss|us|is)$/u, '$1'],
+  [/s$/u, ''],
+];
+
+/**
+ * Singularizes an English plural word, keeping the case of its first letter.
+ */
+function singularWord(word: string): string {
+  const lower = word.toLowerCase();
+  const keepCase = (singular: string) => word.charAt(0) + singular.slice(1);
+
+  if (UNCOUNTABLE.has(lower)) return word;
+  if (IRREGULAR_PLURALS[lower]) return keepCase(IRREGULAR_PLURALS[lower]);
+  const rule = SINGULAR_RULES.find(([pattern]) => pattern.test(lower));
+  return rule ? keepCase(lower.replace(rule[0], rule[1])) : word;
+}
+
+/**
+ * Singularizes the last word of a PascalCase or camelCase name, e.g.
+ * `UserProfile` for `UserProfiles` and `Category` for `Categories`.
+ *
+ * @param {string} name - Name to singularize
+ * @returns {string} - The singular name
+ */
+export function singularize(name: string): string {
+  const lastWord = /[A-Z]?[a-z0-9]*$/u.exec(name)?.[0] ?? '';
+  if (lastWord.length === 0) return name;
+  const singular = singularWord(lastWord);
+  // Never reduce a name to nothing, e.g. a table called `s`
+  return singular.length > 0 ? name.slice(0, -lastWord.length) + singular : name;
+}
+
+/**
+ * Names of the types generated for a table or view.
+ */
+export interface RowTypeNames {
+  /** Row type, e.g. `User` */
+  select: string;
+  /** Insert type, e.g. `UserInsert` */
+  insert: string;
+  /** Update type, e.g. `UserUpdate`, only set when update types are configured */
+  update?: string;
+}
+
+const DEFAULT_ROW_TYPE_AFFIXES: Pick<ResolvedNamingOptions, 'select' | 'insert' | 'update'> = {
+  select: { prefix: '', suffix: '' },
+  insert: { prefix: '', suffix: 'Insert' },
+};
+
+/**
+ * Builds the names of the select, insert and update types of a table or view
+ * from its type name and the configured prefixes and suffixes.
+ *
+ * @param {string} typeName - PascalCase type name of the table or view, e.g. `User`
+ * @param {Pick<ResolvedNamingOptions, 'select' | 'insert' | 'update'>} naming - Prefixes and suffixes of the types
+ * @returns {RowTypeNames} - The type names
+ */
+export function rowTypeNames(
+  typeName: string,
+  naming: Pick<ResolvedNamingOptions, 'select' | 'insert' | 'update'> = DEFAULT_ROW_TYPE_AFFIXES
+): RowTypeNames {
+  const affix = ({ prefix, suffix }: Required<TypeAffixes>) => `${prefix}${typeName}${suffix}`;
+  return {
+    select: affix(naming.select),
+    insert: affix(naming.insert),
+    ...(naming.update ? { update: affix(naming.update) } : {}),
+  };
+}
+
+/**
+ * Lists the type names that more than one table, view, enum or custom type
+ * of a schema would be exported as from types.ts, which re-exports enums.ts
+ * and custom-types.ts. Duplicate exports do not compile, so they are reported
+ * before anything is written.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {Pick<ResolvedSchemaOptions, 'schemaSuffix' | 'enumStyle' | 'brandedIds'>} options - Options the exported names depend on
+ * @param {(relation: { variableName: string }) => string} typeName - Returns the type name of a table, view or enum
+ * @param {(relation: { variableName: string }) => RowTypeNames} typeNames - Returns the type names of a table or view
+ * @returns {string[]} - One description per colliding name, e.g. "User (user table, users table)"
+ */
+export function typeNameCollisions(
+  schemaModel: SchemaModel,
+  options: Pick<ResolvedSchemaOptions, 'schemaSuffix' | 'enumStyle' | 'brandedIds'>,
+  typeName: (relation: { variableName: string }) => string,
+  typeNames: (relation: { variableName: string }) => RowTypeNames
+): string[] {
+  const sources = new Map<string, string[]>();
+  const add = (name: string | undefined, source: string) => {
+    if (name === undefined) return;
+    if (!sources.has(name)) sources.set(name, []);
+    sources.get(name)!.push(source);
+  };
+
+  for (const table of schemaModel.tables) {
+    const names = typeNames(table);
+    add(names.select, `${table.name} table`);
+    add(names.insert, `${table.name} insert type`);
+    add(names.update, `${table.name} update type`);
+    if (options.brandedIds && table.primaryKey.length === 1) add(`${typeName(table)}Id`, `${table.name} ID type`);
+  }
+  for (const view of schemaModel.views) {
+    add(typeNames(view).select, `${view.name} ${view.materialized ? 'materialized view' : 'view'}`);
+  }
+  for (const enumDef of schemaModel.enums) {
+    add(`${typeName(enumDef)}Type`, `${enumDef.name} enum type`);
+    if (enumDef.values.length === 0) continue;
+    const enumName = enumTypeName(enumDef.name, options.schemaSuffix);
+    // Union-style enums only export the union type
+    if (options.enumStyle !== 'union') {
+      add(enumName, `${enumDef.name} enum`);
+      add(`${enumName}Enums`, `${enumDef.name} enum values`);
+    }
+    add(`${enumName}Type`, `${enumDef.name} enum union`);
+  }
+  for (const type of [...schemaModel.compositeTypes, ...schemaModel.domains]) {
+    add(customTypeName(type.name, options.schemaSuffix), `${type.name} type`);
+  }
+
+  return [...sources]
+    .filter(([, names]) => names.length > 1)
+    .map(([name, names]) => `${name} (${names.join(', ')})`);
+}
@@ -0,0 +1,106 @@
+/**
+ * The generator plugin interface. Every generated file besides schema.ts and
+ * snapshot.json comes from a plugin: the built-in ones in builtin-plugins.ts
+ * and the ones registered through `plugins` in the project config.
+ */
+
+import { basename, extname } from 'path';
+import type { ResolvedSchemaOptions } from './config.js';
+import type { Reporter } from './generate.js';
+import type { SchemaModel } from './model.js';
+import type { RowTypeNames } from './naming.js';
+
+/**
+ * A file returned by a plugin.
+ */
+export interface GeneratedFile {
+  /** File name inside the schema directory, e.g. `zod.ts` */
+  path: string;
+  /** Content to write, or `null` to remove a file left behind by an earlier run */
+  content: string | null;
+  /** Re-export the module from index.ts with `export * from './<module>'`. Only .ts files can be re-exported */
+  export?: boolean;
+}
+
+/**
+ * What a plugin receives to generate its files.
+ */
+export interface PluginContext {
+  /** Model of the schema: tables, columns, views, enums, foreign keys and custom types */
+  schemaModel: SchemaModel;
+  /** Resolved options of the schema */
+  options: ResolvedSchemaOptions;
+  /** Files returned by the plugins that ran before, in order */
+  files: readonly GeneratedFile[];
+  /** Returns the readable base name of a variable, without the schema suffix */
+  baseName(variableName: string): string;
+  /** Returns the PascalCase type name of a table, view or enum, e.g. `UserProfile` for `userProfileAuthS`, singular if configured */
+  typeName(relation: { variableName: string }): string;
+  /** Returns the names of the select, insert and update types of a table or view, e.g. `UserProfile` and `UserProfileInsert` */
+  rowTypeNames(relation: { variableName: string }): RowTypeNames;
+  /** Reads a file of the schema directory, e.g. one kept from an earlier run. Undefined if it does not exist */
+  readFile(path: string): Promise<string | undefined>;
+  /** Starts a progress step */
+  report: Reporter;
+  /** Records a non-fatal problem in the result */
+  warn(message: string): void;
+}
+
+/**
+ * Generates files from the schema model. Plugins from the project config run
+ * after the built-in generators and before index.ts is written.
+ */
+export interface GeneratorPlugin {
+  /** Name shown in progress messages and errors */
+  name: string;
+  generate(context: PluginContext): GeneratedFile[] | undefined | Promise<GeneratedFile[] | undefined>;
+}
+
+/**
+ * Files that only the generator itself writes.
+ */
+const RESERVED_FILES = ['schema.ts', 'snapshot.json', 'index.ts'];
+
+/**
+ * Returns whether a file carries a header of the generator, e.g.
+ * `Auto-generated TypeScript enums` or `Generated at: <timestamp>`. Files
+ * returned with `null` content are only removed when they do, so that a file
+ * written by hand under the same name is left alone.
+ *
+ * @param {string} content - Content of the file on disk
+ * @returns {boolean} - Whether the file was generated
+ */
+export function hasGeneratedHeader(content: string): boolean {
+  return /auto-generated|Generated at: \S+/iu.test(content.slice(0, 1000));
+}
+
+/**
+ * Returns the module name index.ts re-exports a file under, e.g. `zod` for `zod.ts`.
+ *
+ * @param {GeneratedFile} file - A generated file
+ * @returns {string} - The module name
+ */
+export function moduleName(file: GeneratedFile): string {
+  return basename(file.path, '.ts');
+}
+
+/**
+ * Throws when a file returned by a plugin from the project config would be
+ * written outside the schema directory, overwrite a file of the generator or
+ * of an earlier plugin, or cannot be re-exported.
+ *
+ * @param {GeneratorPlugin} plugin - The plugin that returned the file
+ * @param {GeneratedFile} file - The returned file
+ * @param {readonly GeneratedFile[]} generated - Files returned by earlier plugins
+ */
+export function validateGeneratedFile(plugin: GeneratorPlugin, file: GeneratedFile, generated: readonly GeneratedFile[]) {
+  if (!file.path || basename(file.path) !== file.path || file.path === '.' || file.path === '..') {
+    throw new Error(`Plugin ${plugin.name} returned ${JSON.stringify(file.path)}, which is not a file name. Plugins can only write files directly inside the schema directory.`);
+  }
+  if (RESERVED_FILES.includes(file.path) || generated.some((earlier) => earlier.path === file.path)) {
+    throw new Error(`Plugin ${plugin.name} returned ${file.path}, which is already generated.`);
+  }
+  if (file.export && extname(file.path) !== '.ts') {
+    throw new Error(`Plugin ${plugin.name} asked to re-export ${file.path} from index.ts, but only .ts files can be re-exported.`);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Renders the Drizzle `relations()` definitions of relations.ts from the
+ * foreign keys of a schema.
+ */
+
+import type { ForeignKeyModel, SchemaModel, TableModel } from './model.js';
+import { camelCase, pascalCase } from './naming.js';
+
+/**
+ * A relation of a table, as a property of its `relations()` definition.
+ */
+interface RelationProperty {
+  name: string;
+  helper: 'one' | 'many';
+  /** Variable name of the related table */
+  target: string;
+  /** Config object of the relation, if any */
+  config?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/u;
+
+/**
+ * Renders a property access, quoting property names that are not identifiers.
+ */
+function member(object: string, property: string): string {
+  return IDENTIFIER.test(property) ? `${object}.${property}` : `${object}[${JSON.stringify(property)}]`;
+}
+
+/**
+ * Picks the first candidate name that is still free, numbering the last one if none is.
+ */
+function freeName(candidates: string[], used: Set<string>): string {
+  let name = candidates.find((candidate) => IDENTIFIER.test(candidate) && !used.has(candidate));
+  for (let index = 2; !name; index++) {
+    const numbered = `${candidates[candidates.length - 1]}${index}`;
+    if (!used.has(numbered)) name = numbered;
+  }
+  used.add(name);
+  return name;
+}
+
+/**
+ * Renders a `relations()` definition for every table that has a foreign key or
+ * is referenced by one, without a file header or imports. Each foreign key
+ * becomes a `one` relation on the referencing table, named after its column
+ * (`userId` becomes `user`), and a `many` relation on the referenced table,
+ * named after the referencing table. When two tables are related by more than
+ * one foreign key, or a table references itself, the `many` relations are named
+ * after the `one` relations (`messagesBySender`) and both sides get a
+ * `relationName`, so Drizzle can pair them. Names never collide with columns
+ * or with each other. Foreign keys into other schemas are left out, since
+ * both tables of a relation have to be in the same Drizzle schema.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @returns {{ declarations: string; tables: string[] }} - The definitions and the variable names of the tables they use
+ */
+export function renderRelations(schemaModel: SchemaModel): { declarations: string; tables: string[] } {
+  const relationsByTable = new Map<TableModel, RelationProperty[]>();
+  const usedNames = new Map<TableModel, Set<string>>();
+  for (const table of schemaModel.tables) {
+    relationsByTable.set(table, []);
+    usedNames.set(table, new Set(table.columns.map((column) => column.propertyName)));
+  }
+
+  const localForeignKeys: Array<{ table: TableModel; foreignTable: TableModel; foreignKey: ForeignKeyModel }> = [];
+  for (const table of schemaModel.tables) {
+    for (const foreignKey of table.foreignKeys) {
+      const foreignTable = schemaModel.tables.find((candidate) => candidate.name === foreignKey.foreignTable);
+      if (foreignKey.foreignSchema || !foreignTable || foreignKey.columns.length === 0) continue;
+      localForeignKeys.push({ table, foreignTable, foreignKey });
+    }
+  }
+
+  // Tables related by several foreign keys need a relationName to pair both sides
+  const pairKey = (a: TableModel, b: TableModel) => [a.name, b.name].sort().join('\0');
+  const pairCounts = new Map<string, number>();
+  for (const { table, foreignTable } of localForeignKeys) {
+    pairCounts.set(pairKey(table, foreignTable), (pairCounts.get(pairKey(table, foreignTable)) ?? 0) + 1);
+  }
+
+  for (const { table, foreignTable, foreignKey } of localForeignKeys) {
+    const ambiguous = table === foreignTable || pairCounts.get(pairKey(table, foreignTable))! > 1;
+    const properties = (model: TableModel, columnNames: string[]) =>
+      columnNames.map((name) => model.columns.find((column) => column.name === name)?.propertyName ?? camelCase(name));
+    const fields = properties(table, foreignKey.columns);
+    const references = properties(foreignTable, foreignKey.foreignColumns);
+    const relationName = ambiguous
+      ? `relationName: ${JSON.stringify(foreignKey.name ?? `${table.name}_${foreignKey.columns.join('_')}_fkey`)}`
+      : undefined;
+
+    const fieldName = fields.length === 1 ? fields[0]!.replace(/(?:Id|_id)$/u, '') : '';
+    const oneName = freeName(
+      [fieldName, camelCase(foreignTable.name), `${camelCase(foreignTable.name)}By${pascalCase(fields.join('_'))}`].filter(Boolean),
+      usedNames.get(table)!
+    );
+    relationsByTable.get(table)!.push({
+      name: oneName,
+      helper: 'one',
+      target: foreignTable.variableName,
+      config: `{
+    fields: [${fields.map((field) => member(table.variableName, field)).join(', ')}],
+    references: [${references.map((reference) => member(foreignTable.variableName, reference)).join(', ')}],${relationName ? `
+    ${relationName},` : ''}
+  }`,
+    });
+
+    const manyName = freeName(
+      ambiguous
+        ? [`${camelCase(table.name)}By${pascalCase(oneName)}`]
+        : [camelCase(table.name), `${camelCase(table.name)}By${pascalCase(oneName)}`],
+      usedNames.get(foreignTable)!
+    );
+    relationsByTable.get(foreignTable)!.push({
+      name: manyName,
+      helper: 'many',
+      target: table.variableName,
+      ...(relationName ? { config: `{ ${relationName} }` } : {}),
+    });
+  }
+
+  let declarations = '';
+  const tables = new Set<string>();
+  for (const [table, properties] of relationsByTable) {
+    if (properties.length === 0) continue;
+
+    const helpers = (['one', 'many'] as const).filter((helper) => properties.some((property) => property.helper === helper));
+    tables.add(table.variableName);
+    for (const property of properties) tables.add(property.target);
+
+    declarations += `
+export const ${table.variableName}Relations = relations(${table.variableName}, ({ ${helpers.join(', ')} }) => ({
+${properties.map((property) => `  ${property.name}: ${property.helper}(${property.target}${property.config ? `, ${property.config}` : ''}),`).join('\n')}
+}));
+`;
+  }
+
+  return { declarations, tables: [...tables].sort() };
+}
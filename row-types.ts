@@ -0,0 +1,136 @@
+/**
+ * Renders plain row interfaces for the tables and views of a schema model. These do not
+ * depend on Drizzle, so they are used when the schema comes from the catalog and for pg-rows.ts.
+ */
+
+import type { BrandedIds } from './branded-ids.js';
+import { tsColumnType } from './column-types.js';
+import { jsDoc } from './doc-comments.js';
+import type { ColumnModel, SchemaModel, TableModel, ViewModel } from './model.js';
+import { customTypeName, enumTypeName, pascalCase, rowTypeNames, type RowTypeNames } from './naming.js';
+import type { TypeOverrider } from './type-overrides.js';
+
+/**
+ * Rendered row interfaces and the enum types they reference.
+ */
+export interface RenderedRowTypes {
+  declarations: string;
+  /** Names of the `...Type` unions from enums.ts used by the declarations */
+  enumTypes: string[];
+  /** Names of the composite types and domains from custom-types.ts used by the declarations */
+  customTypes: string[];
+}
+
+/**
+ * Maps a column to the TypeScript type of its values, e.g. {@link tsColumnType}.
+ */
+export type ColumnTypeMapper = (column: ColumnModel, namedType?: string) => string;
+
+/**
+ * Maps columns to TypeScript types and collects the named types they use.
+ */
+export interface ColumnTyper {
+  columnType: (column: ColumnModel) => string;
+  enumTypes: Set<string>;
+  customTypes: Set<string>;
+}
+
+/**
+ * Quotes a property key when it is not a valid identifier.
+ */
+export function propertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/u.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Creates a column typer that points enum-typed columns at the `...Type`
+ * unions of enums.ts and composite or domain columns at custom-types.ts.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {string} suffix - Schema suffix used for the generated type names
+ * @param {ColumnTypeMapper} mapType - Maps a column and its named type to a TypeScript type
+ * @returns {ColumnTyper} - The column typer
+ */
+export function createColumnTyper(schemaModel: SchemaModel, suffix: string, mapType: ColumnTypeMapper = tsColumnType): ColumnTyper {
+  const enumNames = new Set(schemaModel.enums.filter((enumDef) => enumDef.values.length > 0).map((enumDef) => enumDef.name));
+  const customTypeNames = new Set([...schemaModel.compositeTypes, ...schemaModel.domains].map((type) => type.name));
+  const enumTypes = new Set<string>();
+  const customTypes = new Set<string>();
+
+  const columnType = (column: ColumnModel) => {
+    if (column.typeName && customTypeNames.has(column.typeName)) {
+      const customType = customTypeName(column.typeName, suffix);
+      customTypes.add(customType);
+      return mapType(column, customType);
+    }
+    if (!column.enumName || !enumNames.has(column.enumName)) return mapType(column);
+    const enumType = `${enumTypeName(column.enumName, suffix)}Type`;
+    enumTypes.add(enumType);
+    return mapType(column, enumType);
+  };
+  return { columnType, enumTypes, customTypes };
+}
+
+/**
+ * Renders a select row interface and an insert row interface for every table,
+ * plus an update type if configured, and a select row interface for every view.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {string} suffix - Schema suffix used for the generated enum names
+ * @param {(relation: TableModel | ViewModel) => RowTypeNames} typeNames - Returns the type names of a table or view
+ * @param {BrandedIds} brandedIds - Branded ID types of the key columns, if enabled
+ * @param {ColumnTypeMapper} mapType - Maps a column to a TypeScript type, e.g. {@link pgColumnType} for `pg` rows
+ * @param {TypeOverrider} overrider - Types set in the config, which win over the mapped and branded types
+ * @returns {RenderedRowTypes} - The declarations and the named types they use
+ */
+export function renderRowTypes(
+  schemaModel: SchemaModel,
+  suffix: string,
+  typeNames: (relation: TableModel | ViewModel) => RowTypeNames = (relation) => rowTypeNames(pascalCase(relation.variableName)),
+  brandedIds?: BrandedIds,
+  mapType: ColumnTypeMapper = tsColumnType,
+  overrider?: TypeOverrider
+): RenderedRowTypes {
+  const { columnType, enumTypes, customTypes } = createColumnTyper(schemaModel, suffix, mapType);
+  const fieldType = (table: TableModel, column: ColumnModel) => {
+    const override = overrider?.columnType(table, column);
+    if (override) return override;
+    const idType = brandedIds?.columns.get(table.name)?.get(column.propertyName);
+    if (!idType) return columnType(column);
+    return column.notNull ? idType : `${idType} | null`;
+  };
+  let declarations = '';
+
+  const columnDoc = (column: ColumnModel) => (column.comment ? jsDoc(column.comment, '  ') : '');
+
+  for (const table of schemaModel.tables) {
+    const names = typeNames(table);
+
+    declarations += `
+${jsDoc(table.comment ?? `Defines the \`${names.select}\` type for entities in the \`${schemaModel.name}\`.`)}export interface ${names.select} {
+${table.columns.map((column) => `${columnDoc(column)}  ${propertyName(column.propertyName)}: ${fieldType(table, column)};`).join('\n')}
+}
+
+export interface ${names.insert} {
+${table.columns
+  .map((column) => {
+    const optional = !column.notNull || column.hasDefault ? '?' : '';
+    return `${columnDoc(column)}  ${propertyName(column.propertyName)}${optional}: ${fieldType(table, column)};`;
+  })
+  .join('\n')}
+}
+${names.update ? `\nexport type ${names.update} = Partial<${names.insert}>;\n` : ''}`;
+  }
+
+  for (const view of schemaModel.views) {
+    const name = typeNames(view).select;
+
+    declarations += `
+${jsDoc(view.comment ?? `Defines the \`${name}\` row type of the \`${view.name}\` ${view.materialized ? 'materialized view' : 'view'} in the \`${schemaModel.name}\`.`)}export interface ${name} {
+${view.columns.map((column) => `${columnDoc(column)}  ${propertyName(column.propertyName)}: ${overrider?.columnType(view, column) ?? columnType(column)};`).join('\n')}
+}
+`;
+  }
+
+  return { declarations, enumTypes: [...enumTypes].sort(), customTypes: [...customTypes].sort() };
+}
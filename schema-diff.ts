@@ -0,0 +1,289 @@
+/**
+ * Compares two models of a schema, e.g. the last saved generation and the
+ * current database, and reports what changed for the generated types.
+ */
+
+import c from 'ansi-colors';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tsColumnType } from './column-types.js';
+import type { ColumnModel, EnumModel, SchemaModel, TableModel, ViewModel } from './model.js';
+import { readSchemaModel } from './schema-reader.js';
+import { readSnapshotModel, type DrizzleSnapshot } from './snapshot-reader.js';
+
+/**
+ * What changed about a table, view, column or enum.
+ */
+export type SchemaChangeKind =
+  | 'table-added'
+  | 'table-removed'
+  | 'view-added'
+  | 'view-removed'
+  | 'column-added'
+  | 'column-removed'
+  | 'column-retyped'
+  | 'column-nullability'
+  | 'enum-added'
+  | 'enum-removed'
+  | 'enum-value-added'
+  | 'enum-value-removed'
+  | 'enum-values-reordered';
+
+/**
+ * A single change between two models of a schema.
+ */
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  /** Database name of the table, view or enum */
+  object: string;
+  /** Column name, for column changes */
+  column?: string;
+  /** Enum value, for added and removed enum values */
+  value?: string;
+  /** Previous type, nullability or value order */
+  from?: string;
+  /** Current type, nullability or value order */
+  to?: string;
+  /** Whether code using the previously generated types may stop compiling */
+  breaking: boolean;
+  /** Human-readable description of the change */
+  message: string;
+}
+
+/**
+ * Describes the database type of a column, e.g. `varchar(255)`, `numeric(10, 2)` or `enum role[]`.
+ */
+function columnType(column: ColumnModel): string {
+  let type = column.enumName ? `enum ${column.enumName}` : column.typeName ?? column.dataType;
+  if (column.length !== undefined) type += `(${column.length})`;
+  if (column.precision !== undefined) type += `(${column.precision}${column.scale !== undefined ? `, ${column.scale}` : ''})`;
+  if (column.withTimezone) type += ' with time zone';
+  return column.isArray ? `${type}[]` : type;
+}
+
+/**
+ * Lists the column changes of a table or view that exists in both models.
+ */
+function diffColumns(previous: TableModel | ViewModel, current: TableModel | ViewModel, isTable: boolean): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const object = current.name;
+
+  for (const column of current.columns) {
+    const before = previous.columns.find((candidate) => candidate.name === column.name);
+    if (!before) {
+      // A new required column without a default has to be set by every insert
+      const required = isTable && column.notNull && !column.hasDefault;
+      changes.push({
+        kind: 'column-added',
+        object,
+        column: column.name,
+        to: columnType(column),
+        breaking: required,
+        message: `Column ${object}.${column.name} (${columnType(column)}) was added${required ? ' and is required in inserts' : ''}`,
+      });
+      continue;
+    }
+
+    if (columnType(before) !== columnType(column)) {
+      // Retyping only breaks code when the TypeScript type changes, e.g. not for a longer varchar
+      const namedType = (model: ColumnModel) => model.enumName ?? model.typeName;
+      const tsType = (model: ColumnModel) => tsColumnType({ ...model, notNull: true }, namedType(model));
+      changes.push({
+        kind: 'column-retyped',
+        object,
+        column: column.name,
+        from: columnType(before),
+        to: columnType(column),
+        breaking: tsType(before) !== tsType(column),
+        message: `Column ${object}.${column.name} changed type from ${columnType(before)} to ${columnType(column)}`,
+      });
+    }
+
+    if (before.notNull !== column.notNull) {
+      // Nullable columns add `| null` to select types; new NOT NULL columns without a default become required in inserts
+      const breaking = !column.notNull || (isTable && !column.hasDefault);
+      changes.push({
+        kind: 'column-nullability',
+        object,
+        column: column.name,
+        from: before.notNull ? 'not null' : 'nullable',
+        to: column.notNull ? 'not null' : 'nullable',
+        breaking,
+        message: column.notNull
+          ? `Column ${object}.${column.name} became NOT NULL${breaking ? ' and is required in inserts' : ''}`
+          : `Column ${object}.${column.name} became nullable, so selects can return null`,
+      });
+    }
+  }
+
+  for (const column of previous.columns) {
+    if (current.columns.some((candidate) => candidate.name === column.name)) continue;
+    changes.push({
+      kind: 'column-removed',
+      object,
+      column: column.name,
+      from: columnType(column),
+      breaking: true,
+      message: `Column ${object}.${column.name} was removed`,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Lists the value changes of an enum that exists in both models.
+ */
+function diffEnumValues(previous: EnumModel, current: EnumModel): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const object = current.name;
+
+  for (const value of current.values) {
+    if (previous.values.includes(value)) continue;
+    changes.push({ kind: 'enum-value-added', object, value, breaking: false, message: `Enum ${object} gained the value '${value}'` });
+  }
+  for (const value of previous.values) {
+    if (current.values.includes(value)) continue;
+    changes.push({ kind: 'enum-value-removed', object, value, breaking: true, message: `Enum ${object} lost the value '${value}'` });
+  }
+
+  // Only the relative order of the values both models share counts as a reordering
+  const kept = previous.values.filter((value) => current.values.includes(value));
+  const keptNow = current.values.filter((value) => previous.values.includes(value));
+  if (kept.join('\0') !== keptNow.join('\0')) {
+    changes.push({
+      kind: 'enum-values-reordered',
+      object,
+      from: kept.join(', '),
+      to: keptNow.join(', '),
+      breaking: false,
+      message: `Enum ${object} values were reordered from (${kept.join(', ')}) to (${keptNow.join(', ')})`,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Compares two models of the same schema. Tables, views, columns and enums are
+ * matched by their database names.
+ *
+ * @param {SchemaModel} previous - Model of the last saved generation
+ * @param {SchemaModel} current - Model of the schema as it is now
+ * @returns {SchemaChange[]} - The changes, tables and views first, then enums
+ */
+export function diffSchemaModels(previous: SchemaModel, current: SchemaModel): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  const relations = (model: SchemaModel) => [
+    ...model.tables.map((table) => ({ relation: table as TableModel | ViewModel, isTable: true })),
+    ...model.views.map((view) => ({ relation: view as TableModel | ViewModel, isTable: false })),
+  ];
+  const previousRelations = relations(previous);
+  const currentRelations = relations(current);
+
+  for (const { relation, isTable } of currentRelations) {
+    const before = previousRelations.find((candidate) => candidate.isTable === isTable && candidate.relation.name === relation.name);
+    if (before) {
+      changes.push(...diffColumns(before.relation, relation, isTable));
+    } else {
+      changes.push({
+        kind: isTable ? 'table-added' : 'view-added',
+        object: relation.name,
+        breaking: false,
+        message: `${isTable ? 'Table' : 'View'} ${relation.name} was added`,
+      });
+    }
+  }
+  for (const { relation, isTable } of previousRelations) {
+    if (currentRelations.some((candidate) => candidate.isTable === isTable && candidate.relation.name === relation.name)) continue;
+    changes.push({
+      kind: isTable ? 'table-removed' : 'view-removed',
+      object: relation.name,
+      breaking: true,
+      message: `${isTable ? 'Table' : 'View'} ${relation.name} was removed`,
+    });
+  }
+
+  for (const enumDef of current.enums) {
+    const before = previous.enums.find((candidate) => candidate.name === enumDef.name);
+    if (before) {
+      changes.push(...diffEnumValues(before, enumDef));
+    } else {
+      changes.push({ kind: 'enum-added', object: enumDef.name, breaking: false, message: `Enum ${enumDef.name} was added` });
+    }
+  }
+  for (const enumDef of previous.enums) {
+    if (current.enums.some((candidate) => candidate.name === enumDef.name)) continue;
+    changes.push({ kind: 'enum-removed', object: enumDef.name, breaking: true, message: `Enum ${enumDef.name} was removed` });
+  }
+
+  return changes;
+}
+
+/**
+ * Reads the model of the last saved generation of a schema from its output
+ * directory: the snapshot.json kept by the last full run, with identifiers
+ * from schema.ts, or schema.ts alone.
+ *
+ * @param {string} schemaDir - Output directory of the schema
+ * @param {string} schemaName - Name of the database schema
+ * @returns {Promise<SchemaModel | undefined>} - The saved model, or undefined if nothing was saved
+ */
+export async function readSavedSchemaModel(schemaDir: string, schemaName: string): Promise<SchemaModel | undefined> {
+  const readOptional = (name: string) => fs.readFile(join(schemaDir, name), 'utf8').catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') return undefined;
+    throw error;
+  });
+
+  const schemaPath = join(schemaDir, 'schema.ts');
+  const schemaContent = await readOptional('schema.ts');
+  const snapshotContent = await readOptional('snapshot.json');
+  const schemaFileModel = schemaContent === undefined ? undefined : readSchemaModel(schemaContent, schemaName, schemaPath);
+
+  if (snapshotContent !== undefined) {
+    return readSnapshotModel(JSON.parse(snapshotContent) as DrizzleSnapshot, schemaName, schemaFileModel);
+  }
+  return schemaFileModel;
+}
+
+/**
+ * Change categories of the report, in order.
+ */
+const CATEGORIES: Array<{ title: string; kinds: SchemaChangeKind[] }> = [
+  { title: 'Tables and views', kinds: ['table-added', 'table-removed', 'view-added', 'view-removed'] },
+  { title: 'Columns', kinds: ['column-added', 'column-removed', 'column-retyped'] },
+  { title: 'Nullability', kinds: ['column-nullability'] },
+  { title: 'Enums', kinds: ['enum-added', 'enum-removed', 'enum-value-added', 'enum-value-removed', 'enum-values-reordered'] },
+];
+
+/**
+ * Formats schema changes as a colored, human-readable report grouped by category.
+ *
+ * @param {string} schemaName - Name of the compared schema
+ * @param {SchemaChange[]} changes - Changes from {@link diffSchemaModels}
+ * @returns {string} - The report
+ */
+export function formatSchemaChanges(schemaName: string, changes: SchemaChange[]): string {
+  if (changes.length === 0) {
+    return c.green(`No schema changes in ${schemaName} since the last generation`);
+  }
+
+  const breaking = changes.filter((change) => change.breaking).length;
+  const lines = [
+    c.bold(`Schema changes in ${schemaName} since the last generation (${changes.length} changes, ${breaking} breaking):`),
+  ];
+
+  for (const category of CATEGORIES) {
+    const categoryChanges = changes.filter((change) => category.kinds.includes(change.kind));
+    if (categoryChanges.length === 0) continue;
+
+    lines.push('', c.cyan(category.title));
+    for (const change of categoryChanges) {
+      const marker = change.kind.endsWith('-added') ? c.green('+') : change.kind.endsWith('-removed') ? c.red('-') : c.yellow('~');
+      lines.push(`  ${marker} ${change.message}${change.breaking ? ` ${c.red.bold('BREAKING')}` : ''}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,707 @@
+/**
+ * Reads a Drizzle schema file (as written by `drizzle-kit pull`) into a
+ * {@link SchemaModel} using the TypeScript compiler API.
+ */
+
+import ts from 'typescript';
+import { jsDoc } from './doc-comments.js';
+import type {
+  ColumnModel,
+  EnumModel,
+  ForeignKeyModel,
+  IndexModel,
+  ReferentialAction,
+  SchemaModel,
+  TableModel,
+  ViewModel,
+} from './model.js';
+
+/**
+ * A call in a builder chain such as `uuid("id").primaryKey().notNull()`.
+ */
+interface ChainCall {
+  name: string;
+  args: readonly ts.Expression[];
+  node: ts.CallExpression;
+}
+
+/**
+ * A builder chain split into its base call and the modifiers applied to it.
+ */
+interface CallChain {
+  base: ChainCall;
+  modifiers: ChainCall[];
+}
+
+/**
+ * A top-level `const` declaration together with the names it is exported as.
+ */
+interface Declaration {
+  localName: string;
+  initializer: ts.Expression;
+  exportedNames: string[];
+  /** The `const` statement, which carries the declaration's doc comment */
+  statement: ts.VariableStatement;
+}
+
+/**
+ * A table, view or enum definition found in the schema file.
+ */
+interface Definition {
+  kind: 'table' | 'view' | 'materializedView' | 'enum';
+  declaration: Declaration;
+  call: ts.CallExpression;
+  /** Database schema the definition belongs to */
+  schema: string;
+}
+
+/**
+ * A foreign key whose referenced table is still a local identifier.
+ */
+interface PendingForeignKey {
+  table: TableModel;
+  foreignKey: ForeignKeyModel;
+  foreignLocal: string;
+  foreignProperties: string[];
+}
+
+const REFERENTIAL_ACTIONS: readonly string[] = ['cascade', 'restrict', 'no action', 'set null', 'set default'];
+
+const SERIAL_BUILDERS: readonly string[] = ['serial', 'smallserial', 'bigserial'];
+
+const DEFAULT_MODIFIERS: Record<string, string | undefined> = {
+  defaultNow: 'now()',
+  defaultRandom: 'gen_random_uuid()',
+  $defaultFn: undefined,
+  $default: undefined,
+  generatedAlwaysAs: undefined,
+  generatedAlwaysAsIdentity: undefined,
+  generatedByDefaultAsIdentity: undefined,
+};
+
+/**
+ * Removes parentheses, type assertions and `satisfies` clauses around an expression.
+ */
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isNonNullExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+/**
+ * Returns the text of a string literal expression, or undefined for anything else.
+ */
+function stringValue(expression: ts.Expression | undefined): string | undefined {
+  if (!expression) return undefined;
+  const node = unwrapExpression(expression);
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the value of a numeric literal expression, or undefined for anything else.
+ */
+function numberValue(expression: ts.Expression | undefined): number | undefined {
+  if (!expression) return undefined;
+  const node = unwrapExpression(expression);
+  return ts.isNumericLiteral(node) ? Number(node.text) : undefined;
+}
+
+/**
+ * Returns the name of a property key that is an identifier or a string literal.
+ */
+function propertyKey(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Collects the properties of an object literal as a name to initializer map.
+ */
+function objectProperties(expression: ts.Expression | undefined): Map<string, ts.Expression> {
+  const properties = new Map<string, ts.Expression>();
+  if (!expression) return properties;
+  const node = unwrapExpression(expression);
+  if (!ts.isObjectLiteralExpression(node)) return properties;
+
+  for (const property of node.properties) {
+    if (ts.isPropertyAssignment(property)) {
+      const key = propertyKey(property.name);
+      if (key) properties.set(key, property.initializer);
+    } else if (ts.isShorthandPropertyAssignment(property)) {
+      properties.set(property.name.text, property.name);
+    }
+  }
+  return properties;
+}
+
+/**
+ * Splits a builder chain into its base call and modifiers, in source order.
+ *
+ * The base call is the innermost call whose callee is an identifier
+ * (`pgTable(...)`) or a property of a plain identifier (`authSchema.table(...)`).
+ */
+function splitCallChain(expression: ts.Expression): CallChain | undefined {
+  const modifiers: ChainCall[] = [];
+  let current = unwrapExpression(expression);
+
+  while (ts.isCallExpression(current)) {
+    const callee = unwrapExpression(current.expression);
+
+    if (ts.isIdentifier(callee)) {
+      return { base: { name: callee.text, args: current.arguments, node: current }, modifiers };
+    }
+
+    if (!ts.isPropertyAccessExpression(callee)) return undefined;
+
+    const target = unwrapExpression(callee.expression);
+    if (ts.isIdentifier(target)) {
+      return {
+        base: { name: `${target.text}.${callee.name.text}`, args: current.arguments, node: current },
+        modifiers,
+      };
+    }
+
+    modifiers.unshift({ name: callee.name.text, args: current.arguments, node: current });
+    current = target;
+  }
+
+  return undefined;
+}
+
+/**
+ * Collects top-level `const` declarations and the names each one is exported as,
+ * covering both `export const x = ...` and `export { x, y as z }`.
+ */
+function collectDeclarations(sourceFile: ts.SourceFile): Map<string, Declaration> {
+  const declarations = new Map<string, Declaration>();
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+
+    const isExported = statement.modifiers?.some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    ) ?? false;
+
+    for (const declaration of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue;
+      const localName = declaration.name.text;
+      declarations.set(localName, {
+        localName,
+        initializer: declaration.initializer,
+        exportedNames: isExported ? [localName] : [],
+        statement,
+      });
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isExportDeclaration(statement) ||
+      statement.moduleSpecifier ||
+      !statement.exportClause ||
+      !ts.isNamedExports(statement.exportClause)
+    ) {
+      continue;
+    }
+
+    for (const element of statement.exportClause.elements) {
+      const localName = (element.propertyName ?? element.name).text;
+      declarations.get(localName)?.exportedNames.push(element.name.text);
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Collects the property names accessed on the table callback parameter
+ * anywhere inside the given nodes, e.g. `table.email` in `.on(table.email.asc())`.
+ */
+function collectTableProperties(nodes: readonly ts.Node[], tableParam: string): string[] {
+  const properties: string[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isPropertyAccessExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === tableParam
+    ) {
+      if (!properties.includes(node.name.text)) properties.push(node.name.text);
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  nodes.forEach(visit);
+  return properties;
+}
+
+/**
+ * Returns the `identifier.property` pairs of an array literal such as
+ * `[usersInAuth.id, usersInAuth.tenantId]`.
+ */
+function propertyReferences(expression: ts.Expression | undefined): Array<{ target: string; property: string }> {
+  if (!expression) return [];
+  const node = unwrapExpression(expression);
+  const elements = ts.isArrayLiteralExpression(node) ? node.elements : [node];
+  const references: Array<{ target: string; property: string }> = [];
+
+  for (const element of elements) {
+    const reference = unwrapExpression(element);
+    if (ts.isPropertyAccessExpression(reference) && ts.isIdentifier(reference.expression)) {
+      references.push({ target: reference.expression.text, property: reference.name.text });
+    }
+  }
+  return references;
+}
+
+/**
+ * Returns the referential action named by a string literal, if it is a valid one.
+ */
+function referentialAction(expression: ts.Expression | undefined): ReferentialAction | undefined {
+  const value = stringValue(expression)?.toLowerCase();
+  return value && REFERENTIAL_ACTIONS.includes(value) ? (value as ReferentialAction) : undefined;
+}
+
+/**
+ * Returns the expressions returned by the extra config callback of a table,
+ * supporting both the array form and the older object form.
+ */
+function extraConfigEntries(callback: ts.Expression | undefined): { tableParam?: string; entries: ts.Expression[] } {
+  if (!callback) return { entries: [] };
+  const node = unwrapExpression(callback);
+  if (!ts.isArrowFunction(node) && !ts.isFunctionExpression(node)) return { entries: [] };
+
+  const param = node.parameters[0];
+  const tableParam = param && ts.isIdentifier(param.name) ? param.name.text : undefined;
+
+  let returned: ts.Expression | undefined;
+  if (ts.isBlock(node.body)) {
+    const returnStatement = node.body.statements.find(ts.isReturnStatement);
+    returned = returnStatement?.expression;
+  } else {
+    returned = node.body;
+  }
+
+  if (!returned) return { tableParam, entries: [] };
+  const value = unwrapExpression(returned);
+
+  if (ts.isArrayLiteralExpression(value)) {
+    return { tableParam, entries: [...value.elements] };
+  }
+  return { tableParam, entries: [...objectProperties(value).values()] };
+}
+
+/**
+ * Finds the declarations that define a table, view or enum, either directly
+ * (`pgTable(...)`) or through a `pgSchema("name")` namespace (`xSchema.table(...)`).
+ */
+function collectDefinitions(declarations: Map<string, Declaration>): Definition[] {
+  // Find `pgSchema("name")` namespaces so that `xSchema.table(...)` can be recognised
+  const schemaNamespaces = new Map<string, string>();
+  for (const declaration of declarations.values()) {
+    const chain = splitCallChain(declaration.initializer);
+    if (chain?.base.name === 'pgSchema' && chain.modifiers.length === 0) {
+      const namespace = stringValue(chain.base.args[0]);
+      if (namespace) schemaNamespaces.set(declaration.localName, namespace);
+    }
+  }
+
+  // Classify every declaration that defines a table or an enum
+  const definitions: Definition[] = [];
+  for (const declaration of declarations.values()) {
+    const chain = splitCallChain(declaration.initializer);
+    if (!chain) continue;
+
+    const [target, member] = chain.base.name.split('.');
+    let kind: Definition['kind'] | undefined;
+    let schema = 'public';
+
+    if (!member && target === 'pgTable') kind = 'table';
+    if (!member && target === 'pgView') kind = 'view';
+    if (!member && target === 'pgMaterializedView') kind = 'materializedView';
+    if (!member && target === 'pgEnum') kind = 'enum';
+    if (member && target && schemaNamespaces.has(target)) {
+      schema = schemaNamespaces.get(target)!;
+      if (member === 'table') kind = 'table';
+      if (member === 'view') kind = 'view';
+      if (member === 'materializedView') kind = 'materializedView';
+      if (member === 'enum') kind = 'enum';
+    }
+    if (!kind) continue;
+
+    definitions.push({ kind, declaration, call: chain.base.node, schema });
+  }
+
+  return definitions;
+}
+
+/**
+ * Returns the text of the JSDoc block directly in front of a node, if any.
+ */
+function docComment(node: ts.Node, sourceFile: ts.SourceFile): string | undefined {
+  const ranges = ts.getLeadingCommentRanges(sourceFile.text, node.getFullStart()) ?? [];
+  const range = ranges[ranges.length - 1];
+  const text = range && sourceFile.text.slice(range.pos, range.end);
+  if (!text?.startsWith('/**')) return undefined;
+
+  const comment = text
+    .slice(3, -2)
+    .split(/\r?\n/u)
+    .map((line) => line.replace(/^\s*\* ?/u, '').trimEnd())
+    .join('\n')
+    .replace(/\*\\\//gu, '*/')
+    .trim();
+  return comment || undefined;
+}
+
+/**
+ * Builds a typed model of the tables, views, columns, enums, indexes and
+ * foreign keys declared in a Drizzle schema file.
+ *
+ * @param {string} source - Content of the schema file
+ * @param {string} schemaName - Name of the database schema the file describes
+ * @param {string} fileName - File name used for parser diagnostics
+ * @returns {SchemaModel} - The schema model
+ */
+export function readSchemaModel(source: string, schemaName: string, fileName = 'schema.ts'): SchemaModel {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const declarations = collectDeclarations(sourceFile);
+
+  const definitions = collectDefinitions(declarations);
+
+  // Enums first, so that enum-typed columns can be resolved by local name
+  const enums: EnumModel[] = [];
+  const enumsByLocal = new Map<string, EnumModel>();
+  for (const definition of definitions) {
+    if (definition.kind !== 'enum') continue;
+    const [nameArg, valuesArg] = definition.call.arguments;
+    const name = stringValue(nameArg);
+    const valuesNode = valuesArg && unwrapExpression(valuesArg);
+    if (!name || !valuesNode || !ts.isArrayLiteralExpression(valuesNode)) continue;
+
+    const values: string[] = [];
+    for (const element of valuesNode.elements) {
+      const value = stringValue(element);
+      if (value !== undefined && !values.includes(value)) values.push(value);
+    }
+
+    const enumModel: EnumModel = {
+      variableName: definition.declaration.exportedNames[0] ?? definition.declaration.localName,
+      name,
+      values,
+    };
+    const comment = docComment(definition.declaration.statement, sourceFile);
+    if (comment) enumModel.comment = comment;
+    enumsByLocal.set(definition.declaration.localName, enumModel);
+    if (definition.declaration.exportedNames.length > 0) enums.push(enumModel);
+  }
+
+  const tables: TableModel[] = [];
+  const views: ViewModel[] = [];
+  const tablesByLocal = new Map<string, { table: TableModel; schema: string }>();
+  const pendingForeignKeys: PendingForeignKey[] = [];
+
+  // Views share the column definitions of tables, but have no extra config
+  for (const definition of definitions) {
+    if (definition.kind === 'enum') continue;
+    const [nameArg, columnsArg, extraConfigArg] = definition.call.arguments;
+    const name = stringValue(nameArg);
+    if (!name) continue;
+
+    const table: TableModel = {
+      variableName: definition.declaration.exportedNames[0] ?? definition.declaration.localName,
+      name,
+      columns: [],
+      primaryKey: [],
+      indexes: [],
+      foreignKeys: [],
+      checks: [],
+    };
+    const tableComment = docComment(definition.declaration.statement, sourceFile);
+    if (tableComment) table.comment = tableComment;
+
+    for (const [propertyName, initializer] of objectProperties(columnsArg)) {
+      const chain = splitCallChain(initializer);
+      if (!chain) continue;
+
+      const firstArg = chain.base.args[0];
+      const columnName = stringValue(firstArg) ?? propertyName;
+      const options = objectProperties(
+        firstArg && stringValue(firstArg) === undefined ? firstArg : chain.base.args[1]
+      );
+      const enumModel = enumsByLocal.get(chain.base.name);
+      const isSerial = SERIAL_BUILDERS.includes(chain.base.name);
+
+      const column: ColumnModel = {
+        propertyName,
+        name: columnName,
+        dataType: enumModel ? 'enum' : chain.base.name,
+        notNull: isSerial,
+        hasDefault: isSerial,
+        isArray: numberValue(options.get('dimensions')) !== undefined,
+        primaryKey: false,
+        unique: false,
+      };
+      if (enumModel) column.enumName = enumModel.name;
+      const columnComment = ts.isPropertyAssignment(initializer.parent) ? docComment(initializer.parent, sourceFile) : undefined;
+      if (columnComment) column.comment = columnComment;
+
+      const length = numberValue(options.get('length'));
+      const precision = numberValue(options.get('precision'));
+      const scale = numberValue(options.get('scale'));
+      const mode = stringValue(options.get('mode'));
+      if (length !== undefined) column.length = length;
+      if (precision !== undefined) column.precision = precision;
+      if (scale !== undefined) column.scale = scale;
+      if (mode !== undefined) column.mode = mode;
+      if (options.has('withTimezone')) {
+        column.withTimezone = unwrapExpression(options.get('withTimezone')!).kind === ts.SyntaxKind.TrueKeyword;
+      }
+
+      for (const modifier of chain.modifiers) {
+        switch (modifier.name) {
+          case 'notNull':
+            column.notNull = true;
+            break;
+          case 'primaryKey':
+            column.primaryKey = true;
+            column.notNull = true;
+            break;
+          case 'unique':
+            column.unique = true;
+            break;
+          case 'array':
+            column.isArray = true;
+            break;
+          case 'default':
+            column.hasDefault = true;
+            if (modifier.args[0]) column.defaultValue = modifier.args[0].getText(sourceFile);
+            break;
+          case 'references': {
+            const reference = modifier.args[0] && unwrapExpression(modifier.args[0]);
+            const body = reference && (ts.isArrowFunction(reference) || ts.isFunctionExpression(reference))
+              ? reference.body
+              : undefined;
+            const target = body && !ts.isBlock(body) ? propertyReferences(body)[0] : undefined;
+            if (!target) break;
+
+            const actions = objectProperties(modifier.args[1]);
+            const foreignKey: ForeignKeyModel = {
+              columns: [columnName],
+              foreignTable: target.target,
+              foreignColumns: [target.property],
+            };
+            const onDelete = referentialAction(actions.get('onDelete'));
+            const onUpdate = referentialAction(actions.get('onUpdate'));
+            if (onDelete) foreignKey.onDelete = onDelete;
+            if (onUpdate) foreignKey.onUpdate = onUpdate;
+
+            table.foreignKeys.push(foreignKey);
+            pendingForeignKeys.push({
+              table,
+              foreignKey,
+              foreignLocal: target.target,
+              foreignProperties: [target.property],
+            });
+            break;
+          }
+          default:
+            if (modifier.name in DEFAULT_MODIFIERS) {
+              column.hasDefault = true;
+              const defaultValue = DEFAULT_MODIFIERS[modifier.name];
+              if (defaultValue) column.defaultValue = defaultValue;
+            }
+        }
+      }
+
+      if (column.primaryKey) table.primaryKey.push(column.name);
+      table.columns.push(column);
+    }
+
+    if (definition.kind !== 'table') {
+      const view: ViewModel = {
+        variableName: table.variableName,
+        name,
+        materialized: definition.kind === 'materializedView',
+        columns: table.columns,
+      };
+      if (table.comment) view.comment = table.comment;
+      if (definition.declaration.exportedNames.length > 0) views.push(view);
+      continue;
+    }
+
+    const columnName = (property: string) =>
+      table.columns.find((column) => column.propertyName === property)?.name ?? property;
+
+    const { tableParam, entries } = extraConfigEntries(extraConfigArg);
+    for (const entry of entries) {
+      const chain = splitCallChain(entry);
+      if (!chain) continue;
+      const allArgs = [...chain.base.args, ...chain.modifiers.flatMap((modifier) => modifier.args)];
+
+      switch (chain.base.name) {
+        case 'index':
+        case 'uniqueIndex':
+        case 'unique': {
+          const index: IndexModel = {
+            name: stringValue(chain.base.args[0]) ?? '',
+            columns: tableParam ? collectTableProperties(allArgs, tableParam).map(columnName) : [],
+            unique: chain.base.name !== 'index',
+          };
+          const using = chain.modifiers.find((modifier) => modifier.name === 'using');
+          const method = stringValue(using?.args[0]);
+          if (method) index.method = method;
+          table.indexes.push(index);
+          break;
+        }
+        case 'primaryKey': {
+          const options = objectProperties(chain.base.args[0]);
+          const columnsArg = options.get('columns');
+          const columns = tableParam
+            ? collectTableProperties(columnsArg ? [columnsArg] : chain.base.args, tableParam).map(columnName)
+            : [];
+          table.primaryKey = columns;
+          for (const column of table.columns) {
+            if (columns.includes(column.name)) {
+              column.primaryKey = true;
+              column.notNull = true;
+            }
+          }
+          break;
+        }
+        case 'foreignKey': {
+          const options = objectProperties(chain.base.args[0]);
+          const columnsArg = options.get('columns');
+          const foreignReferences = propertyReferences(options.get('foreignColumns'));
+          // A self reference names the callback parameter, e.g. `foreignColumns: [table.id]`
+          const foreignLocal = foreignReferences[0]?.target === tableParam
+            ? definition.declaration.localName
+            : foreignReferences[0]?.target;
+          if (!foreignLocal) break;
+
+          const foreignKey: ForeignKeyModel = {
+            columns: tableParam ? collectTableProperties(columnsArg ? [columnsArg] : [], tableParam).map(columnName) : [],
+            foreignTable: foreignLocal,
+            foreignColumns: foreignReferences.map((reference) => reference.property),
+          };
+          const name = stringValue(options.get('name'));
+          if (name) foreignKey.name = name;
+          for (const modifier of chain.modifiers) {
+            const action = referentialAction(modifier.args[0]);
+            if (modifier.name === 'onDelete' && action) foreignKey.onDelete = action;
+            if (modifier.name === 'onUpdate' && action) foreignKey.onUpdate = action;
+          }
+
+          table.foreignKeys.push(foreignKey);
+          pendingForeignKeys.push({
+            table,
+            foreignKey,
+            foreignLocal,
+            foreignProperties: foreignKey.foreignColumns,
+          });
+          break;
+        }
+        case 'check': {
+          const name = stringValue(chain.base.args[0]);
+          const expression = chain.base.args[1] && unwrapExpression(chain.base.args[1]);
+          if (!name || !expression) break;
+
+          // The SQL of `check('name', sql\`...\`)`, as written in the template
+          const template = ts.isTaggedTemplateExpression(expression) ? expression.template : expression;
+          table.checks.push({ name, expression: template.getText(sourceFile).replace(/^`|`$/gu, '') });
+          break;
+        }
+        default:
+          break;
+      }
+    }
+
+    // Single-column unique constraints also mark the column itself
+    for (const index of table.indexes) {
+      if (!index.unique || index.columns.length !== 1) continue;
+      const column = table.columns.find((candidate) => candidate.name === index.columns[0]);
+      if (column) column.unique = true;
+    }
+
+    tablesByLocal.set(definition.declaration.localName, { table, schema: definition.schema });
+    if (definition.declaration.exportedNames.length > 0) tables.push(table);
+  }
+
+  // Resolve foreign key targets from local identifiers to database names
+  for (const pending of pendingForeignKeys) {
+    const foreign = tablesByLocal.get(pending.foreignLocal);
+    if (!foreign) continue;
+
+    pending.foreignKey.foreignTable = foreign.table.name;
+    if (foreign.schema !== schemaName) pending.foreignKey.foreignSchema = foreign.schema;
+    pending.foreignKey.foreignColumns = pending.foreignProperties.map(
+      (property) => foreign.table.columns.find((column) => column.propertyName === property)?.name ?? property
+    );
+  }
+
+  return { name: schemaName, tables, enums, views, compositeTypes: [], domains: [] };
+}
+
+/**
+ * Adds the comments of a model as JSDoc to the matching table, view, column and enum
+ * declarations of a Drizzle schema file, so that they show up in editor hovers
+ * and are read back by {@link readSchemaModel}. Declarations that already have
+ * a JSDoc block are left alone.
+ *
+ * @param {string} source - Content of the schema file
+ * @param {SchemaModel} commentedModel - Model holding the comments, matched by database name
+ * @param {string} fileName - File name used for parser diagnostics
+ * @returns {string} - The content with the comments added
+ */
+export function annotateSchemaSource(source: string, commentedModel: SchemaModel, fileName = 'schema.ts'): string {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const insertions: Array<{ node: ts.Node; comment: string }> = [];
+
+  const annotate = (node: ts.Node, comment: string | undefined) => {
+    if (comment && !docComment(node, sourceFile)) insertions.push({ node, comment });
+  };
+
+  for (const definition of collectDefinitions(collectDeclarations(sourceFile))) {
+    const [nameArg, columnsArg] = definition.call.arguments;
+    const name = stringValue(nameArg);
+    const statement = definition.declaration.statement;
+
+    if (definition.kind === 'enum') {
+      annotate(statement, commentedModel.enums.find((enumDef) => enumDef.name === name)?.comment);
+      continue;
+    }
+
+    const relations = definition.kind === 'table' ? commentedModel.tables : commentedModel.views;
+    const relation = relations.find((candidate) => candidate.name === name);
+    if (!relation) continue;
+    annotate(statement, relation.comment);
+
+    for (const [propertyName, initializer] of objectProperties(columnsArg)) {
+      const column = relation.columns.find((candidate) => candidate.propertyName === propertyName);
+      if (ts.isPropertyAssignment(initializer.parent)) annotate(initializer.parent, column?.comment);
+    }
+  }
+
+  // Insert from the end, so that earlier positions stay valid
+  let annotated = source;
+  for (const { node, comment } of insertions.sort((a, b) => b.node.getStart(sourceFile) - a.node.getStart(sourceFile))) {
+    const start = node.getStart(sourceFile);
+    const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+    const indent = source.slice(lineStart, start).match(/^\s*/u)?.[0] ?? '';
+    annotated = `${annotated.slice(0, start)}${jsDoc(comment, indent).slice(indent.length)}${indent}${annotated.slice(start)}`;
+  }
+  return annotated;
+}
@@ -0,0 +1,269 @@
+/**
+ * Reads the snapshot JSON written by `drizzle-kit pull` (PostgreSQL, version 7)
+ * into a {@link SchemaModel}. The snapshot holds the structure of the schema;
+ * identifiers and comments come from the pulled Drizzle schema file.
+ */
+
+import type {
+  CheckConstraintModel,
+  ColumnModel,
+  EnumModel,
+  ForeignKeyModel,
+  IndexModel,
+  ReferentialAction,
+  SchemaModel,
+  TableModel,
+  ViewModel,
+} from './model.js';
+import { camelCase } from './naming.js';
+
+/**
+ * A column in a drizzle-kit snapshot.
+ */
+export interface SnapshotColumn {
+  name: string;
+  /** PostgreSQL type, e.g. `varchar(255)`, `timestamp with time zone`, `text[]` or an enum name */
+  type: string;
+  /** Schema of the enum, when the column is enum-typed */
+  typeSchema?: string;
+  primaryKey: boolean;
+  notNull: boolean;
+  default?: unknown;
+  isUnique?: unknown;
+  generated?: { type: 'stored'; as: string };
+  identity?: { type: 'always' | 'byDefault' };
+}
+
+/**
+ * A table in a drizzle-kit snapshot.
+ */
+export interface SnapshotTable {
+  name: string;
+  schema: string;
+  columns: Record<string, SnapshotColumn>;
+  indexes: Record<string, {
+    name: string;
+    columns: Array<{ expression: string; isExpression: boolean }>;
+    isUnique: boolean;
+    method?: string;
+  }>;
+  foreignKeys: Record<string, {
+    name: string;
+    tableFrom: string;
+    columnsFrom: string[];
+    tableTo: string;
+    schemaTo?: string;
+    columnsTo: string[];
+    onUpdate?: string;
+    onDelete?: string;
+  }>;
+  compositePrimaryKeys: Record<string, { name: string; columns: string[] }>;
+  uniqueConstraints?: Record<string, { name: string; columns: string[] }>;
+  checkConstraints?: Record<string, { name: string; value: string }>;
+}
+
+/**
+ * The parts of a drizzle-kit PostgreSQL snapshot that are read into the model.
+ */
+export interface DrizzleSnapshot {
+  version: string;
+  dialect: string;
+  tables: Record<string, SnapshotTable>;
+  enums: Record<string, { name: string; schema: string; values: string[] }>;
+  views?: Record<string, { name: string; schema: string; columns: Record<string, SnapshotColumn>; materialized: boolean }>;
+}
+
+/**
+ * PostgreSQL type names as written in snapshots mapped to Drizzle column builder names.
+ */
+const DATA_TYPES: Record<string, string> = {
+  'double precision': 'doublePrecision',
+  'bit varying': 'varbit',
+  character: 'char',
+  'character varying': 'varchar',
+  int: 'integer',
+  int2: 'smallint',
+  int4: 'integer',
+  int8: 'bigint',
+  float4: 'real',
+  float8: 'doublePrecision',
+  bool: 'boolean',
+};
+
+const REFERENTIAL_ACTIONS: readonly string[] = ['cascade', 'restrict', 'no action', 'set null', 'set default'];
+
+const SERIAL_TYPES: readonly string[] = ['serial', 'smallserial', 'bigserial'];
+
+/**
+ * Builds a column model from a snapshot column. The property name and Drizzle
+ * `mode` are taken from the matching column of the schema file, if any.
+ */
+function toColumnModel(
+  column: SnapshotColumn,
+  enumNames: Set<string>,
+  identifiers: ColumnModel | undefined
+): ColumnModel {
+  let type = column.type;
+  let isArray = false;
+  while (type.endsWith('[]')) {
+    type = type.slice(0, -2);
+    isArray = true;
+  }
+
+  const withTimezone = / with time zone$/u.test(type);
+  type = type.replace(/ with(out)? time zone$/u, '');
+  const [, baseName = type, args] = /^([^(]+?)\s*(?:\((.*)\))?$/u.exec(type) ?? [];
+  const typeArgs = args?.split(',').map((arg) => Number(arg.trim())) ?? [];
+  const isEnum = enumNames.has(type);
+  const dataType = isEnum ? 'enum' : DATA_TYPES[baseName] ?? baseName;
+
+  const model: ColumnModel = {
+    propertyName: identifiers?.propertyName ?? column.name,
+    name: column.name,
+    dataType,
+    notNull: column.notNull || column.primaryKey,
+    hasDefault: column.default !== undefined || Boolean(column.identity) || Boolean(column.generated) || SERIAL_TYPES.includes(dataType),
+    isArray,
+    primaryKey: column.primaryKey,
+    unique: Boolean(column.isUnique),
+  };
+
+  if (isEnum) model.enumName = type;
+  if (column.default !== undefined) model.defaultValue = String(column.default);
+  if ((dataType === 'varchar' || dataType === 'char') && typeArgs[0] !== undefined) model.length = typeArgs[0];
+  if ((dataType === 'numeric' || dataType === 'decimal') && typeArgs[0] !== undefined) {
+    model.precision = typeArgs[0];
+    if (typeArgs[1] !== undefined) model.scale = typeArgs[1];
+  }
+  if (dataType === 'timestamp' || dataType === 'time') model.withTimezone = withTimezone;
+  if (identifiers?.mode !== undefined) model.mode = identifiers.mode;
+  if (identifiers?.comment !== undefined) model.comment = identifiers.comment;
+
+  return model;
+}
+
+/**
+ * Builds a schema model from a drizzle-kit snapshot. With a schema file model,
+ * only tables, views and enums that the schema file exports are included, since
+ * the generated types refer to them by their exported identifiers. Without
+ * one, everything in the schema is included under camelCased identifiers.
+ *
+ * @param {DrizzleSnapshot} snapshot - Parsed content of the snapshot JSON
+ * @param {string} schemaName - Name of the database schema to read
+ * @param {SchemaModel} [identifiers] - Model read from the schema file, which supplies identifiers and comments
+ * @returns {SchemaModel} - The schema model
+ */
+export function readSnapshotModel(snapshot: DrizzleSnapshot, schemaName: string, identifiers?: SchemaModel): SchemaModel {
+  if (snapshot.dialect !== 'postgresql' || snapshot.version !== '7') {
+    throw new Error(`Unsupported drizzle-kit snapshot (dialect ${snapshot.dialect}, version ${snapshot.version}).`);
+  }
+
+  const enums: EnumModel[] = [];
+  for (const enumDef of Object.values(snapshot.enums)) {
+    const named: Partial<EnumModel> & { variableName: string } | undefined = identifiers
+      ? identifiers.enums.find((candidate) => candidate.name === enumDef.name)
+      : { variableName: camelCase(enumDef.name) };
+    if (enumDef.schema !== schemaName || !named) continue;
+
+    const enumModel: EnumModel = { variableName: named.variableName, name: enumDef.name, values: [...enumDef.values] };
+    if (named.comment) enumModel.comment = named.comment;
+    enums.push(enumModel);
+  }
+
+  const enumNames = new Set(
+    Object.values(snapshot.enums)
+      .filter((enumDef) => enumDef.schema === schemaName)
+      .map((enumDef) => enumDef.name)
+  );
+  const columnsOf = (columns: Record<string, SnapshotColumn>, named: { columns?: ColumnModel[] }) =>
+    Object.values(columns).map((column) =>
+      toColumnModel(column, enumNames, named.columns?.find((candidate) => candidate.name === column.name))
+    );
+
+  const tables: TableModel[] = [];
+  for (const snapshotTable of Object.values(snapshot.tables)) {
+    const named: Partial<TableModel> & { variableName: string } | undefined = identifiers
+      ? identifiers.tables.find((candidate) => candidate.name === snapshotTable.name)
+      : { variableName: camelCase(snapshotTable.name) };
+    if (snapshotTable.schema !== schemaName || !named) continue;
+
+    const table: TableModel = {
+      variableName: named.variableName,
+      name: snapshotTable.name,
+      columns: columnsOf(snapshotTable.columns, named),
+      primaryKey: [],
+      indexes: [],
+      foreignKeys: [],
+      checks: [],
+    };
+    if (named.comment) table.comment = named.comment;
+
+    const compositePrimaryKey = Object.values(snapshotTable.compositePrimaryKeys)[0];
+    table.primaryKey = compositePrimaryKey
+      ? [...compositePrimaryKey.columns]
+      : table.columns.filter((column) => column.primaryKey).map((column) => column.name);
+    for (const column of table.columns) {
+      if (table.primaryKey.includes(column.name)) {
+        column.primaryKey = true;
+        column.notNull = true;
+      }
+    }
+
+    for (const index of Object.values(snapshotTable.indexes)) {
+      const indexModel: IndexModel = {
+        name: index.name,
+        columns: index.columns.filter((column) => !column.isExpression).map((column) => column.expression),
+        unique: index.isUnique,
+      };
+      if (index.method) indexModel.method = index.method;
+      table.indexes.push(indexModel);
+    }
+
+    for (const unique of Object.values(snapshotTable.uniqueConstraints ?? {})) {
+      table.indexes.push({ name: unique.name, columns: [...unique.columns], unique: true });
+      if (unique.columns.length === 1) {
+        const column = table.columns.find((candidate) => candidate.name === unique.columns[0]);
+        if (column) column.unique = true;
+      }
+    }
+
+    for (const foreignKey of Object.values(snapshotTable.foreignKeys)) {
+      const foreignKeyModel: ForeignKeyModel = {
+        name: foreignKey.name,
+        columns: [...foreignKey.columnsFrom],
+        foreignTable: foreignKey.tableTo,
+        foreignColumns: [...foreignKey.columnsTo],
+      };
+      if (foreignKey.schemaTo && foreignKey.schemaTo !== schemaName) foreignKeyModel.foreignSchema = foreignKey.schemaTo;
+      const onDelete = foreignKey.onDelete?.toLowerCase();
+      const onUpdate = foreignKey.onUpdate?.toLowerCase();
+      if (onDelete && REFERENTIAL_ACTIONS.includes(onDelete)) foreignKeyModel.onDelete = onDelete as ReferentialAction;
+      if (onUpdate && REFERENTIAL_ACTIONS.includes(onUpdate)) foreignKeyModel.onUpdate = onUpdate as ReferentialAction;
+      table.foreignKeys.push(foreignKeyModel);
+    }
+
+    table.checks = Object.values(snapshotTable.checkConstraints ?? {}).map(
+      (check): CheckConstraintModel => ({ name: check.name, expression: check.value })
+    );
+    tables.push(table);
+  }
+
+  const views: ViewModel[] = [];
+  for (const snapshotView of Object.values(snapshot.views ?? {})) {
+    const named: Partial<ViewModel> & { variableName: string } | undefined = identifiers
+      ? identifiers.views.find((candidate) => candidate.name === snapshotView.name)
+      : { variableName: camelCase(snapshotView.name) };
+    if (snapshotView.schema !== schemaName || !named) continue;
+
+    const view: ViewModel = {
+      variableName: named.variableName,
+      name: snapshotView.name,
+      materialized: snapshotView.materialized,
+      columns: columnsOf(snapshotView.columns, named),
+    };
+    if (named.comment) view.comment = named.comment;
+    views.push(view);
+  }
+
+  return { name: schemaName, tables, enums, views, compositeTypes: [], domains: [] };
+}
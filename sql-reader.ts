@@ -0,0 +1,1075 @@
+/**
+ * Builds the schema model from SQL DDL instead of a database: a
+ * `pg_dump --schema-only` dump or any file of `CREATE TABLE`, `CREATE TYPE`,
+ * `ALTER TABLE` and `COMMENT ON` statements. Used by `--from-sql`.
+ *
+ * Only the statements that shape the model are read; functions, grants,
+ * triggers, policies and the like are skipped. Views are skipped too, since
+ * the types of their columns cannot be known without running the query.
+ */
+
+import { applyComments, DATA_TYPES, SERIAL_TYPES, type CommentRow } from './introspect.js';
+import type {
+  ColumnModel,
+  CompositeTypeModel,
+  DomainModel,
+  EnumModel,
+  ForeignKeyModel,
+  IndexModel,
+  ReferentialAction,
+  SchemaModel,
+  TableModel,
+} from './model.js';
+import { camelCase } from './naming.js';
+
+/**
+ * A schema model read from SQL, with the statements that could not be read.
+ */
+export interface SqlSchemaModel {
+  schemaModel: SchemaModel;
+  warnings: string[];
+}
+
+interface Token {
+  kind: 'word' | 'identifier' | 'string' | 'number' | 'symbol';
+  /** Lower-cased for words, without quotes for identifiers and strings */
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A type as written in SQL, e.g. `character varying(255)[]`.
+ */
+interface SqlType {
+  /** Schema the type name resolves in: the explicit one or the search path when unqualified */
+  schema: string;
+  name: string;
+  args: number[];
+  withTimezone?: boolean;
+  isArray: boolean;
+}
+
+interface SqlColumn {
+  name: string;
+  type: SqlType;
+  notNull: boolean;
+  hasDefault: boolean;
+  defaultValue?: string;
+}
+
+type SqlConstraint =
+  | { kind: 'primaryKey'; name: string; columns: string[] }
+  | { kind: 'unique'; name: string; columns: string[] }
+  | { kind: 'check'; name: string; columns: string[]; expression: string }
+  | {
+      kind: 'foreignKey';
+      name: string;
+      columns: string[];
+      foreignSchema: string;
+      foreignTable: string;
+      /** Empty when the statement references the primary key of the foreign table */
+      foreignColumns: string[];
+      onDelete?: ReferentialAction;
+      onUpdate?: ReferentialAction;
+    };
+
+interface SqlTable {
+  schema: string;
+  name: string;
+  columns: SqlColumn[];
+  constraints: SqlConstraint[];
+  indexes: IndexModel[];
+}
+
+/**
+ * Everything read from the statements, across all schemas.
+ */
+interface SqlCatalog {
+  /** Schema of unqualified names, the first entry of the last `search_path` */
+  searchPath: string;
+  tables: Map<string, SqlTable>;
+  enums: Map<string, string[]>;
+  compositeTypes: Map<string, SqlColumn[]>;
+  domains: Map<string, { type: SqlType; notNull: boolean }>;
+  comments: Map<string, CommentRow>;
+  views: Map<string, string>;
+  warnings: string[];
+}
+
+/**
+ * Words that end a `DEFAULT` expression inside a column definition.
+ */
+const COLUMN_CONSTRAINT_WORDS = new Set([
+  'constraint', 'not', 'null', 'primary', 'unique', 'references', 'check', 'generated', 'collate', 'default',
+]);
+
+const DOLLAR_QUOTE = /\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/uy;
+const NUMBER = /(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/uy;
+const WORD = /[A-Za-z_\u0080-\uffff][A-Za-z0-9_$\u0080-\uffff]*/uy;
+
+const SERIAL_NAMES = new Set(['smallserial', 'serial2', 'serial', 'serial4', 'bigserial', 'serial8']);
+
+/**
+ * SQL type spellings mapped to their PostgreSQL type names (`udt_name`).
+ */
+const TYPE_NAMES: Record<string, string> = {
+  smallint: 'int2',
+  int: 'int4',
+  integer: 'int4',
+  bigint: 'int8',
+  smallserial: 'int2',
+  serial2: 'int2',
+  serial: 'int4',
+  serial4: 'int4',
+  bigserial: 'int8',
+  serial8: 'int8',
+  real: 'float4',
+  'double precision': 'float8',
+  decimal: 'numeric',
+  boolean: 'bool',
+  character: 'bpchar',
+  char: 'bpchar',
+};
+
+/**
+ * Builds the key of a table or type in the catalog maps.
+ */
+function objectKey(schema: string, name: string): string {
+  return JSON.stringify([schema, name]);
+}
+
+/**
+ * Splits SQL into tokens, dropping whitespace and comments.
+ */
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  // Returns where a sticky pattern matching at the current index ends
+  const matchEnd = (pattern: RegExp) => {
+    pattern.lastIndex = index;
+    return pattern.test(sql) ? pattern.lastIndex : undefined;
+  };
+
+  while (index < sql.length) {
+    const char = sql[index]!;
+    const start = index;
+    if (/\s/u.test(char)) {
+      index++;
+      continue;
+    }
+    const dollarQuoteEnd = char === '$' ? matchEnd(DOLLAR_QUOTE) : undefined;
+    const numberEnd = matchEnd(NUMBER);
+    const wordEnd = matchEnd(WORD);
+
+    if (sql.startsWith('--', index)) {
+      const end = sql.indexOf('\n', index);
+      index = end === -1 ? sql.length : end + 1;
+    } else if (sql.startsWith('/*', index)) {
+      // Block comments nest in PostgreSQL
+      let depth = 0;
+      do {
+        if (sql.startsWith('/*', index)) {
+          depth++;
+          index += 2;
+        } else if (sql.startsWith('*/', index)) {
+          depth--;
+          index += 2;
+        } else {
+          index++;
+        }
+      } while (depth > 0 && index < sql.length);
+    } else if (char === "'" || (/[eE]/u.test(char) && sql[index + 1] === "'")) {
+      const escapes = char !== "'";
+      let value = '';
+      index += escapes ? 2 : 1;
+      while (index < sql.length) {
+        const current = sql[index]!;
+        if (escapes && current === '\\') {
+          const escaped = sql[index + 1] ?? '';
+          value += { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' }[escaped] ?? escaped;
+          index += 2;
+        } else if (current === "'" && sql[index + 1] === "'") {
+          value += "'";
+          index += 2;
+        } else if (current === "'") {
+          index++;
+          break;
+        } else {
+          value += current;
+          index++;
+        }
+      }
+      tokens.push({ kind: 'string', value, start, end: index });
+    } else if (char === '"') {
+      let value = '';
+      index++;
+      while (index < sql.length) {
+        if (sql[index] === '"' && sql[index + 1] === '"') {
+          value += '"';
+          index += 2;
+        } else if (sql[index] === '"') {
+          index++;
+          break;
+        } else {
+          value += sql[index];
+          index++;
+        }
+      }
+      tokens.push({ kind: 'identifier', value, start, end: index });
+    } else if (dollarQuoteEnd !== undefined) {
+      const tag = sql.slice(index, dollarQuoteEnd);
+      const close = sql.indexOf(tag, dollarQuoteEnd);
+      const end = close === -1 ? sql.length : close;
+      index = Math.min(end + tag.length, sql.length);
+      tokens.push({ kind: 'string', value: sql.slice(dollarQuoteEnd, end), start, end: index });
+    } else if (numberEnd !== undefined) {
+      index = numberEnd;
+      tokens.push({ kind: 'number', value: sql.slice(start, index), start, end: index });
+    } else if (wordEnd !== undefined) {
+      index = wordEnd;
+      tokens.push({ kind: 'word', value: sql.slice(start, index).toLowerCase(), start, end: index });
+    } else {
+      index += sql.startsWith('::', index) ? 2 : 1;
+      tokens.push({ kind: 'symbol', value: sql.slice(start, index), start, end: index });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Splits tokens at the given symbol, outside of parentheses and brackets.
+ */
+function splitTokens(tokens: Token[], separator: string): Token[][] {
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.kind === 'symbol') {
+      if (token.value === '(' || token.value === '[') depth++;
+      if (token.value === ')' || token.value === ']') depth--;
+      if (depth === 0 && token.value === separator) {
+        parts.push([]);
+        continue;
+      }
+    }
+    parts[parts.length - 1]!.push(token);
+  }
+  return parts.filter((part) => part.length > 0);
+}
+
+/**
+ * Reads the tokens of one statement, or of one part of it, from left to right.
+ */
+class Cursor {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly sql: string) {}
+
+  get done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  next(): Token {
+    const token = this.tokens[this.index];
+    if (!token) throw new Error('Unexpected end of statement');
+    this.index++;
+    return token;
+  }
+
+  isWord(...words: string[]): boolean {
+    const token = this.peek();
+    return token?.kind === 'word' && words.includes(token.value);
+  }
+
+  acceptWord(...words: string[]): boolean {
+    if (!this.isWord(...words)) return false;
+    this.index++;
+    return true;
+  }
+
+  /** Consumes the words only when all of them follow in this order */
+  acceptWords(...words: string[]): boolean {
+    const matches = words.every((word, offset) => {
+      const token = this.peek(offset);
+      return token?.kind === 'word' && token.value === word;
+    });
+    if (matches) this.index += words.length;
+    return matches;
+  }
+
+  expectWord(word: string): void {
+    if (!this.acceptWord(word)) throw new Error(`Expected ${word.toUpperCase()} but found ${this.describe()}`);
+  }
+
+  isSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'symbol' && token.value === symbol;
+  }
+
+  acceptSymbol(symbol: string): boolean {
+    if (!this.isSymbol(symbol)) return false;
+    this.index++;
+    return true;
+  }
+
+  identifier(): string {
+    const token = this.peek();
+    if (token?.kind !== 'word' && token?.kind !== 'identifier') throw new Error(`Expected a name but found ${this.describe()}`);
+    this.index++;
+    return token.value;
+  }
+
+  /** Reads a dotted name, e.g. `public.users` */
+  qualifiedName(): string[] {
+    const parts = [this.identifier()];
+    while (this.acceptSymbol('.')) parts.push(this.identifier());
+    return parts;
+  }
+
+  /** Reads a parenthesized group and returns the tokens inside it */
+  group(): Token[] {
+    if (!this.isSymbol('(')) throw new Error(`Expected ( but found ${this.describe()}`);
+    const start = ++this.index;
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind === 'symbol' && token.value === '(') depth++;
+      if (token.kind === 'symbol' && token.value === ')') depth--;
+    }
+    return this.tokens.slice(start, this.index - 1);
+  }
+
+  /** Reads the names of a parenthesized column list */
+  names(): string[] {
+    return splitTokens(this.group(), ',').map((part) => this.part(part).identifier());
+  }
+
+  /** Returns a cursor over some of the tokens, e.g. one element of a list */
+  part(tokens: Token[]): Cursor {
+    return new Cursor(tokens, this.sql);
+  }
+
+  /** Returns the remaining tokens and moves past them */
+  rest(): Token[] {
+    const tokens = this.tokens.slice(this.index);
+    this.index = this.tokens.length;
+    return tokens;
+  }
+
+  /** Returns the source text of tokens, as written */
+  text(tokens: Token[]): string {
+    if (tokens.length === 0) return '';
+    return this.sql.slice(tokens[0]!.start, tokens[tokens.length - 1]!.end);
+  }
+
+  private describe(): string {
+    const token = this.peek();
+    return token ? JSON.stringify(this.sql.slice(token.start, token.end)) : 'the end of the statement';
+  }
+}
+
+/**
+ * Splits a qualified name into its schema, falling back to the search path, and name.
+ */
+function schemaAndName(parts: string[], catalog: SqlCatalog): [string, string] {
+  return [parts.length > 1 ? parts[parts.length - 2]! : catalog.searchPath, parts[parts.length - 1]!];
+}
+
+/**
+ * Reads a type, e.g. `numeric(10, 2)`, `timestamp(3) with time zone` or `public.mood[]`.
+ */
+function readType(cursor: Cursor, catalog: SqlCatalog): SqlType {
+  const [schema, typeName] = schemaAndName(cursor.qualifiedName(), catalog);
+  let name = typeName;
+  if (name === 'double' && cursor.acceptWord('precision')) name = 'double precision';
+  else if ((name === 'character' || name === 'char') && cursor.acceptWord('varying')) name = 'varchar';
+  else if (name === 'bit' && cursor.acceptWord('varying')) name = 'varbit';
+
+  // `interval day to second(3)` has fields around the precision
+  const skipIntervalFields = () => {
+    while (name === 'interval' && cursor.acceptWord('year', 'month', 'day', 'hour', 'minute', 'second', 'to'));
+  };
+  skipIntervalFields();
+  const args = cursor.isSymbol('(')
+    ? cursor.group().filter((token) => token.kind === 'number').map((token) => Number(token.value))
+    : [];
+  skipIntervalFields();
+
+  const type: SqlType = { schema, name, args, isArray: false };
+  if (cursor.acceptWords('with', 'time', 'zone')) type.withTimezone = true;
+  else if (cursor.acceptWords('without', 'time', 'zone')) type.withTimezone = false;
+
+  for (;;) {
+    if (cursor.acceptSymbol('[')) {
+      while (!cursor.acceptSymbol(']')) cursor.next();
+      type.isArray = true;
+    } else if (cursor.acceptWord('array')) {
+      type.isArray = true;
+    } else {
+      return type;
+    }
+  }
+}
+
+/**
+ * Returns the PostgreSQL type name (`udt_name`) of a built-in type as it is spelled in SQL.
+ */
+function udtName(type: SqlType): string {
+  if (type.name === 'float') return type.args[0] !== undefined && type.args[0] <= 24 ? 'float4' : 'float8';
+  if (type.name === 'timestamp' || type.name === 'time') return type.withTimezone ? `${type.name}tz` : type.name;
+  return TYPE_NAMES[type.name] ?? type.name;
+}
+
+/**
+ * Reads a referential action, e.g. `SET NULL` after `ON DELETE`.
+ */
+function readReferentialAction(cursor: Cursor): ReferentialAction {
+  let action: ReferentialAction;
+  if (cursor.acceptWord('cascade')) action = 'cascade';
+  else if (cursor.acceptWord('restrict')) action = 'restrict';
+  else if (cursor.acceptWords('no', 'action')) action = 'no action';
+  else if (cursor.acceptWords('set', 'null')) action = 'set null';
+  else if (cursor.acceptWords('set', 'default')) action = 'set default';
+  else throw new Error(`Unknown referential action ${cursor.peek()?.value ?? ''}`);
+  // `SET NULL (column, ...)` limits the action to some of the columns
+  if (cursor.isSymbol('(')) cursor.group();
+  return action;
+}
+
+/**
+ * Reads what follows `REFERENCES`: the table, its columns and the referential actions.
+ */
+function readReferences(
+  cursor: Cursor,
+  catalog: SqlCatalog,
+  name: string,
+  columns: string[]
+): SqlConstraint {
+  const [foreignSchema, foreignTable] = schemaAndName(cursor.qualifiedName(), catalog);
+  const constraint: SqlConstraint = {
+    kind: 'foreignKey',
+    name,
+    columns,
+    foreignSchema,
+    foreignTable,
+    foreignColumns: cursor.isSymbol('(') ? cursor.names() : [],
+  };
+  if (cursor.acceptWord('match')) cursor.next();
+  for (;;) {
+    if (cursor.acceptWords('on', 'delete')) constraint.onDelete = readReferentialAction(cursor);
+    else if (cursor.acceptWords('on', 'update')) constraint.onUpdate = readReferentialAction(cursor);
+    else return constraint;
+  }
+}
+
+/**
+ * Returns the name PostgreSQL gives an unnamed constraint, e.g. `users_email_key`.
+ */
+function defaultConstraintName(table: string, kind: SqlConstraint['kind'], columns: string[]): string {
+  const suffix = { primaryKey: 'pkey', unique: 'key', foreignKey: 'fkey', check: 'check' }[kind];
+  if (kind === 'primaryKey') return `${table}_${suffix}`;
+  return [table, ...columns, suffix].join('_');
+}
+
+/**
+ * Reads a table constraint, e.g. `CONSTRAINT users_pkey PRIMARY KEY (id)`.
+ * Returns undefined for constraints that are not part of the model, like `EXCLUDE`.
+ */
+function readTableConstraint(cursor: Cursor, catalog: SqlCatalog, table: string): SqlConstraint | undefined {
+  const explicitName = cursor.acceptWord('constraint') ? cursor.identifier() : undefined;
+  let constraint: SqlConstraint | undefined;
+
+  if (cursor.acceptWords('primary', 'key')) {
+    const columns = cursor.names();
+    constraint = { kind: 'primaryKey', name: explicitName ?? defaultConstraintName(table, 'primaryKey', columns), columns };
+  } else if (cursor.acceptWord('unique')) {
+    if (cursor.acceptWord('nulls')) {
+      cursor.acceptWord('not');
+      cursor.expectWord('distinct');
+    }
+    const columns = cursor.names();
+    constraint = { kind: 'unique', name: explicitName ?? defaultConstraintName(table, 'unique', columns), columns };
+  } else if (cursor.acceptWords('foreign', 'key')) {
+    const columns = cursor.names();
+    cursor.expectWord('references');
+    constraint = readReferences(cursor, catalog, explicitName ?? defaultConstraintName(table, 'foreignKey', columns), columns);
+  } else if (cursor.acceptWord('check')) {
+    const expression = cursor.text(cursor.group());
+    constraint = { kind: 'check', name: explicitName ?? defaultConstraintName(table, 'check', []), columns: [], expression };
+  }
+
+  // INCLUDE, USING INDEX TABLESPACE, DEFERRABLE, NOT VALID and the like do not change the model
+  cursor.rest();
+  return constraint;
+}
+
+/**
+ * Reads a column definition, e.g. `email varchar(255) NOT NULL UNIQUE`, with
+ * the constraints declared on it.
+ */
+function readColumn(cursor: Cursor, catalog: SqlCatalog, table: string): { column: SqlColumn; constraints: SqlConstraint[] } {
+  const name = cursor.identifier();
+  const type = readType(cursor, catalog);
+  const column: SqlColumn = { name, type, notNull: false, hasDefault: false };
+  const constraints: SqlConstraint[] = [];
+
+  if (SERIAL_NAMES.has(type.name) && !type.isArray) {
+    column.notNull = true;
+    column.hasDefault = true;
+    column.defaultValue = `nextval('${table}_${name}_seq'::regclass)`;
+  }
+
+  while (!cursor.done) {
+    const explicitName = cursor.acceptWord('constraint') ? cursor.identifier() : undefined;
+    const constraintName = (kind: SqlConstraint['kind']) =>
+      explicitName ?? defaultConstraintName(table, kind, kind === 'primaryKey' ? [] : [name]);
+
+    if (cursor.acceptWords('not', 'null')) {
+      column.notNull = true;
+    } else if (cursor.acceptWord('null')) {
+      column.notNull = false;
+    } else if (cursor.acceptWord('default')) {
+      const expression: Token[] = [cursor.next()];
+      let depth = expression[0]!.value === '(' ? 1 : 0;
+      while (!cursor.done && (depth > 0 || !cursor.isWord(...COLUMN_CONSTRAINT_WORDS))) {
+        const token = cursor.next();
+        if (token.kind === 'symbol' && token.value === '(') depth++;
+        if (token.kind === 'symbol' && token.value === ')') depth--;
+        expression.push(token);
+      }
+      const defaultValue = cursor.text(expression);
+      column.hasDefault = defaultValue.toLowerCase() !== 'null';
+      if (column.hasDefault) column.defaultValue = defaultValue;
+      else delete column.defaultValue;
+    } else if (cursor.acceptWords('primary', 'key')) {
+      constraints.push({ kind: 'primaryKey', name: constraintName('primaryKey'), columns: [name] });
+    } else if (cursor.acceptWord('unique')) {
+      if (cursor.acceptWord('nulls')) {
+        cursor.acceptWord('not');
+        cursor.expectWord('distinct');
+      }
+      constraints.push({ kind: 'unique', name: constraintName('unique'), columns: [name] });
+    } else if (cursor.acceptWord('references')) {
+      constraints.push(readReferences(cursor, catalog, constraintName('foreignKey'), [name]));
+    } else if (cursor.acceptWord('check')) {
+      const expression = cursor.text(cursor.group());
+      constraints.push({ kind: 'check', name: constraintName('check'), columns: [name], expression });
+    } else if (cursor.acceptWord('generated')) {
+      // Identity and generated columns are filled in by the database
+      column.hasDefault = true;
+      if (!cursor.acceptWord('always')) cursor.acceptWords('by', 'default');
+      cursor.expectWord('as');
+      if (cursor.acceptWord('identity')) {
+        if (cursor.isSymbol('(')) cursor.group();
+      } else {
+        cursor.group();
+        cursor.acceptWord('stored');
+      }
+    } else if (cursor.acceptWord('collate')) {
+      cursor.qualifiedName();
+    } else {
+      // DEFERRABLE, INITIALLY DEFERRED, NO INHERIT and other options that do not change the model
+      cursor.next();
+    }
+  }
+
+  return { column, constraints };
+}
+
+/**
+ * Reads a table element: a column or a table constraint.
+ */
+function readTableElement(cursor: Cursor, catalog: SqlCatalog, table: SqlTable): void {
+  if (cursor.isWord('constraint', 'primary', 'unique', 'foreign', 'check', 'exclude')) {
+    const constraint = readTableConstraint(cursor, catalog, table.name);
+    if (constraint) table.constraints.push(constraint);
+  } else if (cursor.isWord('like')) {
+    catalog.warnings.push(`The columns that ${table.name} copies with LIKE are left out.`);
+  } else {
+    const { column, constraints } = readColumn(cursor, catalog, table.name);
+    table.columns.push(column);
+    table.constraints.push(...constraints);
+  }
+}
+
+function readCreateTable(cursor: Cursor, catalog: SqlCatalog): void {
+  cursor.acceptWords('if', 'not', 'exists');
+  const [schema, name] = schemaAndName(cursor.qualifiedName(), catalog);
+  if (cursor.isWord('partition', 'of', 'as')) {
+    // Partitions and typed tables take their columns from elsewhere, and CREATE TABLE AS has no column types
+    if (cursor.isWord('as')) catalog.warnings.push(`${name} is created with AS, so its columns are unknown and it is left out.`);
+    return;
+  }
+
+  const table: SqlTable = { schema, name, columns: [], constraints: [], indexes: [] };
+  for (const element of splitTokens(cursor.group(), ',')) {
+    readTableElement(cursor.part(element), catalog, table);
+  }
+  catalog.tables.set(objectKey(schema, name), table);
+}
+
+function readCreateType(cursor: Cursor, catalog: SqlCatalog): void {
+  const [schema, name] = schemaAndName(cursor.qualifiedName(), catalog);
+  if (!cursor.acceptWord('as')) return;
+
+  if (cursor.acceptWord('enum')) {
+    const values = cursor.group().filter((token) => token.kind === 'string').map((token) => token.value);
+    catalog.enums.set(objectKey(schema, name), values);
+  } else if (cursor.isSymbol('(')) {
+    const attributes = splitTokens(cursor.group(), ',').map((part): SqlColumn => {
+      const attribute = cursor.part(part);
+      return { name: attribute.identifier(), type: readType(attribute, catalog), notNull: false, hasDefault: false };
+    });
+    catalog.compositeTypes.set(objectKey(schema, name), attributes);
+  }
+}
+
+function readCreateDomain(cursor: Cursor, catalog: SqlCatalog): void {
+  const [schema, name] = schemaAndName(cursor.qualifiedName(), catalog);
+  cursor.acceptWord('as');
+  const type = readType(cursor, catalog);
+  let notNull = false;
+  while (!cursor.done) {
+    if (cursor.acceptWords('not', 'null')) notNull = true;
+    else if (cursor.isSymbol('(')) cursor.group();
+    else cursor.next();
+  }
+  catalog.domains.set(objectKey(schema, name), { type, notNull });
+}
+
+function readCreateIndex(cursor: Cursor, catalog: SqlCatalog, unique: boolean): void {
+  cursor.acceptWord('concurrently');
+  let explicitName: string | undefined;
+  if (!cursor.isWord('on')) {
+    cursor.acceptWords('if', 'not', 'exists');
+    explicitName = cursor.identifier();
+  }
+  cursor.expectWord('on');
+  cursor.acceptWord('only');
+  const [schema, name] = schemaAndName(cursor.qualifiedName(), catalog);
+  const method = cursor.acceptWord('using') ? cursor.identifier() : 'btree';
+
+  // Expressions are not columns, so like the catalog introspection only plain column references are kept
+  const columns: string[] = [];
+  for (const part of splitTokens(cursor.group(), ',')) {
+    const element = cursor.part(part);
+    const first = element.peek();
+    if (first?.kind !== 'word' && first?.kind !== 'identifier') continue;
+    const column = element.identifier();
+    // A column may be followed by COLLATE, an operator class, ASC/DESC or NULLS FIRST/LAST
+    if (element.done || element.peek()?.kind === 'word') columns.push(column);
+  }
+
+  const table = catalog.tables.get(objectKey(schema, name));
+  if (!table) return;
+  table.indexes.push({ name: explicitName ?? [name, ...columns, 'idx'].join('_'), columns, unique, method });
+}
+
+/**
+ * Applies one action of `ALTER TABLE`.
+ */
+function readAlterTableAction(cursor: Cursor, catalog: SqlCatalog, table: SqlTable): void {
+  const findColumn = (name: string) => {
+    const column = table.columns.find((candidate) => candidate.name === name);
+    if (!column) throw new Error(`${table.name} has no column ${name}`);
+    return column;
+  };
+
+  if (cursor.acceptWord('add')) {
+    if (cursor.isWord('constraint', 'primary', 'unique', 'foreign', 'check', 'exclude')) {
+      const constraint = readTableConstraint(cursor, catalog, table.name);
+      if (constraint) table.constraints.push(constraint);
+      return;
+    }
+    cursor.acceptWord('column');
+    cursor.acceptWords('if', 'not', 'exists');
+    const { column, constraints } = readColumn(cursor, catalog, table.name);
+    table.columns.push(column);
+    table.constraints.push(...constraints);
+  } else if (cursor.acceptWord('alter')) {
+    cursor.acceptWord('column');
+    const column = findColumn(cursor.identifier());
+    if (cursor.acceptWords('set', 'default')) {
+      column.defaultValue = cursor.text(cursor.rest());
+      column.hasDefault = true;
+    } else if (cursor.acceptWords('drop', 'default')) {
+      delete column.defaultValue;
+      column.hasDefault = false;
+    } else if (cursor.acceptWords('set', 'not', 'null')) {
+      column.notNull = true;
+    } else if (cursor.acceptWords('drop', 'not', 'null')) {
+      column.notNull = false;
+    } else if (cursor.acceptWords('add', 'generated')) {
+      column.hasDefault = true;
+    } else if (cursor.acceptWords('set', 'data', 'type') || cursor.acceptWord('type')) {
+      column.type = readType(cursor, catalog);
+    }
+  } else if (cursor.acceptWord('drop')) {
+    if (cursor.acceptWord('constraint')) {
+      cursor.acceptWords('if', 'exists');
+      const name = cursor.identifier();
+      table.constraints = table.constraints.filter((constraint) => constraint.name !== name);
+      return;
+    }
+    cursor.acceptWord('column');
+    cursor.acceptWords('if', 'exists');
+    const name = cursor.identifier();
+    table.columns = table.columns.filter((column) => column.name !== name);
+    table.constraints = table.constraints.filter((constraint) => !constraint.columns.includes(name));
+    table.indexes = table.indexes.filter((index) => !index.columns.includes(name));
+  } else if (cursor.acceptWord('rename')) {
+    if (cursor.acceptWord('to')) {
+      catalog.tables.delete(objectKey(table.schema, table.name));
+      table.name = cursor.identifier();
+      catalog.tables.set(objectKey(table.schema, table.name), table);
+      return;
+    }
+    if (cursor.acceptWord('constraint')) {
+      const name = cursor.identifier();
+      cursor.expectWord('to');
+      const newName = cursor.identifier();
+      for (const constraint of table.constraints) {
+        if (constraint.name === name) constraint.name = newName;
+      }
+      return;
+    }
+    cursor.acceptWord('column');
+    const name = cursor.identifier();
+    cursor.expectWord('to');
+    const newName = cursor.identifier();
+    findColumn(name).name = newName;
+    const rename = (columns: string[]) => columns.map((column) => (column === name ? newName : column));
+    for (const constraint of table.constraints) constraint.columns = rename(constraint.columns);
+    for (const index of table.indexes) index.columns = rename(index.columns);
+  }
+  // OWNER TO, ENABLE ROW LEVEL SECURITY, SET (...) and the like do not change the model
+}
+
+function readAlterTable(cursor: Cursor, catalog: SqlCatalog): void {
+  cursor.acceptWords('if', 'exists');
+  cursor.acceptWord('only');
+  const [schema, name] = schemaAndName(cursor.qualifiedName(), catalog);
+  cursor.acceptSymbol('*');
+  const table = catalog.tables.get(objectKey(schema, name));
+  if (!table) return;
+
+  for (const action of splitTokens(cursor.rest(), ',')) {
+    readAlterTableAction(cursor.part(action), catalog, table);
+  }
+}
+
+function readAlterType(cursor: Cursor, catalog: SqlCatalog): void {
+  const [schema, name] = schemaAndName(cursor.qualifiedName(), catalog);
+  const values = catalog.enums.get(objectKey(schema, name));
+  if (!values) return;
+
+  if (cursor.acceptWords('add', 'value')) {
+    const ifNotExists = cursor.acceptWords('if', 'not', 'exists');
+    const value = cursor.next().value;
+    if (ifNotExists && values.includes(value)) return;
+    if (cursor.acceptWord('before')) values.splice(values.indexOf(cursor.next().value), 0, value);
+    else if (cursor.acceptWord('after')) values.splice(values.indexOf(cursor.next().value) + 1, 0, value);
+    else values.push(value);
+  } else if (cursor.acceptWords('rename', 'value')) {
+    const value = cursor.next().value;
+    cursor.expectWord('to');
+    values[values.indexOf(value)] = cursor.next().value;
+  } else if (cursor.acceptWords('rename', 'to')) {
+    catalog.enums.delete(objectKey(schema, name));
+    catalog.enums.set(objectKey(schema, cursor.identifier()), values);
+  }
+}
+
+function readComment(cursor: Cursor, catalog: SqlCatalog): void {
+  let kind: CommentRow['kind'];
+  if (cursor.acceptWord('table') || cursor.acceptWord('view') || cursor.acceptWords('materialized', 'view') || cursor.acceptWords('foreign', 'table')) {
+    kind = 'table';
+  } else if (cursor.acceptWord('column')) {
+    kind = 'column';
+  } else if (cursor.acceptWord('type') || cursor.acceptWord('domain')) {
+    kind = 'type';
+  } else {
+    return;
+  }
+
+  const parts = cursor.qualifiedName();
+  const columnName = kind === 'column' ? parts.pop()! : null;
+  const [schema, objectName] = schemaAndName(parts, catalog);
+  cursor.expectWord('is');
+  const key = JSON.stringify([kind, schema, objectName, columnName]);
+  const description = cursor.next();
+  if (description.kind === 'string') {
+    catalog.comments.set(key, { kind, object_name: objectName, column_name: columnName, description: description.value });
+  } else {
+    catalog.comments.delete(key);
+  }
+}
+
+function readDrop(cursor: Cursor, catalog: SqlCatalog): void {
+  let objects: Array<Map<string, unknown>>;
+  if (cursor.acceptWord('table')) objects = [catalog.tables];
+  else if (cursor.acceptWord('type')) objects = [catalog.enums, catalog.compositeTypes];
+  else if (cursor.acceptWord('domain')) objects = [catalog.domains];
+  else if (cursor.acceptWord('view') || cursor.acceptWords('materialized', 'view')) objects = [catalog.views];
+  else return;
+
+  cursor.acceptWords('if', 'exists');
+  for (const part of splitTokens(cursor.rest(), ',')) {
+    const [schema, name] = schemaAndName(cursor.part(part).qualifiedName(), catalog);
+    for (const map of objects) map.delete(objectKey(schema, name));
+  }
+}
+
+/**
+ * Follows `SET search_path` and pg_dump's `set_config('search_path', ...)`,
+ * which decide the schema of unqualified names.
+ */
+function applySearchPath(catalog: SqlCatalog, searchPath: string): void {
+  const [first] = searchPath
+    .split(',')
+    .map((entry) => entry.trim().replace(/^"(.*)"$/u, '$1'))
+    .filter((entry) => entry && entry !== '$user');
+  if (first) catalog.searchPath = first;
+}
+
+function readStatement(cursor: Cursor, catalog: SqlCatalog): void {
+  if (cursor.acceptWord('create')) {
+    cursor.acceptWords('or', 'replace');
+    cursor.acceptWord('global', 'local');
+    cursor.acceptWord('temporary', 'temp', 'unlogged');
+    if (cursor.acceptWord('table')) readCreateTable(cursor, catalog);
+    else if (cursor.acceptWord('type')) readCreateType(cursor, catalog);
+    else if (cursor.acceptWord('domain')) readCreateDomain(cursor, catalog);
+    else if (cursor.acceptWords('unique', 'index')) readCreateIndex(cursor, catalog, true);
+    else if (cursor.acceptWord('index')) readCreateIndex(cursor, catalog, false);
+    else if (cursor.acceptWord('view') || cursor.acceptWords('materialized', 'view') || cursor.acceptWords('recursive', 'view')) {
+      const [schema, name] = schemaAndName(cursor.qualifiedName(), catalog);
+      catalog.views.set(objectKey(schema, name), name);
+    }
+  } else if (cursor.acceptWords('alter', 'table')) {
+    readAlterTable(cursor, catalog);
+  } else if (cursor.acceptWords('alter', 'type')) {
+    readAlterType(cursor, catalog);
+  } else if (cursor.acceptWords('comment', 'on')) {
+    readComment(cursor, catalog);
+  } else if (cursor.acceptWord('drop')) {
+    readDrop(cursor, catalog);
+  } else if (cursor.acceptWord('set')) {
+    cursor.acceptWord('session', 'local');
+    if (!cursor.acceptWord('search_path')) return;
+    if (!cursor.acceptSymbol('=')) cursor.expectWord('to');
+    applySearchPath(catalog, cursor.rest().map((token) => (token.kind === 'symbol' ? token.value : `"${token.value}"`)).join(''));
+  } else if (cursor.acceptWord('select')) {
+    const name = cursor.qualifiedName();
+    if (name[name.length - 1] !== 'set_config' || !cursor.isSymbol('(')) return;
+    const [setting, value] = cursor.group().filter((token) => token.kind === 'string');
+    if (setting?.value === 'search_path' && value) applySearchPath(catalog, value.value);
+  }
+}
+
+/**
+ * Reads every statement of a SQL file into a catalog.
+ */
+function readCatalog(sql: string): SqlCatalog {
+  const catalog: SqlCatalog = {
+    searchPath: 'public',
+    tables: new Map(),
+    enums: new Map(),
+    compositeTypes: new Map(),
+    domains: new Map(),
+    comments: new Map(),
+    views: new Map(),
+    warnings: [],
+  };
+
+  for (const statement of splitTokens(tokenize(sql), ';')) {
+    try {
+      readStatement(new Cursor(statement, sql), catalog);
+    } catch (error) {
+      const line = sql.slice(0, statement[0]!.start).split('\n').length;
+      const message = error instanceof Error ? error.message : String(error);
+      catalog.warnings.push(`Skipped the statement on line ${line}: ${message}`);
+    }
+  }
+
+  return catalog;
+}
+
+/**
+ * Builds the column model of a table column or composite type attribute, the
+ * way catalog introspection would describe it.
+ */
+function toColumnModel(column: SqlColumn, catalog: SqlCatalog, schemaName: string): ColumnModel {
+  const inSchema = column.type.schema === schemaName;
+  const domain = inSchema ? catalog.domains.get(objectKey(schemaName, column.type.name)) : undefined;
+  const type = domain?.type ?? column.type;
+  const isEnum = type.schema === schemaName && catalog.enums.has(objectKey(schemaName, type.name));
+  const udt = udtName(type);
+  const defaultValue = column.defaultValue;
+
+  let dataType = isEnum ? 'enum' : DATA_TYPES[udt] ?? udt;
+  if (defaultValue?.startsWith('nextval(') && SERIAL_TYPES[dataType]) {
+    dataType = SERIAL_TYPES[dataType]!;
+  }
+
+  const model: ColumnModel = {
+    propertyName: column.name,
+    name: column.name,
+    dataType,
+    notNull: column.notNull,
+    hasDefault: column.hasDefault,
+    isArray: column.type.isArray || type.isArray,
+    primaryKey: false,
+    unique: false,
+  };
+
+  if (isEnum) model.enumName = type.name;
+  if (domain || (inSchema && catalog.compositeTypes.has(objectKey(schemaName, column.type.name)))) {
+    model.typeName = column.type.name;
+  }
+  if (defaultValue !== undefined) model.defaultValue = defaultValue;
+  if (['varchar', 'bpchar', 'bit', 'varbit'].includes(udt)) {
+    // char and bit without a length hold a single character or bit
+    const length = type.args[0] ?? (udt === 'bpchar' || udt === 'bit' ? 1 : undefined);
+    if (length !== undefined) model.length = length;
+  }
+  if (dataType === 'numeric' && type.args.length > 0) {
+    model.precision = type.args[0]!;
+    model.scale = type.args[1] ?? 0;
+  }
+  if (udt === 'timestamptz' || udt === 'timetz') model.withTimezone = true;
+  if (udt === 'timestamp' || udt === 'time') model.withTimezone = false;
+  // node-postgres parses `date` values into Date objects
+  if (dataType === 'date') model.mode = 'date';
+
+  return model;
+}
+
+function toTableModel(table: SqlTable, catalog: SqlCatalog, schemaName: string): TableModel {
+  const model: TableModel = {
+    variableName: camelCase(table.name),
+    name: table.name,
+    columns: table.columns.map((column) => toColumnModel(column, catalog, schemaName)),
+    primaryKey: [],
+    indexes: [],
+    foreignKeys: [],
+    checks: [],
+  };
+
+  // The catalog lists constraints by name, so do the same
+  const constraints = [...table.constraints].sort((a, b) => a.name.localeCompare(b.name));
+  for (const constraint of constraints) {
+    if (constraint.kind === 'primaryKey') {
+      model.primaryKey = constraint.columns;
+      for (const column of model.columns) {
+        if (constraint.columns.includes(column.name)) {
+          column.primaryKey = true;
+          column.notNull = true;
+        }
+      }
+    } else if (constraint.kind === 'unique') {
+      model.indexes.push({ name: constraint.name, columns: constraint.columns, unique: true });
+      if (constraint.columns.length === 1) {
+        const column = model.columns.find((candidate) => candidate.name === constraint.columns[0]);
+        if (column) column.unique = true;
+      }
+    } else if (constraint.kind === 'check') {
+      model.checks.push({ name: constraint.name, expression: constraint.expression });
+    } else {
+      // Without a column list, the foreign key references the primary key
+      const foreignTable = catalog.tables.get(objectKey(constraint.foreignSchema, constraint.foreignTable));
+      const foreignColumns = constraint.foreignColumns.length > 0
+        ? constraint.foreignColumns
+        : foreignTable?.constraints.find((candidate) => candidate.kind === 'primaryKey')?.columns ?? [];
+      const foreignKey: ForeignKeyModel = {
+        name: constraint.name,
+        columns: constraint.columns,
+        foreignTable: constraint.foreignTable,
+        foreignColumns,
+      };
+      if (constraint.foreignSchema !== schemaName) foreignKey.foreignSchema = constraint.foreignSchema;
+      if (constraint.onDelete) foreignKey.onDelete = constraint.onDelete;
+      if (constraint.onUpdate) foreignKey.onUpdate = constraint.onUpdate;
+      model.foreignKeys.push(foreignKey);
+    }
+  }
+
+  model.indexes.push(...[...table.indexes].sort((a, b) => a.name.localeCompare(b.name)));
+  return model;
+}
+
+/**
+ * Returns the entries of a catalog map that belong to a schema, sorted by name.
+ */
+function entriesOf<T>(objects: Map<string, T>, schemaName: string): Array<[string, T]> {
+  return [...objects]
+    .map(([key, value]): [string, string, T] => {
+      const [schema, name] = JSON.parse(key) as [string, string];
+      return [schema, name, value];
+    })
+    .filter(([schema]) => schema === schemaName)
+    .map(([, name, value]): [string, T] => [name, value])
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Reads SQL DDL, e.g. the output of `pg_dump --schema-only`, and builds the
+ * model of one of its schemas. Statements that cannot be read are skipped and
+ * reported as warnings instead of failing the whole file.
+ *
+ * @param {string} sql - Contents of the SQL file
+ * @param {string} schemaName - Name of the schema to build the model of
+ * @returns {SqlSchemaModel} - The schema model and the warnings
+ */
+export function readSqlSchemaModel(sql: string, schemaName: string): SqlSchemaModel {
+  const catalog = readCatalog(sql);
+  const warnings = [...catalog.warnings];
+
+  const enums: EnumModel[] = entriesOf(catalog.enums, schemaName).map(([name, values]) => ({
+    variableName: camelCase(name),
+    name,
+    values,
+  }));
+  const compositeTypes: CompositeTypeModel[] = entriesOf(catalog.compositeTypes, schemaName).map(([name, attributes]) => ({
+    name,
+    attributes: attributes.map((attribute) => toColumnModel(attribute, catalog, schemaName)),
+  }));
+  const domains: DomainModel[] = entriesOf(catalog.domains, schemaName).map(([name, domain]) => {
+    const baseType = toColumnModel({ name, type: domain.type, notNull: domain.notNull, hasDefault: false }, catalog, schemaName);
+    return { name, baseType };
+  });
+  const tables = entriesOf(catalog.tables, schemaName).map(([, table]) => toTableModel(table, catalog, schemaName));
+
+  const views = entriesOf(catalog.views, schemaName).map(([name]) => name);
+  if (views.length > 0) {
+    warnings.push(`Views are not read from SQL files, so ${views.join(', ')} ${views.length === 1 ? 'is' : 'are'} left out.`);
+  }
+
+  const schemaModel: SchemaModel = { name: schemaName, tables, enums, views: [], compositeTypes, domains };
+  const comments = [...catalog.comments.entries()]
+    .filter(([key]) => (JSON.parse(key) as string[])[1] === schemaName)
+    .map(([, row]) => row);
+  applyComments(schemaModel, comments);
+  return { schemaModel, warnings };
+}
+
+/**
+ * Lists the schemas that SQL DDL creates tables or types in, for `--all`.
+ *
+ * @param {string} sql - Contents of the SQL file
+ * @returns {string[]} - The schema names, sorted
+ */
+export function readSqlSchemaNames(sql: string): string[] {
+  const catalog = readCatalog(sql);
+  const schemas = new Set<string>();
+  for (const objects of [catalog.tables, catalog.enums, catalog.compositeTypes, catalog.domains]) {
+    for (const key of objects.keys()) schemas.add((JSON.parse(key) as string[])[0]!);
+  }
+  return [...schemas].sort();
+}
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { loadConfig, resolveSchemaOptions } from '../config.js';
+
+describe('loadConfig', () => {
+  let projectDir: string;
+
+  before(async () => {
+    projectDir = await fs.mkdtemp(join(tmpdir(), 'gen-types-config-'));
+    await fs.mkdir(join(projectDir, 'plugins'));
+    await fs.writeFile(
+      join(projectDir, 'plugins', 'table-names.ts'),
+      `import type { GeneratorPlugin } from '../../plugin-types';
+import { fileName } from './shared';
+import { suffix } from 'local-pkg';
+
+const plugin: GeneratorPlugin = { name: 'table-names', generate: () => [{ path: fileName, content: suffix }] };
+export default plugin;
+`
+    );
+    await fs.writeFile(join(projectDir, 'plugins', 'shared.ts'), `export const fileName: string = 'tables.txt';\n`);
+    await fs.mkdir(join(projectDir, 'node_modules', 'local-pkg'), { recursive: true });
+    await fs.writeFile(join(projectDir, 'node_modules', 'local-pkg', 'package.json'), '{ "name": "local-pkg", "type": "module", "main": "index.js" }\n');
+    await fs.writeFile(join(projectDir, 'node_modules', 'local-pkg', 'index.js'), `export const suffix = 'from a package';\n`);
+    await fs.writeFile(join(projectDir, 'plugins', 'legacy.mjs'), `export default { name: 'legacy', generate: () => [] };\n`);
+    await fs.writeFile(
+      join(projectDir, 'gen-types.config.ts'),
+      `import tableNames from './plugins/table-names';
+import legacy from './plugins/legacy.mjs';
+import { fileName } from './plugins/shared.js';
+
+const outDir: string = fileName === 'tables.txt' ? 'generated' : 'wrong';
+export default { outDir, plugins: [tableNames, legacy] };
+`
+    );
+  });
+
+  after(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('loads a TypeScript config that imports local TypeScript and JavaScript modules and packages', async () => {
+    const config = await loadConfig(join(projectDir, 'gen-types.config.ts'));
+
+    assert.equal(config.outDir, 'generated');
+    assert.deepEqual(config.plugins?.map((plugin) => plugin.name), ['table-names', 'legacy']);
+    assert.deepEqual(await config.plugins![0]!.generate({} as never), [{ path: 'tables.txt', content: 'from a package' }]);
+    assert.equal(resolveSchemaOptions(config, 'public').plugins.length, 2);
+  });
+
+  it('transpiles outside the sources and removes the transpiled files again', async () => {
+    await loadConfig(join(projectDir, 'gen-types.config.ts'));
+
+    const files = [...(await fs.readdir(projectDir)), ...(await fs.readdir(join(projectDir, 'plugins')))];
+    assert.deepEqual(files.filter((file) => file.endsWith('.mjs')), ['legacy.mjs']);
+    assert.deepEqual(await fs.readdir(join(projectDir, 'node_modules', '.cache')), []);
+  });
+
+  it('reports a missing config file', async () => {
+    await assert.rejects(loadConfig(join(projectDir, 'missing.config.ts')), /not found/u);
+  });
+});
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { filterSchemaModel, removeDeclarations } from '../filters.js';
+import type { ColumnModel, ForeignKeyModel, SchemaModel, TableModel } from '../model.js';
+
+const column = (name: string, enumName?: string): ColumnModel => ({
+  propertyName: name,
+  name,
+  dataType: enumName ? 'enum' : 'integer',
+  notNull: false,
+  hasDefault: false,
+  isArray: false,
+  primaryKey: false,
+  unique: false,
+  ...(enumName ? { enumName } : {}),
+});
+
+const table = (name: string, foreignKeys: ForeignKeyModel[] = [], columns: ColumnModel[] = []): TableModel => ({
+  variableName: name,
+  name,
+  columns: [column('id'), ...columns],
+  primaryKey: ['id'],
+  indexes: [],
+  foreignKeys,
+  checks: [],
+});
+
+const references = (foreignTable: string, foreignSchema?: string): ForeignKeyModel => ({
+  columns: [`${foreignTable}_id`],
+  foreignTable,
+  foreignColumns: ['id'],
+  ...(foreignSchema ? { foreignSchema } : {}),
+});
+
+/**
+ * `orders` references `customers`, which references `regions`, which uses the
+ * `zone` enum. `audit_log` and `legacy` are referenced by nothing kept.
+ */
+const SCHEMA: SchemaModel = {
+  name: 'public',
+  tables: [
+    table('orders', [references('customers'), references('users', 'auth')]),
+    table('customers', [references('regions'), references('customers')]),
+    table('regions', [], [column('zone', 'zone')]),
+    table('audit_log', [references('legacy')]),
+    table('legacy'),
+  ],
+  enums: [
+    { variableName: 'zone', name: 'zone', values: ['eu'] },
+    { variableName: 'unused', name: 'unused', values: ['a'] },
+  ],
+  views: [],
+  compositeTypes: [],
+  domains: [],
+};
+
+describe('filterSchemaModel', () => {
+  it('returns the model as it is without patterns', () => {
+    assert.deepEqual(filterSchemaModel(SCHEMA, { include: [], exclude: [] }), { model: SCHEMA, removed: [], retained: [] });
+  });
+
+  it('retains the whole chain of tables the kept tables reference, and their enums', () => {
+    const { model, removed, retained } = filterSchemaModel(SCHEMA, { include: ['orders'], exclude: [] });
+
+    assert.deepEqual(model.tables.map((candidate) => candidate.name), ['orders']);
+    assert.deepEqual(model.enums, []);
+    assert.deepEqual(retained, ['customers', 'regions', 'zone']);
+    assert.deepEqual(removed, ['audit_log', 'legacy', 'unused']);
+  });
+
+  it('removes a referenced table once nothing kept refers to it', () => {
+    const { retained, removed } = filterSchemaModel(SCHEMA, { include: [], exclude: ['orders', 'customers'] });
+    assert.deepEqual(retained, []);
+    assert.deepEqual(removed, ['orders', 'customers']);
+  });
+});
+
+describe('removeDeclarations', () => {
+  it('removes the named top-level declarations with their comments', () => {
+    const source = `import { pgTable } from 'drizzle-orm/pg-core';
+
+/** Kept */
+export const users = pgTable('users', {});
+
+/** Removed */
+export const legacy = pgTable('legacy', {});
+`;
+    assert.equal(
+      removeDeclarations(source, ['legacy']),
+      `import { pgTable } from 'drizzle-orm/pg-core';
+
+/** Kept */
+export const users = pgTable('users', {});
+`
+    );
+    assert.equal(removeDeclarations(source, []), source);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * A mocked catalog for introspection tests: a `CatalogClient` that answers the
+ * catalog queries with canned rows, and the rows of a small `shop` schema.
+ */
+
+import type { CatalogClient } from '../../introspect.js';
+
+/**
+ * Canned rows by the relation the catalog query selects from, e.g. `pg_enum`.
+ */
+export type CatalogRows = Partial<Record<
+  'pg_type' | 'information_schema.columns' | 'pg_attribute' | 'information_schema.domains' | 'pg_constraint' | 'pg_index' | 'pg_description',
+  object[]
+>>;
+
+/**
+ * A query run against the mocked catalog.
+ */
+export interface CatalogCall {
+  text: string;
+  values?: unknown[];
+}
+
+/**
+ * Creates a client that returns the fixture rows of the relation named in the
+ * first top-level `from` clause of each query, and records the queries it ran.
+ *
+ * @param {CatalogRows} rows - Rows to return, by relation
+ * @returns {CatalogClient & { calls: CatalogCall[] }} - The mocked client
+ */
+export function catalogClient(rows: CatalogRows): CatalogClient & { calls: CatalogCall[] } {
+  const calls: CatalogCall[] = [];
+  return {
+    calls,
+    async query<R extends object>(text: string, values?: unknown[]) {
+      calls.push({ text, values });
+      const relation = /^from (\S+)/mu.exec(text)?.[1];
+      if (!relation) throw new Error(`Unexpected catalog query: ${text}`);
+      return { rows: (rows[relation as keyof CatalogRows] ?? []) as R[] };
+    },
+  };
+}
+
+/**
+ * A column row with the defaults of a nullable column without a default.
+ */
+export function columnRow(row: Record<string, unknown> & { table_name: string; column_name: string; udt_name: string }) {
+  return {
+    data_type: 'USER-DEFINED',
+    is_nullable: 'YES',
+    column_default: null,
+    is_identity: 'NO',
+    is_generated: 'NEVER',
+    character_maximum_length: null,
+    numeric_precision: null,
+    numeric_scale: null,
+    domain_name: null,
+    ...row,
+  };
+}
+
+/**
+ * The catalog of a `shop` schema with an enum, a domain, a composite type, two
+ * tables joined by a foreign key, a view, an index and comments.
+ */
+export const SHOP_CATALOG: CatalogRows = {
+  pg_type: [
+    { enum_name: 'order_status', value: 'pending' },
+    { enum_name: 'order_status', value: 'shipped' },
+  ],
+  'information_schema.columns': [
+    columnRow({
+      table_name: 'customers',
+      column_name: 'id',
+      udt_name: 'int4',
+      is_nullable: 'NO',
+      column_default: "nextval('shop.customers_id_seq'::regclass)",
+    }),
+    columnRow({ table_name: 'customers', column_name: 'email', udt_name: 'varchar', domain_name: 'email', character_maximum_length: 320 }),
+    columnRow({ table_name: 'customers', column_name: 'address', udt_name: 'postal_address' }),
+    columnRow({ table_name: 'orders', column_name: 'id', udt_name: 'uuid', is_nullable: 'NO', column_default: 'gen_random_uuid()' }),
+    columnRow({ table_name: 'orders', column_name: 'customer_id', udt_name: 'int4', is_nullable: 'NO' }),
+    columnRow({ table_name: 'orders', column_name: 'status', udt_name: 'order_status', is_nullable: 'NO' }),
+    columnRow({ table_name: 'orders', column_name: 'total', udt_name: 'numeric', numeric_precision: 10, numeric_scale: 2 }),
+    columnRow({ table_name: 'orders', column_name: 'tags', udt_name: '_text', data_type: 'ARRAY' }),
+    columnRow({ table_name: 'orders', column_name: 'placed_at', udt_name: 'timestamptz', is_nullable: 'NO', column_default: 'now()' }),
+  ],
+  pg_attribute: [
+    { ...columnRow({ table_name: 'postal_address', column_name: 'street', udt_name: 'text' }), relkind: 'c' },
+    { ...columnRow({ table_name: 'postal_address', column_name: 'city', udt_name: 'text' }), relkind: 'c' },
+    { ...columnRow({ table_name: 'open_orders', column_name: 'id', udt_name: 'uuid' }), relkind: 'm' },
+  ],
+  'information_schema.domains': [
+    columnRow({ table_name: '', column_name: 'email', udt_name: 'varchar', data_type: 'character varying', is_nullable: 'NO', character_maximum_length: 320 }),
+  ],
+  pg_constraint: [
+    { constraint_name: 'customers_email_key', constraint_type: 'u', table_name: 'customers', definition: 'UNIQUE (email)', columns: ['email'] },
+    { constraint_name: 'customers_pkey', constraint_type: 'p', table_name: 'customers', definition: 'PRIMARY KEY (id)', columns: ['id'] },
+    {
+      constraint_name: 'orders_customer_id_fkey',
+      constraint_type: 'f',
+      table_name: 'orders',
+      definition: 'FOREIGN KEY (customer_id) REFERENCES shop.customers(id) ON DELETE CASCADE',
+      columns: ['customer_id'],
+      foreign_schema: 'shop',
+      foreign_table: 'customers',
+      foreign_columns: ['id'],
+      on_delete: 'c',
+      on_update: 'a',
+    },
+    { constraint_name: 'orders_pkey', constraint_type: 'p', table_name: 'orders', definition: 'PRIMARY KEY (id)', columns: ['id'] },
+    { constraint_name: 'orders_total_check', constraint_type: 'c', table_name: 'orders', definition: 'CHECK ((total >= (0)::numeric))', columns: ['total'] },
+  ],
+  pg_index: [
+    { index_name: 'orders_tags_idx', table_name: 'orders', is_unique: false, method: 'gin', columns: ['tags'] },
+  ],
+  pg_description: [
+    { kind: 'table', object_name: 'orders', column_name: null, description: 'Orders placed by customers.' },
+    { kind: 'column', object_name: 'orders', column_name: 'total', description: 'Sum of the order lines.' },
+    { kind: 'column', object_name: 'postal_address', column_name: 'city', description: 'City name.' },
+    { kind: 'type', object_name: 'order_status', column_name: null, description: 'Where an order is.' },
+    { kind: 'type', object_name: 'email', column_name: null, description: 'An email address.' },
+  ],
+};
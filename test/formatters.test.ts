@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { formatFiles } from '../formatters.js';
+
+describe('formatFiles', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'gen-types-formatters-'));
+    // A formatter that records the paths it was given
+    await fs.writeFile(join(dir, 'record.mjs'), `import { writeFileSync } from 'node:fs';\nwriteFileSync(process.env.RECORD_FILE, JSON.stringify(process.argv.slice(2)));\n`);
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('does nothing without a formatter or files', async () => {
+    assert.deepEqual(await formatFiles('none', ['types.ts']), { formatted: 0 });
+    assert.deepEqual(await formatFiles('prettier', []), { formatted: 0 });
+  });
+
+  it('passes the paths to a custom command without the shell expanding them', async () => {
+    const recordFile = join(dir, 'paths.json');
+    process.env.RECORD_FILE = recordFile;
+    const files = [join(dir, 'plain.ts'), join(dir, '$HOME `id` it\'s a \\ "path".ts')];
+
+    const result = await formatFiles({ command: `"${process.execPath}" "${join(dir, 'record.mjs')}"` }, files);
+
+    assert.deepEqual(result, { formatted: 2 });
+    assert.deepEqual(JSON.parse(await fs.readFile(recordFile, 'utf8')), files);
+    delete process.env.RECORD_FILE;
+  });
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { generate, type GenerateOptions } from '../generate.js';
+
+describe('generate', () => {
+  let projectDir: string;
+  let schemaDir: string;
+  const run = (options: Partial<GenerateOptions> = {}) =>
+    generate({
+      schema: 'public',
+      fromSql: join(projectDir, 'schema.sql'),
+      config: { outDir: join(projectDir, 'schemas'), formatter: 'none' },
+      ...options,
+    });
+
+  before(async () => {
+    projectDir = await fs.mkdtemp(join(tmpdir(), 'gen-types-generate-'));
+    schemaDir = join(projectDir, 'schemas', 'public');
+    await fs.writeFile(join(projectDir, 'schema.sql'), 'CREATE TABLE public.users (id integer PRIMARY KEY, name text);\n');
+  });
+
+  after(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('keeps a hand-written file named like an output that is turned off', async () => {
+    await fs.mkdir(schemaDir, { recursive: true });
+    await fs.writeFile(join(schemaDir, 'zod.ts'), 'export const mine = 1;\n');
+
+    const planned = (await run({ dryRun: true })).planned!;
+    assert.deepEqual(planned.map((change) => change.path).filter((path) => path.endsWith('zod.ts')), []);
+
+    await run();
+    assert.equal(await fs.readFile(join(schemaDir, 'zod.ts'), 'utf8'), 'export const mine = 1;\n');
+  });
+
+  it('removes a generated file once its output is turned off', async () => {
+    await run({ emit: { zod: true } });
+    assert.match(await fs.readFile(join(schemaDir, 'zod.ts'), 'utf8'), /Auto-generated Zod schemas/u);
+
+    const planned = (await run({ dryRun: true })).planned!;
+    assert.deepEqual(planned.filter((change) => change.path.endsWith('zod.ts')).map((change) => change.action), ['delete']);
+
+    await run();
+    await assert.rejects(fs.access(join(schemaDir, 'zod.ts')));
+  });
+
+  it('filters the types but leaves the own schema.ts alone with --types-only', async () => {
+    const typesOnlyDir = join(projectDir, 'types-only');
+    const schemaFile = join(typesOnlyDir, 'public', 'schema.ts');
+    const schemaSource = `import { pgTable, serial } from 'drizzle-orm/pg-core';
+
+export const users = pgTable('users', { id: serial().primaryKey() });
+
+export const legacy = pgTable('legacy', { id: serial().primaryKey() });
+`;
+    await fs.mkdir(join(typesOnlyDir, 'public'), { recursive: true });
+    await fs.writeFile(schemaFile, schemaSource);
+
+    const result = await generate({
+      schema: 'public',
+      typesOnly: true,
+      exclude: ['legacy'],
+      config: { outDir: typesOnlyDir, formatter: 'none' },
+    });
+
+    assert.deepEqual(result.tables, ['users']);
+    assert.equal(await fs.readFile(schemaFile, 'utf8'), schemaSource);
+    assert.doesNotMatch(await fs.readFile(join(typesOnlyDir, 'public', 'types.ts'), 'utf8'), /legacy/iu);
+  });
+});
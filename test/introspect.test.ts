@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { introspectSchema } from '../introspect.js';
+import type { SchemaModel } from '../model.js';
+import { catalogClient, SHOP_CATALOG } from './fixtures/catalog.js';
+
+describe('introspectSchema', () => {
+  const introspect = () => introspectSchema(catalogClient(SHOP_CATALOG), 'shop');
+  const table = (model: SchemaModel, name: string) => model.tables.find((candidate) => candidate.name === name)!;
+  const column = (model: SchemaModel, tableName: string, name: string) =>
+    table(model, tableName).columns.find((candidate) => candidate.name === name)!;
+
+  it('queries the catalog for the requested schema', async () => {
+    const client = catalogClient(SHOP_CATALOG);
+    await introspectSchema(client, 'shop');
+    assert.ok(client.calls.length > 0);
+    for (const call of client.calls) assert.deepEqual(call.values, ['shop']);
+  });
+
+  it('reads enums with their values in order', async () => {
+    const model = await introspect();
+    assert.deepEqual(model.enums, [
+      { variableName: 'orderStatus', name: 'order_status', values: ['pending', 'shipped'], comment: 'Where an order is.' },
+    ]);
+  });
+
+  it('maps column types, defaults and nullability', async () => {
+    const model = await introspect();
+    assert.deepEqual(model.tables.map((candidate) => candidate.variableName), ['customers', 'orders']);
+
+    assert.deepEqual(column(model, 'customers', 'id'), {
+      propertyName: 'id',
+      name: 'id',
+      dataType: 'serial',
+      notNull: true,
+      hasDefault: true,
+      defaultValue: "nextval('shop.customers_id_seq'::regclass)",
+      isArray: false,
+      primaryKey: true,
+      unique: false,
+    });
+    assert.equal(column(model, 'orders', 'status').dataType, 'enum');
+    assert.equal(column(model, 'orders', 'status').enumName, 'order_status');
+    assert.deepEqual(
+      [column(model, 'orders', 'total').precision, column(model, 'orders', 'total').scale],
+      [10, 2]
+    );
+    assert.equal(column(model, 'orders', 'tags').dataType, 'text');
+    assert.equal(column(model, 'orders', 'tags').isArray, true);
+    assert.equal(column(model, 'orders', 'placed_at').withTimezone, true);
+    assert.equal(column(model, 'orders', 'placed_at').hasDefault, true);
+  });
+
+  it('reads primary keys, checks and foreign keys', async () => {
+    const model = await introspect();
+    const orders = table(model, 'orders');
+
+    assert.deepEqual(table(model, 'customers').primaryKey, ['id']);
+    assert.equal(column(model, 'customers', 'email').unique, true);
+    assert.deepEqual(orders.checks, [{ name: 'orders_total_check', expression: '(total >= (0)::numeric)' }]);
+    // Foreign keys into the introspected schema get no foreignSchema
+    assert.deepEqual(orders.foreignKeys, [
+      {
+        name: 'orders_customer_id_fkey',
+        columns: ['customer_id'],
+        foreignTable: 'customers',
+        foreignColumns: ['id'],
+        onDelete: 'cascade',
+        onUpdate: 'no action',
+      },
+    ]);
+  });
+
+  it('reads unique constraints and indexes', async () => {
+    const model = await introspect();
+    assert.deepEqual(table(model, 'customers').indexes, [{ name: 'customers_email_key', columns: ['email'], unique: true }]);
+    assert.deepEqual(table(model, 'orders').indexes, [{ name: 'orders_tags_idx', columns: ['tags'], unique: false, method: 'gin' }]);
+  });
+
+  it('reads domains and composite types and points columns at them', async () => {
+    const model = await introspect();
+
+    assert.equal(model.domains.length, 1);
+    assert.equal(model.domains[0]!.name, 'email');
+    assert.equal(model.domains[0]!.baseType.dataType, 'varchar');
+    assert.equal(model.domains[0]!.baseType.notNull, true);
+    assert.equal(model.domains[0]!.comment, 'An email address.');
+
+    assert.deepEqual(model.compositeTypes.map((type) => type.name), ['postal_address']);
+    assert.deepEqual(model.compositeTypes[0]!.attributes.map((attribute) => attribute.name), ['street', 'city']);
+
+    assert.equal(column(model, 'customers', 'email').typeName, 'email');
+    assert.equal(column(model, 'customers', 'email').dataType, 'varchar');
+    assert.equal(column(model, 'customers', 'email').length, 320);
+    assert.equal(column(model, 'customers', 'address').typeName, 'postal_address');
+  });
+
+  it('reads views apart from tables', async () => {
+    const model = await introspect();
+    assert.deepEqual(
+      model.views.map((view) => ({ name: view.name, materialized: view.materialized, columns: view.columns.map((viewColumn) => viewColumn.name) })),
+      [{ name: 'open_orders', materialized: true, columns: ['id'] }]
+    );
+  });
+
+  it('carries comments onto tables, columns and composite type attributes', async () => {
+    const model = await introspect();
+    assert.equal(table(model, 'orders').comment, 'Orders placed by customers.');
+    assert.equal(column(model, 'orders', 'total').comment, 'Sum of the order lines.');
+    assert.equal(model.compositeTypes[0]!.attributes.find((attribute) => attribute.name === 'city')!.comment, 'City name.');
+    assert.equal(table(model, 'customers').comment, undefined);
+  });
+});
@@ -0,0 +1,200 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SchemaModel } from '../model.js';
+import { baseVariableName, camelCase, drizzleSchemaInfix, pascalCase, rowTypeNames, schemaSuffix, singularize, typeNameCollisions } from '../naming.js';
+
+describe('singularize', () => {
+  it('drops the plural s', () => {
+    for (const [plural, singular] of [
+      ['users', 'user'],
+      ['Orders', 'Order'],
+      ['databases', 'database'],
+      ['horses', 'horse'],
+    ]) {
+      assert.equal(singularize(plural!), singular);
+    }
+  });
+
+  it('drops -es after sibilants', () => {
+    for (const [plural, singular] of [
+      ['addresses', 'address'],
+      ['boxes', 'box'],
+      ['matches', 'match'],
+      ['dishes', 'dish'],
+      ['buses', 'bus'],
+      ['statuses', 'status'],
+    ]) {
+      assert.equal(singularize(plural!), singular);
+    }
+  });
+
+  it('keeps the e of words that end in -use or -che', () => {
+    for (const [plural, singular] of [
+      ['houses', 'house'],
+      ['warehouses', 'warehouse'],
+      ['causes', 'cause'],
+      ['clauses', 'clause'],
+      ['caches', 'cache'],
+      ['niches', 'niche'],
+      ['excuses', 'excuse'],
+    ]) {
+      assert.equal(singularize(plural!), singular);
+    }
+  });
+
+  it('tells the ambiguous -ches, -ses, -oes, -ves and -ies endings apart', () => {
+    const words = `
+      mustaches mustache, moustaches moustache, headaches headache, avalanches avalanche, quiches quiche, psyches psyche,
+      coaches coach, beaches beach, approaches approach, churches church, branches branch, speeches speech,
+      sandwiches sandwich, switches switch, brooches brooch, pouches pouch, stomachs stomach, epochs epoch,
+      refuses refuse, misuses misuse, confuses confuse, abuses abuse, muses muse, accuses accuse, uses use,
+      bonuses bonus, campuses campus, viruses virus, focuses focus, syllabuses syllabus, walruses walrus,
+      responses response, courses course, purchases purchase, licenses license, invoices invoice, services service,
+      analyses analysis, crises crisis, hypotheses hypothesis, aliases alias, gases gas, canvases canvas,
+      quizzes quiz, buzzes buzz, taxes tax, suffixes suffix, hashes hash, patches patch,
+      heroes hero, potatoes potato, shoes shoe, toes toe, photos photo,
+      wolves wolf, knives knife, lives life, shelves shelf, olives olive, archives archive, leaves leave, reserves reserve,
+      countries country, cookies cookie, calories calorie, pies pie, ties tie, days day, keys key,
+      matrices matrix, vertices vertex, appendices appendix, phenomena phenomenon, sms sms`;
+    for (const pair of words.trim().split(/,\s*/u)) {
+      const [plural, singular] = pair.split(' ');
+      assert.equal(singularize(plural!), singular, plural);
+    }
+  });
+
+  it('handles -ies, irregular and uncountable words', () => {
+    for (const [plural, singular] of [
+      ['categories', 'category'],
+      ['movies', 'movie'],
+      ['people', 'person'],
+      ['indices', 'index'],
+      ['data', 'data'],
+      ['series', 'series'],
+      ['status', 'status'],
+      ['analysis', 'analysis'],
+    ]) {
+      assert.equal(singularize(plural!), singular);
+    }
+  });
+
+  it('singularizes the last word of a compound name and keeps its case', () => {
+    assert.equal(singularize('UserProfiles'), 'UserProfile');
+    assert.equal(singularize('orderWarehouses'), 'orderWarehouse');
+    assert.equal(singularize('ProductCategories'), 'ProductCategory');
+    assert.equal(singularize('People'), 'Person');
+    assert.equal(singularize(pascalCase('audit_log_caches')), 'AuditLogCache');
+  });
+
+  it('never reduces a name to nothing', () => {
+    assert.equal(singularize('s'), 's');
+    assert.equal(singularize(''), '');
+  });
+});
+
+describe('schemaSuffix', () => {
+  it('builds the PascalCase schema name with or without the trailing S', () => {
+    assert.equal(schemaSuffix('public'), 'PublicS');
+    assert.equal(schemaSuffix('audit_log'), 'AuditLogS');
+    assert.equal(schemaSuffix('audit_log', false), 'AuditLog');
+  });
+});
+
+describe('drizzleSchemaInfix', () => {
+  it('builds the infix drizzle-kit adds to pulled names', () => {
+    assert.equal(drizzleSchemaInfix('auth'), 'InAuthSchema');
+    assert.equal(drizzleSchemaInfix('audit_log'), 'InAuditLogSchema');
+  });
+});
+
+describe('baseVariableName', () => {
+  it('strips the schema suffix that replaced the drizzle-kit infix', () => {
+    assert.equal(baseVariableName('usersAuthS', 'auth', 'AuthS'), 'users');
+    assert.equal(baseVariableName('usersAuth', 'auth', 'Auth'), 'users');
+    assert.equal(baseVariableName('usersV2', 'auth', 'V2'), 'users');
+  });
+
+  it('strips the whole drizzle-kit infix when it was left in place', () => {
+    assert.equal(baseVariableName('usersInAuth', 'auth', 'Auth'), 'users');
+    assert.equal(baseVariableName('postsInAuthSchema', 'auth', 'Auth'), 'posts');
+    assert.equal(baseVariableName('roleInAuditLog', 'audit_log', 'AuditLog'), 'role');
+    assert.equal(baseVariableName('usersInAuth', 'auth', 'AuthS'), 'users');
+  });
+
+  it('keeps names without a schema part', () => {
+    assert.equal(baseVariableName('users', 'public', 'PublicS'), 'users');
+    assert.equal(baseVariableName('Auth', 'auth', 'Auth'), 'Auth');
+    assert.equal(baseVariableName('users', 'auth', ''), 'users');
+  });
+});
+
+describe('rowTypeNames', () => {
+  it('adds the Insert suffix by default', () => {
+    assert.deepEqual(rowTypeNames('User'), { select: 'User', insert: 'UserInsert' });
+  });
+
+  it('applies the configured prefixes and suffixes', () => {
+    assert.deepEqual(
+      rowTypeNames('User', {
+        select: { prefix: 'Db', suffix: 'Row' },
+        insert: { prefix: 'New', suffix: '' },
+        update: { prefix: '', suffix: 'Patch' },
+      }),
+      { select: 'DbUserRow', insert: 'NewUser', update: 'UserPatch' }
+    );
+  });
+});
+
+describe('typeNameCollisions', () => {
+  const table = (name: string, variableName: string) => ({
+    variableName,
+    name,
+    columns: [],
+    primaryKey: ['id'],
+    indexes: [],
+    foreignKeys: [],
+    checks: [],
+  });
+  const schemaModel = (tables: ReturnType<typeof table>[], enumNames: string[] = []): SchemaModel => ({
+    name: 'public',
+    tables,
+    enums: enumNames.map((name) => ({ variableName: camelCase(name), name, values: ['a'] })),
+    views: [],
+    compositeTypes: [],
+    domains: [],
+  });
+  const options = { schemaSuffix: 'PublicS', enumStyle: 'enum' as const, brandedIds: false };
+  const singularName = (relation: { variableName: string }) => singularize(pascalCase(relation.variableName));
+
+  it('reports tables that singularize to the same type name', () => {
+    const collisions = typeNameCollisions(
+      schemaModel([table('user', 'user'), table('users', 'users')]),
+      options,
+      singularName,
+      (relation) => rowTypeNames(singularName(relation))
+    );
+    assert.deepEqual(collisions, ['User (user table, users table)', 'UserInsert (user insert type, users insert type)']);
+  });
+
+  it('reports row types that clash with branded ID and enum types', () => {
+    const collisions = typeNameCollisions(
+      schemaModel([table('users', 'users'), table('user_id', 'userId'), table('order_status_types', 'orderStatusTypes')], ['order_status']),
+      { ...options, brandedIds: true },
+      singularName,
+      (relation) => rowTypeNames(singularName(relation))
+    );
+    assert.deepEqual(collisions, [
+      'UserId (users ID type, user_id table)',
+      'OrderStatusType (order_status_types table, order_status enum type)',
+    ]);
+  });
+
+  it('finds nothing when every name is distinct', () => {
+    const collisions = typeNameCollisions(
+      schemaModel([table('users', 'users'), table('orders', 'orders')], ['order_status']),
+      options,
+      singularName,
+      (relation) => rowTypeNames(singularName(relation))
+    );
+    assert.deepEqual(collisions, []);
+  });
+});
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SchemaModel } from '../model.js';
+import { annotateSchemaSource, readSchemaModel } from '../schema-reader.js';
+
+/**
+ * A schema file as drizzle-kit pulls it, with declarations wrapped across
+ * lines, enum values that contain quotes, a self reference and a table that
+ * is only exported under another name.
+ */
+const SCHEMA_FILE = `import { pgSchema, serial, integer, text, varchar, foreignKey, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core"
+import { sql } from "drizzle-orm"
+
+export const shopSchema = pgSchema("shop");
+
+export const mood = shopSchema.enum("mood", [
+	"it's fine", 'say "hi"',
+	"ok"])
+
+export const categories =
+	shopSchema.table(
+		"categories",
+		{
+			id: serial().primaryKey().notNull(),
+			parentId: integer("parent_id"),
+			name: varchar({
+				length: 120 }).notNull(),
+		},
+		(table) => [
+			foreignKey({
+				columns: [table.parentId],
+				foreignColumns: [table.id],
+				name: "categories_parent_id_fkey",
+			}).onDelete("cascade"),
+			index("categories_name_idx").using("btree", table.name.asc().nullsLast().op("text_ops")),
+		],
+	);
+
+const productsTable = shopSchema.table("products", {
+	id: serial().primaryKey(),
+	categoryId: integer("category_id").references((): AnyPgColumn => categories.id, { onDelete: "set null" }),
+	mood: mood(),
+	note: text().default(sql\`'none'\`),
+}, (t) => [uniqueIndex("products_note_key").on(t.note)]);
+
+export { productsTable as products };
+
+const internal = shopSchema.table("internal", { id: serial().primaryKey() });
+`;
+
+describe('readSchemaModel', () => {
+  const read = () => readSchemaModel(SCHEMA_FILE, 'shop');
+  const table = (model: SchemaModel, name: string) => model.tables.find((candidate) => candidate.name === name)!;
+
+  it('reads declarations wrapped across lines and exported under another name', () => {
+    const model = read();
+    assert.deepEqual(model.tables.map((candidate) => [candidate.variableName, candidate.name]), [
+      ['categories', 'categories'],
+      ['products', 'products'],
+    ]);
+    assert.deepEqual(table(model, 'categories').columns.map((column) => [column.name, column.dataType, column.notNull]), [
+      ['id', 'serial', true],
+      ['parent_id', 'integer', false],
+      ['name', 'varchar', true],
+    ]);
+    assert.equal(table(model, 'categories').columns[2]!.length, 120);
+  });
+
+  it('reads enum values that contain quotes', () => {
+    assert.deepEqual(read().enums, [{ variableName: 'mood', name: 'mood', values: ["it's fine", 'say "hi"', 'ok'] }]);
+  });
+
+  it('resolves a self reference in the extra config to the table itself', () => {
+    assert.deepEqual(table(read(), 'categories').foreignKeys, [
+      {
+        columns: ['parent_id'],
+        foreignTable: 'categories',
+        foreignColumns: ['id'],
+        name: 'categories_parent_id_fkey',
+        onDelete: 'cascade',
+      },
+    ]);
+  });
+
+  it('resolves column references to database names', () => {
+    const products = table(read(), 'products');
+    assert.deepEqual(products.foreignKeys, [
+      { columns: ['category_id'], foreignTable: 'categories', foreignColumns: ['id'], onDelete: 'set null' },
+    ]);
+    assert.equal(products.columns.find((column) => column.name === 'mood')!.enumName, 'mood');
+    assert.equal(products.columns.find((column) => column.name === 'note')!.defaultValue, "sql`'none'`");
+  });
+
+  it('reads indexes and marks single-column unique indexes on the column', () => {
+    const model = read();
+    assert.deepEqual(table(model, 'categories').indexes, [
+      { name: 'categories_name_idx', columns: ['name'], unique: false, method: 'btree' },
+    ]);
+    assert.deepEqual(table(model, 'products').indexes, [{ name: 'products_note_key', columns: ['note'], unique: true }]);
+    assert.equal(table(model, 'products').columns.find((column) => column.name === 'note')!.unique, true);
+  });
+});
+
+describe('annotateSchemaSource', () => {
+  it('adds comments as JSDoc that the reader reads back', () => {
+    const commented = readSchemaModel(SCHEMA_FILE, 'shop');
+    commented.tables[0]!.comment = 'Product categories.';
+    commented.tables[0]!.columns[1]!.comment = 'Category this one is nested in.';
+
+    const model = readSchemaModel(annotateSchemaSource(SCHEMA_FILE, commented), 'shop');
+    assert.equal(model.tables[0]!.comment, 'Product categories.');
+    assert.equal(model.tables[0]!.columns[1]!.comment, 'Category this one is nested in.');
+    assert.deepEqual(model.tables[0]!.foreignKeys, commented.tables[0]!.foreignKeys);
+  });
+});
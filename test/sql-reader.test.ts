@@ -0,0 +1,229 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SchemaModel } from '../model.js';
+import { readSqlSchemaModel, readSqlSchemaNames } from '../sql-reader.js';
+
+/**
+ * A `pg_dump --schema-only` style dump: constraints, defaults and identities
+ * are added by later `ALTER` statements, and names are schema-qualified.
+ */
+const DUMP = `
+SET statement_timeout = 0;
+SELECT pg_catalog.set_config('search_path', '', false);
+
+CREATE SCHEMA billing;
+
+CREATE TYPE public.order_status AS ENUM (
+    'pending',
+    'paid'
+);
+ALTER TYPE public.order_status ADD VALUE 'refunded' AFTER 'paid';
+
+CREATE TYPE public.address AS (
+	street text,
+	zip character varying(10)
+);
+
+CREATE DOMAIN public.email AS public.citext NOT NULL CONSTRAINT email_check CHECK ((VALUE ~ '@'::text));
+
+CREATE FUNCTION public.touch() RETURNS trigger
+    LANGUAGE plpgsql
+    AS $$ BEGIN NEW.updated_at = now(); RETURN NEW; END; $$;
+
+/* a /* nested */ comment */
+CREATE TABLE public.users (
+    id integer NOT NULL,
+    email public.email,
+    name character varying(255) DEFAULT 'anon'::character varying NOT NULL,
+    "displayName" text COLLATE pg_catalog."default",
+    tags text[] DEFAULT '{}'::text[],
+    home public.address,
+    balance numeric(12,2) DEFAULT 0 NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT users_balance_check CHECK ((balance >= (0)::numeric))
+);
+
+COMMENT ON TABLE public.users IS 'People who can log in';
+COMMENT ON COLUMN public.users.email IS 'Login e-mail, it''s unique';
+
+CREATE SEQUENCE public.users_id_seq AS integer START WITH 1 INCREMENT BY 1 NO MINVALUE NO MAXVALUE CACHE 1;
+ALTER SEQUENCE public.users_id_seq OWNED BY public.users.id;
+
+CREATE TABLE public.orders (
+    id bigint NOT NULL,
+    user_id integer,
+    status public.order_status DEFAULT 'pending'::public.order_status NOT NULL,
+    statuses public.order_status[],
+    total double precision
+);
+ALTER TABLE public.orders ALTER COLUMN id ADD GENERATED ALWAYS AS IDENTITY (
+    SEQUENCE NAME public.orders_id_seq
+    START WITH 1
+);
+
+CREATE TABLE billing.invoices (
+    id serial PRIMARY KEY,
+    order_id bigint REFERENCES public.orders ON DELETE CASCADE
+);
+
+CREATE VIEW public.active_users AS SELECT id FROM public.users;
+
+ALTER TABLE ONLY public.users ALTER COLUMN id SET DEFAULT nextval('public.users_id_seq'::regclass);
+ALTER TABLE ONLY public.users ADD CONSTRAINT users_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.users ADD CONSTRAINT users_email_key UNIQUE (email);
+ALTER TABLE ONLY public.orders ADD CONSTRAINT orders_pkey PRIMARY KEY (id);
+CREATE INDEX orders_status_idx ON public.orders USING btree (status);
+CREATE UNIQUE INDEX users_name_created ON public.users USING btree (name, created_at DESC);
+ALTER TABLE ONLY public.orders
+    ADD CONSTRAINT orders_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON UPDATE CASCADE ON DELETE SET NULL;
+ALTER TABLE public.orders ADD COLUMN broken ;
+CREATE TRIGGER touch BEFORE UPDATE ON public.users FOR EACH ROW EXECUTE FUNCTION public.touch();
+`;
+
+describe('readSqlSchemaModel', () => {
+  const read = (schemaName = 'public') => readSqlSchemaModel(DUMP, schemaName);
+  const table = (model: SchemaModel, name: string) => model.tables.find((candidate) => candidate.name === name)!;
+  const column = (model: SchemaModel, tableName: string, name: string) =>
+    table(model, tableName).columns.find((candidate) => candidate.name === name)!;
+
+  it('reads the tables of the requested schema only', () => {
+    const { schemaModel } = read();
+    assert.equal(schemaModel.name, 'public');
+    assert.deepEqual(schemaModel.tables.map((candidate) => candidate.variableName), ['orders', 'users']);
+    assert.deepEqual(read('billing').schemaModel.tables.map((candidate) => candidate.name), ['invoices']);
+  });
+
+  it('reads enums including values added later', () => {
+    const { schemaModel } = read();
+    assert.deepEqual(schemaModel.enums, [
+      { variableName: 'orderStatus', name: 'order_status', values: ['pending', 'paid', 'refunded'] },
+    ]);
+    assert.equal(column(schemaModel, 'orders', 'status').dataType, 'enum');
+    assert.equal(column(schemaModel, 'orders', 'status').enumName, 'order_status');
+    assert.equal(column(schemaModel, 'orders', 'statuses').isArray, true);
+  });
+
+  it('maps column types, defaults and nullability', () => {
+    const { schemaModel } = read();
+
+    assert.deepEqual(column(schemaModel, 'users', 'name'), {
+      propertyName: 'name',
+      name: 'name',
+      dataType: 'varchar',
+      notNull: true,
+      hasDefault: true,
+      isArray: false,
+      primaryKey: false,
+      unique: false,
+      defaultValue: "'anon'::character varying",
+      length: 255,
+    });
+    assert.equal(column(schemaModel, 'users', 'displayName').dataType, 'text');
+    assert.deepEqual([column(schemaModel, 'users', 'tags').dataType, column(schemaModel, 'users', 'tags').isArray], ['text', true]);
+    assert.deepEqual(
+      [column(schemaModel, 'users', 'balance').precision, column(schemaModel, 'users', 'balance').scale],
+      [12, 2]
+    );
+    assert.equal(column(schemaModel, 'users', 'created_at').withTimezone, true);
+    assert.equal(column(schemaModel, 'orders', 'total').dataType, 'doublePrecision');
+  });
+
+  it('detects serial columns from owned sequences and identities from ALTER TABLE', () => {
+    const { schemaModel } = read();
+
+    assert.equal(column(schemaModel, 'users', 'id').dataType, 'serial');
+    assert.equal(column(schemaModel, 'users', 'id').defaultValue, "nextval('public.users_id_seq'::regclass)");
+    assert.equal(column(schemaModel, 'orders', 'id').dataType, 'bigint');
+    assert.equal(column(schemaModel, 'orders', 'id').hasDefault, true);
+    assert.equal(column(read('billing').schemaModel, 'invoices', 'id').dataType, 'serial');
+  });
+
+  it('reads primary keys, checks and foreign keys', () => {
+    const { schemaModel } = read();
+
+    assert.deepEqual(table(schemaModel, 'users').primaryKey, ['id']);
+    assert.equal(column(schemaModel, 'users', 'id').primaryKey, true);
+    assert.equal(column(schemaModel, 'users', 'email').unique, true);
+    assert.deepEqual(table(schemaModel, 'users').checks, [{ name: 'users_balance_check', expression: '(balance >= (0)::numeric)' }]);
+    assert.deepEqual(table(schemaModel, 'orders').foreignKeys, [
+      {
+        name: 'orders_user_id_fkey',
+        columns: ['user_id'],
+        foreignTable: 'users',
+        foreignColumns: ['id'],
+        onDelete: 'set null',
+        onUpdate: 'cascade',
+      },
+    ]);
+  });
+
+  it('resolves foreign keys into other schemas to the referenced primary key', () => {
+    assert.deepEqual(table(read('billing').schemaModel, 'invoices').foreignKeys, [
+      {
+        name: 'invoices_order_id_fkey',
+        columns: ['order_id'],
+        foreignTable: 'orders',
+        foreignColumns: ['id'],
+        foreignSchema: 'public',
+        onDelete: 'cascade',
+      },
+    ]);
+  });
+
+  it('reads unique constraints and indexes', () => {
+    const { schemaModel } = read();
+    assert.deepEqual(table(schemaModel, 'users').indexes, [
+      { name: 'users_email_key', columns: ['email'], unique: true },
+      { name: 'users_name_created', columns: ['name', 'created_at'], unique: true, method: 'btree' },
+    ]);
+    assert.deepEqual(table(schemaModel, 'orders').indexes, [
+      { name: 'orders_status_idx', columns: ['status'], unique: false, method: 'btree' },
+    ]);
+  });
+
+  it('reads domains and composite types and points columns at them', () => {
+    const { schemaModel } = read();
+
+    assert.deepEqual(schemaModel.domains.map((domain) => [domain.name, domain.baseType.dataType, domain.baseType.notNull]), [
+      ['email', 'citext', true],
+    ]);
+    assert.deepEqual(schemaModel.compositeTypes.map((type) => type.name), ['address']);
+    assert.deepEqual(
+      schemaModel.compositeTypes[0]!.attributes.map((attribute) => [attribute.name, attribute.dataType, attribute.length]),
+      [
+        ['street', 'text', undefined],
+        ['zip', 'varchar', 10],
+      ]
+    );
+
+    assert.equal(column(schemaModel, 'users', 'email').typeName, 'email');
+    assert.equal(column(schemaModel, 'users', 'home').typeName, 'address');
+  });
+
+  it('carries comments onto tables and columns', () => {
+    const { schemaModel } = read();
+    assert.equal(table(schemaModel, 'users').comment, 'People who can log in');
+    assert.equal(column(schemaModel, 'users', 'email').comment, "Login e-mail, it's unique");
+    assert.equal(table(schemaModel, 'orders').comment, undefined);
+  });
+
+  it('skips unreadable statements and views with a warning', () => {
+    const { schemaModel, warnings } = read();
+
+    assert.equal(warnings.length, 2);
+    assert.match(warnings[0]!, /^Skipped the statement on line \d+: /u);
+    assert.equal(warnings[1], 'Views are not read from SQL files, so active_users is left out.');
+    assert.deepEqual(schemaModel.views, []);
+    assert.equal(column(schemaModel, 'orders', 'broken'), undefined);
+  });
+});
+
+describe('readSqlSchemaNames', () => {
+  it('lists the schemas that have tables or types', () => {
+    assert.deepEqual(readSqlSchemaNames(DUMP), ['billing', 'public']);
+  });
+
+  it('returns nothing for a file without tables or types', () => {
+    assert.deepEqual(readSqlSchemaNames('CREATE SCHEMA empty;\n'), []);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Replaces the generated TypeScript types of columns with types set in the
+ * config, keyed by `table.column` or by Postgres type name, and collects the
+ * imports those types need.
+ */
+
+import { relative } from 'path';
+import { toPosixPath } from './config.js';
+import type { ColumnModel, SchemaModel } from './model.js';
+
+/**
+ * Overridden column types and the imports they need, for one generated file.
+ */
+export interface TypeOverrider {
+  /**
+   * Returns the overridden type of a column's value, including arrays and
+   * `null`, or undefined when no override matches the column.
+   */
+  columnType(relation: { name: string }, column: ColumnModel): string | undefined;
+  /** Renders the `import type` declarations of the overrides returned so far */
+  renderImports(): string;
+}
+
+/**
+ * Postgres names of the Drizzle column builders, besides the builder name itself.
+ */
+const POSTGRES_TYPE_NAMES: Record<string, string[]> = {
+  smallint: ['int2'],
+  integer: ['int4', 'int'],
+  bigint: ['int8'],
+  // Serial columns are integers in Postgres
+  smallserial: ['serial2', 'smallint', 'int2'],
+  serial: ['serial4', 'integer', 'int4', 'int'],
+  bigserial: ['serial8', 'bigint', 'int8'],
+  real: ['float4'],
+  doublePrecision: ['double precision', 'float8'],
+  boolean: ['bool'],
+  char: ['bpchar', 'character'],
+  varchar: ['character varying'],
+  numeric: ['decimal'],
+};
+
+// `import('./types/order-meta').OrderMeta` in an override value
+const IMPORT_REFERENCE = /import\(\s*(['"])([^'"]+)\1\s*\)\.([A-Za-z_$][A-Za-z0-9_$]*)/gu;
+
+/**
+ * Returns the keys a type override can match a column by, most specific first:
+ * the composite type or domain, the enum, then the names of the base type.
+ */
+function typeKeys(column: ColumnModel): string[] {
+  const keys: string[] = [];
+  if (column.typeName) keys.push(column.typeName);
+  if (column.enumName) keys.push(column.enumName);
+  if (column.dataType === 'timestamp' || column.dataType === 'time') {
+    keys.push(column.withTimezone ? `${column.dataType}tz` : column.dataType);
+  } else {
+    keys.push(column.dataType, ...(POSTGRES_TYPE_NAMES[column.dataType] ?? []));
+  }
+  return keys;
+}
+
+/**
+ * Creates the type overrider of one generated file. Relative module paths in
+ * `import('...')` references are relative to the working directory, like the
+ * other paths of the config, and are rewritten to be relative to the schema
+ * directory the file is generated into.
+ *
+ * @param {Record<string, string>} overrides - TypeScript types keyed by `table.column` or Postgres type name
+ * @param {string} schemaDir - Directory the generated file is written to
+ * @returns {TypeOverrider} - The type overrider
+ */
+export function createTypeOverrider(overrides: Record<string, string>, schemaDir: string): TypeOverrider {
+  // Imported names by module, and the module each name was imported from
+  const imports = new Map<string, Set<string>>();
+  const importedFrom = new Map<string, string>();
+
+  const resolveImports = (type: string) =>
+    type.replace(IMPORT_REFERENCE, (_match, _quote: string, module: string, name: string) => {
+      const path = module.startsWith('.') ? toPosixPath(relative(schemaDir, module)) : module;
+      const earlier = importedFrom.get(name);
+      if (earlier !== undefined && earlier !== path) {
+        throw new Error(`Type overrides import ${name} from both ${earlier} and ${path}. Rename one of the types.`);
+      }
+      importedFrom.set(name, path);
+      if (!imports.has(path)) imports.set(path, new Set());
+      imports.get(path)!.add(name);
+      return name;
+    });
+
+  return {
+    columnType(relation, column) {
+      const columnOverride = overrides[`${relation.name}.${column.name}`];
+      const typeOverride = typeKeys(column).map((key) => overrides[key]).find((type) => type !== undefined);
+      if (columnOverride === undefined && typeOverride === undefined) return undefined;
+
+      // A column override is the type of the whole value, a type override the type of one element
+      let value: string;
+      if (columnOverride !== undefined) {
+        value = resolveImports(columnOverride);
+      } else {
+        const scalar = resolveImports(typeOverride!);
+        value = column.isArray ? `${/^[\w$.]+$/u.test(scalar) ? scalar : `(${scalar})`}[]` : scalar;
+      }
+      return column.notNull ? value : `${value} | null`;
+    },
+    renderImports() {
+      return [...imports]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([path, names]) => `import type { ${[...names].sort().join(', ')} } from '${path}';\n`)
+        .join('');
+    },
+  };
+}
+
+/**
+ * Lists the `table.column` overrides whose table is in the schema but has no
+ * such column, which most likely are typos. Overrides of tables that are not
+ * in the schema may be meant for another schema, so they are not listed.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {Record<string, string>} overrides - TypeScript types keyed by `table.column` or Postgres type name
+ * @returns {string[]} - The keys of the unmatched overrides
+ */
+export function unmatchedColumnOverrides(schemaModel: SchemaModel, overrides: Record<string, string>): string[] {
+  const relations = [...schemaModel.tables, ...schemaModel.views];
+  return Object.keys(overrides).filter((key) => {
+    const separator = key.lastIndexOf('.');
+    if (separator === -1) return false;
+    const relation = relations.find((candidate) => candidate.name === key.slice(0, separator));
+    return relation !== undefined && !relation.columns.some((column) => column.name === key.slice(separator + 1));
+  });
+}
@@ -38,3 +38,13 @@ return Object.values(enumType) as T[keyof T][];
 export type TableInsert<T> = T extends { $inferInsert: infer U } ? U : never;
 
 export type TableSelect<T> = T extends { $inferSelect: infer U } ? U : never;
+
+/**
+ * Replaces the types of the given keys of a row type with branded ID types,
+ * keeping `null` and `undefined` from the original types.
+ * @template T - The row type.
+ * @template Ids - The branded ID type of each key.
+ */
+export type WithBrandedIds<T, Ids> = {
+  [K in keyof T]: K extends keyof Ids ? Ids[K] | Extract<T[K], null | undefined> : T[K];
+};
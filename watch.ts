@@ -0,0 +1,148 @@
+/**
+ * Regenerates a schema whenever its source changes, for `--watch`: the
+ * schema.ts file in types-only mode, the SQL file with `--from-sql`, or the
+ * database catalog otherwise.
+ */
+
+import { watch as watchFs, promises as fs, type FSWatcher } from 'fs';
+import { basename, dirname, join } from 'path';
+import { generate, resolveGenerateOptions, type GenerateOptions, type GenerateResult } from './generate.js';
+import { fingerprintDatabase } from './introspect.js';
+
+/**
+ * Options of {@link watch}.
+ */
+export interface WatchOptions {
+  /** How often the database fingerprint is polled in full mode, in milliseconds (default: 5000) */
+  interval?: number;
+  /** Called with a description of the change before every regeneration, including the first one */
+  onChange?: (reason: string) => void;
+  onResult?: (result: GenerateResult) => void;
+  /** Called when a regeneration or a poll fails. Watching continues */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A running watch started by {@link watch}.
+ */
+export interface Watcher {
+  /** Stops watching and waits for a running regeneration to finish */
+  close(): Promise<void>;
+}
+
+// Editors often save a file in several writes, so changes are batched
+const DEBOUNCE_MS = 100;
+
+/**
+ * Reads a file, returning undefined if it does not exist.
+ */
+async function readOptional(path: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(path, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Generates a schema once and then again every time its source changes. In
+ * types-only mode the schema.ts file is watched and with `fromSql` the SQL
+ * file; otherwise the database is polled for a catalog fingerprint and
+ * drizzle-kit only runs when it changed.
+ *
+ * @param {GenerateOptions} generateOptions - Schema to generate and its options
+ * @param {WatchOptions} watchOptions - Polling interval and callbacks
+ * @returns {Promise<Watcher>} - The running watch
+ */
+export async function watch(generateOptions: GenerateOptions, watchOptions: WatchOptions = {}): Promise<Watcher> {
+  const options = resolveGenerateOptions(generateOptions);
+  if (options.check) {
+    throw new Error('Watch mode cannot be combined with check mode.');
+  }
+
+  // The file the schema is read from, when it is not the database
+  const sourceFile = options.typesOnly
+    ? join(options.schemaDir, 'schema.ts')
+    : options.introspect === 'sql' ? options.fromSql : undefined;
+  let running: Promise<void> | undefined;
+  let pendingReason: string | undefined;
+  // Content of the source file after the last run, so that writes made by the run itself are ignored
+  let lastSourceContent: string | undefined;
+  let lastFingerprint: string | undefined;
+  let closed = false;
+
+  const regenerate = (reason: string): Promise<void> => {
+    if (running) {
+      pendingReason = reason;
+      return running;
+    }
+
+    running = (async () => {
+      watchOptions.onChange?.(reason);
+      try {
+        watchOptions.onResult?.(await generate(generateOptions));
+      } catch (error) {
+        watchOptions.onError?.(error);
+      }
+      if (sourceFile) lastSourceContent = await readOptional(sourceFile);
+    })().finally(() => {
+      running = undefined;
+      if (pendingReason && !closed) {
+        const next = pendingReason;
+        pendingReason = undefined;
+        void regenerate(next);
+      }
+    });
+    return running;
+  };
+
+  let fileWatcher: FSWatcher | undefined;
+  let debounceTimer: NodeJS.Timeout | undefined;
+  let pollTimer: NodeJS.Timeout | undefined;
+
+  if (sourceFile) {
+    await regenerate('initial run');
+
+    // The directory is watched, since editors often replace the file instead of writing to it
+    fileWatcher = watchFs(dirname(sourceFile), (_event, fileName) => {
+      if (fileName !== basename(sourceFile)) return;
+      clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(async () => {
+        // Let a running generation finish first, it may be the one that wrote the file
+        await running;
+        const content = await readOptional(sourceFile);
+        if (content === undefined || content === lastSourceContent) return;
+        lastSourceContent = content;
+        void regenerate(`${sourceFile} changed`);
+      }, DEBOUNCE_MS);
+    });
+    fileWatcher.on('error', (error) => watchOptions.onError?.(error));
+  } else {
+    lastFingerprint = await fingerprintDatabase(options.connectionString!, options.schema);
+    await regenerate('initial run');
+
+    const poll = async () => {
+      try {
+        const fingerprint = await fingerprintDatabase(options.connectionString!, options.schema);
+        if (fingerprint !== lastFingerprint) {
+          lastFingerprint = fingerprint;
+          await regenerate(`${options.schema} schema changed in the database`);
+        }
+      } catch (error) {
+        watchOptions.onError?.(error);
+      }
+      if (!closed) pollTimer = setTimeout(poll, watchOptions.interval ?? 5000);
+    };
+    pollTimer = setTimeout(poll, watchOptions.interval ?? 5000);
+  }
+
+  return {
+    async close() {
+      closed = true;
+      clearTimeout(debounceTimer);
+      clearTimeout(pollTimer);
+      fileWatcher?.close();
+      await running;
+    },
+  };
+}
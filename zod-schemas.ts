@@ -0,0 +1,165 @@
+/**
+ * Renders Zod validation schemas for the tables and enums of a schema model.
+ */
+
+import { numericPattern } from './column-types.js';
+import type { EnumStyle } from './enum-styles.js';
+import type { ColumnModel, SchemaModel, TableModel } from './model.js';
+import { camelCase, enumTypeName, pascalCase } from './naming.js';
+import { propertyName } from './row-types.js';
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  smallint: [-32768, 32767],
+  smallserial: [1, 32767],
+  integer: [-2147483648, 2147483647],
+  serial: [1, 2147483647],
+};
+
+const STRING_TYPES: readonly string[] = [
+  'text',
+  'citext',
+  'time',
+  'interval',
+  'inet',
+  'cidr',
+  'macaddr',
+  'macaddr8',
+  'bit',
+  'varbit',
+  'tsvector',
+];
+
+/**
+ * Returns the Zod schema expression of a single (non-array, non-null) value of a column.
+ *
+ * @param {ColumnModel} column - Column to map
+ * @param {string} enumSchema - Name of the Zod schema for the column's enum, if it is enum-typed
+ * @returns {string} - The Zod schema expression
+ */
+export function zodScalarSchema(column: ColumnModel, enumSchema?: string): string {
+  if (column.enumName && enumSchema) return enumSchema;
+  if (STRING_TYPES.includes(column.dataType)) return 'z.string()';
+
+  const range = INTEGER_RANGES[column.dataType];
+  if (range) return `z.number().int().min(${range[0]}).max(${range[1]})`;
+
+  switch (column.dataType) {
+    case 'varchar':
+    case 'char':
+      return column.length !== undefined ? `z.string().max(${column.length})` : 'z.string()';
+    case 'uuid':
+      return 'z.string().uuid()';
+    case 'real':
+    case 'doublePrecision':
+      return 'z.number()';
+    case 'bigint':
+    case 'bigserial':
+      if (column.mode === 'number') return 'z.number().int()';
+      if (column.mode === 'bigint') return 'z.bigint()';
+      return 'z.string().regex(/^-?\\d+$/)';
+    case 'numeric':
+    case 'decimal':
+      return `z.string().regex(/${numericPattern(column)}/)`;
+    case 'boolean':
+      return 'z.boolean()';
+    case 'timestamp':
+      return column.mode === 'string' ? 'z.string()' : 'z.date()';
+    case 'date':
+      return column.mode === 'date' ? 'z.date()' : 'z.string().regex(/^\\d{4}-\\d{2}-\\d{2}$/)';
+    case 'point':
+      return column.mode === 'xy' ? 'z.object({ x: z.number(), y: z.number() })' : 'z.tuple([z.number(), z.number()])';
+    case 'vector':
+      return 'z.array(z.number())';
+    case 'json':
+    case 'jsonb':
+    default:
+      return 'z.unknown()';
+  }
+}
+
+/**
+ * Returns the Zod schema expression of a column for the select or insert shape.
+ *
+ * @param {ColumnModel} column - Column to map
+ * @param {'select' | 'insert'} shape - Whether the schema validates selected rows or insert values
+ * @param {string} enumSchema - Name of the Zod schema for the column's enum, if it is enum-typed
+ * @returns {string} - The Zod schema expression
+ */
+export function zodColumnSchema(column: ColumnModel, shape: 'select' | 'insert', enumSchema?: string): string {
+  let schema = zodScalarSchema(column, enumSchema);
+  if (column.isArray) schema = `z.array(${schema})`;
+  if (!column.notNull) schema += '.nullable()';
+  if (shape === 'insert' && (!column.notNull || column.hasDefault)) schema += '.optional()';
+  return schema;
+}
+
+/**
+ * Renders the zod.ts content: a `z.enum` per enum and a select and insert
+ * `z.object` per table.
+ *
+ * @param {SchemaModel} schemaModel - Model of the schema
+ * @param {string} suffix - Schema suffix used for the generated enum names
+ * @param {(table: TableModel) => string} typeName - Returns the type name of a table
+ * @param {EnumStyle} enumStyle - How the enums are emitted in enums.ts. The `union` style has
+ *   no `...Enums` arrays to import, so the values are written inline
+ * @returns {string} - The declarations, without a file header
+ */
+export function renderZodSchemas(
+  schemaModel: SchemaModel,
+  suffix: string,
+  typeName: (table: TableModel) => string = (table) => pascalCase(table.variableName),
+  enumStyle: EnumStyle = 'enum'
+): string {
+  const enums = schemaModel.enums.filter((enumDef) => enumDef.values.length > 0);
+  const importEnums = enums.length > 0 && enumStyle !== 'union';
+  const enumSchemas = new Map(
+    enums.map((enumDef) => [enumDef.name, `${camelCase(enumTypeName(enumDef.name, suffix))}Schema`])
+  );
+
+  let content = `import { z } from 'zod';
+${importEnums ? `\nimport { ${enums.map((enumDef) => `${enumTypeName(enumDef.name, suffix)}Enums`).join(', ')} } from './enums';\n` : ''}
+// Generate Zod schemas for all enums
+`;
+
+  for (const enumDef of enums) {
+    content += `
+/**
+ * Validates values of the \`${enumDef.name}\` enum in the \`${schemaModel.name}\`.
+ */
+export const ${enumSchemas.get(enumDef.name)} = z.enum(${importEnums ? `${enumTypeName(enumDef.name, suffix)}Enums` : `[${enumDef.values.map((value) => JSON.stringify(value)).join(', ')}]`});
+`;
+  }
+
+  content += `
+// Generate Zod schemas for all tables
+`;
+
+  for (const table of schemaModel.tables) {
+    const name = camelCase(typeName(table));
+    const fields = (shape: 'select' | 'insert') =>
+      table.columns
+        .map((column) => {
+          const enumSchema = column.enumName ? enumSchemas.get(column.enumName) : undefined;
+          return `  ${propertyName(column.propertyName)}: ${zodColumnSchema(column, shape, enumSchema)},`;
+        })
+        .join('\n');
+
+    content += `
+/**
+ * Validates rows selected from the \`${table.name}\` table in the \`${schemaModel.name}\`.
+ */
+export const ${name}SelectSchema = z.object({
+${fields('select')}
+});
+
+/**
+ * Validates values inserted into the \`${table.name}\` table in the \`${schemaModel.name}\`.
+ */
+export const ${name}InsertSchema = z.object({
+${fields('insert')}
+});
+`;
+  }
+
+  return content;
+}